@@ -1,6 +1,6 @@
 import { useFocusEffect } from '@react-navigation/native';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Alert, FlatList, Image, RefreshControl, StyleSheet, TouchableOpacity, View } from 'react-native';
 
 import { AIAnalysisModal } from '@/components/ai-analysis-modal';
@@ -11,11 +11,19 @@ import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
 import { AIAnalysisService } from '@/services/ai-analysis';
+import { AnalysisJobService } from '@/services/analysis-jobs';
 import { DesignStorageService } from '@/services/design-storage';
+import { ErgonomicCheckService } from '@/services/ergonomic-check';
 import { UsageTrackingService } from '@/services/usage-tracking';
-import { AIAnalysisState } from '@/types/ai-analysis';
+import {
+  AIAnalysisState,
+  ERGONOMIC_CATEGORY_LABELS,
+  ERGONOMIC_STATUS_LABELS,
+  ErgonomicInsight,
+  isAIAnalysisError
+} from '@/types/ai-analysis';
 import { PhotoAsset } from '@/types/photo';
-import { SavedDesign } from '@/types/storage';
+import { SavedDesign, USAGE_LIMITS } from '@/types/storage';
 
 export default function FavoritesScreen() {
   const params = useLocalSearchParams();
@@ -31,6 +39,7 @@ export default function FavoritesScreen() {
     error: null,
     result: null,
   });
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
   // Load designs when screen comes into focus
   useFocusEffect(
@@ -125,26 +134,26 @@ export default function FavoritesScreen() {
     setIsDetailModalVisible(true);
   };
 
-  const handleRerunAnalysis = async (design: SavedDesign) => {
-    // Check usage limits before starting
+  const handleRerunAnalysis = (design: SavedDesign) => {
+    // Ensure detail modal is closed first
+    setIsDetailModalVisible(false);
+    setSelectedDesign(design);
+    setIsRerunModalVisible(true);
+  };
+
+  const handleRerunAnalysisComplete = async (photo: PhotoAsset, design: SavedDesign) => {
+    // Check usage limits before starting; single-category checks have their own limit
     const canAnalyze = await UsageTrackingService.canPerformAnalysis();
     
     if (!canAnalyze.success || !canAnalyze.data) {
       Alert.alert(
         'Daily Limit Reached',
-        `You've reached your daily limit of 5 AI analyses. Please try again tomorrow.`,
+        `You've reached your daily limit of ${USAGE_LIMITS.DAILY_ANALYSES} AI analyses. You can still re-check a single area (up to ${USAGE_LIMITS.DAILY_CATEGORY_CHECKS} a day), or try again tomorrow.`,
         [{ text: 'OK' }]
       );
       return;
     }
 
-    // Ensure detail modal is closed first
-    setIsDetailModalVisible(false);
-    setSelectedDesign(design);
-    setIsRerunModalVisible(true);
-  };
-
-  const handleRerunAnalysisComplete = async (photo: PhotoAsset, design: SavedDesign) => {
     setIsRerunModalVisible(false);
     
     // Start AI analysis with new photo but existing quiz responses
@@ -156,16 +165,40 @@ export default function FavoritesScreen() {
       result: null,
     });
 
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
+
     try {
-      const result = await AIAnalysisService.analyzeWorkspace(
-        { photo, quizResponses: design.quizResponses },
-        (step: string, progress: number) => {
+      // Persist the request so it resumes if the app closes mid-analysis
+      const jobResult = await AnalysisJobService.enqueueJob([photo], design.quizResponses, false);
+      if (!jobResult.success || !jobResult.data) {
+        throw new Error(jobResult.error || 'Unable to start analysis.');
+      }
+      const job = jobResult.data;
+
+      // Without a connection, hold the request instead of burning through retries
+      if (!(await AIAnalysisService.canReachAI())) {
+        await AnalysisJobService.deferUntilOnline(job.id);
+        setAnalysisState(prev => ({ ...prev, isAnalyzing: false }));
+        Alert.alert(
+          'You\'re Offline',
+          'Your analysis is saved and will start automatically when you\'re back online. You\'ll find it under Recent Activity on the Home tab.',
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+
+      const result = await AnalysisJobService.runJob(
+        job.id,
+        (step, progress, preview) => {
           setAnalysisState(prev => ({
             ...prev,
             currentStep: step,
             progress,
+            preview,
           }));
-        }
+        },
+        abortController.signal
       );
 
       // Analysis completed successfully
@@ -183,25 +216,101 @@ export default function FavoritesScreen() {
           pathname: '/results',
           params: {
             result: JSON.stringify(result),
-            photo: JSON.stringify(photo),
+            photo: JSON.stringify(job.photo),
             quizResponses: JSON.stringify(design.quizResponses)
           }
         });
+        AnalysisJobService.removeJob(job.id);
       }, 1000);
 
     } catch (error) {
+      if (AIAnalysisService.isCancelled(error)) {
+        setAnalysisState(prev => ({ ...prev, isAnalyzing: false, error: null, preview: undefined }));
+        return;
+      }
+
       console.error('Re-run analysis failed:', error);
       
       setAnalysisState(prev => ({
         ...prev,
         isAnalyzing: false,
-        error: error instanceof Error ? error.message : 'Analysis failed. Please try again.',
+        error: isAIAnalysisError(error) || error instanceof Error
+          ? error.message
+          : 'Analysis failed. Please try again.',
       }));
 
       // Show error for a few seconds, then close
       setTimeout(() => {
         setAnalysisState(prev => ({ ...prev, error: null }));
       }, 3000);
+    } finally {
+      analysisAbortRef.current = null;
+    }
+  };
+
+  const handleCheckCategory = async (
+    photo: PhotoAsset,
+    design: SavedDesign,
+    category: ErgonomicInsight['category'],
+    note: string
+  ) => {
+    setIsRerunModalVisible(false);
+    setAnalysisState({
+      isAnalyzing: true,
+      progress: 0,
+      currentStep: `Re-checking ${ERGONOMIC_CATEGORY_LABELS[category].toLowerCase()}...`,
+      error: null,
+      result: null,
+    });
+
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
+
+    try {
+      const result = await ErgonomicCheckService.checkCategory(
+        design.id,
+        category,
+        photo,
+        note,
+        (step, progress) => {
+          setAnalysisState(prev => ({ ...prev, currentStep: step, progress }));
+        },
+        abortController.signal
+      );
+      if (abortController.signal.aborted) {
+        setAnalysisState(prev => ({ ...prev, isAnalyzing: false, error: null }));
+        return;
+      }
+
+      if (!result.success || !result.data) {
+        setAnalysisState(prev => ({
+          ...prev,
+          isAnalyzing: false,
+          error: result.error || 'Check failed. Please try again.',
+        }));
+        setTimeout(() => {
+          setAnalysisState(prev => ({ ...prev, error: null }));
+        }, 3000);
+        return;
+      }
+
+      const updatedDesign = result.data;
+      const check = updatedDesign.ergonomicChecks?.[0];
+      setAnalysisState(prev => ({ ...prev, isAnalyzing: false, progress: 100 }));
+      setSavedDesigns(prev => prev.map(item => item.id === updatedDesign.id ? updatedDesign : item));
+
+      if (check) {
+        const statusChange = check.previousStatus && check.previousStatus !== check.newStatus
+          ? `${ERGONOMIC_STATUS_LABELS[check.previousStatus]} → ${ERGONOMIC_STATUS_LABELS[check.newStatus]}`
+          : ERGONOMIC_STATUS_LABELS[check.newStatus];
+        Alert.alert(
+          `${ERGONOMIC_CATEGORY_LABELS[category]}: ${statusChange}`,
+          check.changeSummary,
+          [{ text: 'View Design', onPress: () => handleDesignPress(updatedDesign) }]
+        );
+      }
+    } finally {
+      analysisAbortRef.current = null;
     }
   };
 
@@ -357,6 +466,7 @@ export default function FavoritesScreen() {
           setSelectedDesign(null);
         }}
         onComplete={handleRerunAnalysisComplete}
+        onCheckCategory={handleCheckCategory}
       />
 
       {/* AI Analysis Progress Modal */}
@@ -364,7 +474,7 @@ export default function FavoritesScreen() {
         isVisible={analysisState.isAnalyzing}
         analysisState={analysisState}
         onCancel={() => {
-          setAnalysisState(prev => ({ ...prev, isAnalyzing: false, error: null }));
+          analysisAbortRef.current?.abort();
         }}
       />
     </SafeAreaView>
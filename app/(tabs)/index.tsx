@@ -1,5 +1,5 @@
 import { router } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Alert, RefreshControl, StyleSheet, TouchableOpacity, View } from 'react-native';
 
 import { AIAnalysisModal } from '@/components/ai-analysis-modal';
@@ -12,13 +12,14 @@ import { ThemedText } from '@/components/themed-text';
 import { UsageIndicator } from '@/components/usage-indicator';
 import { Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
 import { AIAnalysisService } from '@/services/ai-analysis';
+import { AnalysisJobService } from '@/services/analysis-jobs';
 import { DesignStorageService } from '@/services/design-storage';
 import { StorageService } from '@/services/storage';
 import { UsageTrackingService } from '@/services/usage-tracking';
-import { AIAnalysisState } from '@/types/ai-analysis';
+import { AIAnalysisState, isAIAnalysisError } from '@/types/ai-analysis';
 import { PhotoAsset } from '@/types/photo';
 import { QuizResponse } from '@/types/quiz';
-import { SavedDesign } from '@/types/storage';
+import { AnalysisJob, SavedDesign } from '@/types/storage';
 
 export default function HomeScreen() {
   const [isQuizModalVisible, setIsQuizModalVisible] = useState(false);
@@ -32,6 +33,8 @@ export default function HomeScreen() {
     result: null,
   });
   const [remainingAnalyses, setRemainingAnalyses] = useState(5);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [analysisJobs, setAnalysisJobs] = useState<AnalysisJob[]>([]);
   const [recentDesigns, setRecentDesigns] = useState<SavedDesign[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
@@ -40,6 +43,9 @@ export default function HomeScreen() {
     initializeApp();
   }, []);
 
+  // Keep queued, failed and finished-in-background analyses in view
+  useEffect(() => AnalysisJobService.subscribe(setAnalysisJobs), []);
+
   const initializeApp = async () => {
     try {
       // Initialize storage
@@ -51,6 +57,12 @@ export default function HomeScreen() {
         setRemainingAnalyses(usageStats.data!.remainingToday);
       }
 
+      // Load analysis jobs
+      const jobsResult = await AnalysisJobService.getJobs();
+      if (jobsResult.success) {
+        setAnalysisJobs(jobsResult.data!);
+      }
+
       // Load recent designs
       const recentDesignsResult = await DesignStorageService.getRecentDesigns(3);
       if (recentDesignsResult.success) {
@@ -95,17 +107,17 @@ export default function HomeScreen() {
     setIsQuizModalVisible(false);
   };
 
-  const handlePhotoUploadComplete = async (photo: PhotoAsset, responses?: QuizResponse[]) => {
-    console.log('Photo upload completed:', photo);
+  const handlePhotoUploadComplete = async (photos: PhotoAsset[], responses?: QuizResponse[]) => {
+    console.log('Photo upload completed:', photos);
     console.log('With quiz responses:', responses);
     
     setIsPhotoUploadVisible(false);
     
     // Start AI analysis
-    await startAIAnalysis(photo, responses || quizResponses);
+    await startAIAnalysis(photos, responses || quizResponses);
   };
 
-  const startAIAnalysis = async (photo: PhotoAsset, responses: QuizResponse[]) => {
+  const startAIAnalysis = async (photos: PhotoAsset[], responses: QuizResponse[]) => {
     // Validate configuration first
     const configValidation = AIAnalysisService.validateConfiguration();
     if (!configValidation.isValid) {
@@ -117,20 +129,73 @@ export default function HomeScreen() {
       return;
     }
 
-    // Record usage before starting analysis
-    const usageResult = await UsageTrackingService.recordAnalysisUsage();
-    if (!usageResult.success) {
+    // Reusing an earlier response for the same photo and answers costs neither a call nor quota
+    const useCachedResponse =
+      await AIAnalysisService.hasCachedAnalysis({
+        photo: photos[0],
+        additionalPhotos: photos.slice(1),
+        quizResponses: responses,
+      }) &&
+      await askToUseCachedResult(photos.length);
+
+    if (!useCachedResponse) {
+      // Record usage before starting analysis
+      const usageResult = await UsageTrackingService.recordAnalysisUsage();
+      if (!usageResult.success) {
+        Alert.alert(
+          'Usage Limit Error',
+          usageResult.error || 'Unable to track usage.',
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+
+      // Update remaining analyses count
+      setRemainingAnalyses(prev => Math.max(0, prev - 1));
+    }
+
+    // Persist the request so it resumes if the app closes mid-analysis
+    const jobResult = await AnalysisJobService.enqueueJob(photos, responses, !useCachedResponse, useCachedResponse);
+    if (!jobResult.success || !jobResult.data) {
+      if (!useCachedResponse) {
+        await UsageTrackingService.refundAnalysisUsage();
+        setRemainingAnalyses(prev => prev + 1);
+      }
       Alert.alert(
-        'Usage Limit Error',
-        usageResult.error || 'Unable to track usage.',
+        'Analysis Error',
+        jobResult.error || 'Unable to start analysis.',
         [{ text: 'OK' }]
       );
       return;
     }
 
-    // Update remaining analyses count
-    setRemainingAnalyses(prev => Math.max(0, prev - 1));
+    // Without a connection, hold the request instead of burning through retries
+    if (!useCachedResponse && !(await AIAnalysisService.canReachAI())) {
+      await AnalysisJobService.deferUntilOnline(jobResult.data.id);
+      Alert.alert(
+        'You\'re Offline',
+        'Your analysis is saved and will start automatically when you\'re back online. You\'ll find it under Recent Activity.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    await runAnalysisJob(jobResult.data);
+  };
+
+  const askToUseCachedResult = (photoCount: number) => new Promise<boolean>(resolve => {
+    Alert.alert(
+      'Analyzed Before',
+      `You've already analyzed ${photoCount > 1 ? 'these photos' : 'this photo'} with the same answers. Use that result without spending an analysis, or analyze it again?`,
+      [
+        { text: 'Analyze Again', onPress: () => resolve(false) },
+        { text: 'Use Previous Result', onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
 
+  const runAnalysisJob = async (job: AnalysisJob) => {
     // Reset analysis state
     setAnalysisState({
       isAnalyzing: true,
@@ -140,16 +205,21 @@ export default function HomeScreen() {
       result: null,
     });
 
+    const abortController = new AbortController();
+    analysisAbortRef.current = abortController;
+
     try {
-      const result = await AIAnalysisService.analyzeWorkspace(
-        { photo, quizResponses: responses },
-        (step: string, progress: number) => {
+      const result = await AnalysisJobService.runJob(
+        job.id,
+        (step, progress, preview) => {
           setAnalysisState(prev => ({
             ...prev,
             currentStep: step,
             progress,
+            preview,
           }));
-        }
+        },
+        abortController.signal
       );
 
       // Analysis completed successfully
@@ -166,32 +236,80 @@ export default function HomeScreen() {
       // Navigate to results screen with the analysis data
       setTimeout(() => {
         setAnalysisState(prev => ({ ...prev, isAnalyzing: false }));
-        router.push({
-          pathname: '/results',
-          params: {
-            result: JSON.stringify(result),
-            photo: JSON.stringify(photo),
-            quizResponses: JSON.stringify(responses)
-          }
-        });
+        openJobResults({ ...job, result });
       }, 1000);
 
     } catch (error) {
+      if (AIAnalysisService.isCancelled(error)) {
+        setAnalysisState(prev => ({ ...prev, isAnalyzing: false, error: null, preview: undefined }));
+
+        // Cancelling before the AI answered doesn't count toward today's limit
+        if (job.usageRecorded && !error.responseReceived) {
+          const refundResult = await UsageTrackingService.refundAnalysisUsage();
+          if (refundResult.success && refundResult.data) {
+            setRemainingAnalyses(prev => prev + 1);
+          }
+        }
+        return;
+      }
+
+      // The reused result expired before the job ran; running live would need an analysis from today's limit
+      if (isAIAnalysisError(error) && error.code === 'CACHE_MISS') {
+        setAnalysisState(prev => ({ ...prev, isAnalyzing: false, error: null, preview: undefined }));
+        await AnalysisJobService.removeJob(job.id);
+        Alert.alert(
+          'Previous Result Unavailable',
+          `${error.message} Analyze again? This uses one of today's analyses.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Analyze Again',
+              onPress: () => startAIAnalysis([job.photo, ...(job.additionalPhotos ?? [])], job.quizResponses),
+            },
+          ]
+        );
+        return;
+      }
+
       console.error('AI analysis failed:', error);
       
       setAnalysisState(prev => ({
         ...prev,
         isAnalyzing: false,
-        error: error instanceof Error ? error.message : 'Analysis failed. Please try again.',
+        error: isAIAnalysisError(error) || error instanceof Error
+          ? error.message
+          : 'Analysis failed. Please try again.',
       }));
 
       // Show error for a few seconds, then close
       setTimeout(() => {
         setAnalysisState(prev => ({ ...prev, error: null }));
       }, 3000);
+    } finally {
+      analysisAbortRef.current = null;
     }
   };
 
+  const openJobResults = (job: AnalysisJob) => {
+    if (!job.result) return;
+
+    router.push({
+      pathname: '/results',
+      params: {
+        result: JSON.stringify(job.result),
+        photo: JSON.stringify(job.photo),
+        quizResponses: JSON.stringify(job.quizResponses)
+      }
+    });
+
+    // The results screen takes over from here
+    AnalysisJobService.removeJob(job.id);
+  };
+
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
   const handlePhotoUploadClose = () => {
     setIsPhotoUploadVisible(false);
   };
@@ -254,8 +372,12 @@ export default function HomeScreen() {
       {/* Recent Activity Section - Third */}
       <View style={[styles.recentSection, GlobalStyles.screenPadding]}>
         <RecentActivity 
-          hasRecentActivity={recentDesigns.length > 0} 
+          hasRecentActivity={recentDesigns.length > 0 || analysisJobs.length > 0} 
           recentDesigns={recentDesigns}
+          analysisJobs={analysisJobs}
+          onJobPress={openJobResults}
+          onRetryJob={runAnalysisJob}
+          onDismissJob={(job) => AnalysisJobService.removeJob(job.id)}
           onDesignPress={(design) => {
             router.push({
               pathname: '/favorites',
@@ -334,6 +456,7 @@ export default function HomeScreen() {
       <AIAnalysisModal
         isVisible={analysisState.isAnalyzing || analysisState.error !== null}
         analysisState={analysisState}
+        onCancel={handleCancelAnalysis}
       />
     </SafeAreaScrollView>
   );
@@ -15,6 +15,7 @@ import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { AnalysisJobService } from '@/services/analysis-jobs';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -39,6 +40,11 @@ export default function RootLayout() {
     }
   }, [fontsLoaded]);
 
+  // Finish analyses that were cut short when the app last closed
+  useEffect(() => {
+    AnalysisJobService.resumeInterruptedJobs();
+  }, []);
+
   if (!fontsLoaded) {
     return null;
   }
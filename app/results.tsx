@@ -1,18 +1,22 @@
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Alert, StyleSheet, TouchableOpacity, View } from 'react-native';
 
+import { AnalysisChat } from '@/components/results/analysis-chat';
 import { AnalysisSummary } from '@/components/results/analysis-summary';
 import { ColorPaletteDisplay } from '@/components/results/color-palette-display';
 import { ErgonomicInsights } from '@/components/results/ergonomic-insights';
 import { RecommendationCarousel } from '@/components/results/recommendation-carousel';
+import { PaletteRecolorPreview } from '@/components/results/recolor-preview';
 import { ResultsActions } from '@/components/results/results-actions';
 import { SafeAreaScrollView } from '@/components/safe-area-view';
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
+import { AnalysisChatService } from '@/services/analysis-chat';
 import { DesignStorageService } from '@/services/design-storage';
 import { WorkspaceAnalysisResult } from '@/types/ai-analysis';
+import { AnalysisConversation } from '@/types/analysis-chat';
 import { PhotoAsset } from '@/types/photo';
 import { QuizResponse } from '@/types/quiz';
 
@@ -23,6 +27,27 @@ export default function ResultsScreen() {
   const [quizResponses, setQuizResponses] = useState<QuizResponse[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [savedDesignId, setSavedDesignId] = useState<string | null>(null);
+  const [conversation, setConversation] = useState<AnalysisConversation | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+
+  // Cancel a pending chat reply when leaving the screen
+  useEffect(() => () => chatAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    // Opened from a saved design: pick up its conversation and any recommendations merged from it
+    if (typeof params.designId !== 'string') return;
+
+    const designId = params.designId;
+    DesignStorageService.getDesignById(designId).then(designResult => {
+      if (!designResult.success || !designResult.data) return;
+      setSavedDesignId(designId);
+      setAnalysisResult(designResult.data.analysisResult);
+      setConversation(designResult.data.conversation ?? null);
+    });
+  }, [params.designId]);
 
   useEffect(() => {
     // Parse the analysis result from navigation params
@@ -91,7 +116,11 @@ export default function ResultsScreen() {
         quizResponses
       );
       
-      if (result.success) {
+      if (result.success && result.data) {
+        setSavedDesignId(result.data.id);
+        if (conversation?.messages.length) {
+          await DesignStorageService.updateDesign(result.data.id, { conversation });
+        }
         Alert.alert(
           'Design Saved',
           'Your workspace design has been saved successfully!',
@@ -116,6 +145,66 @@ export default function ResultsScreen() {
     }
   };
 
+  const persistChat = async (result: WorkspaceAnalysisResult, updated: AnalysisConversation) => {
+    if (!savedDesignId) return;
+
+    const saveResult = await DesignStorageService.updateDesign(savedDesignId, {
+      analysisResult: result,
+      conversation: updated,
+    });
+    if (!saveResult.success) {
+      console.error('Failed to save conversation:', saveResult.error);
+    }
+  };
+
+  const handleSendQuestion = async (text: string): Promise<boolean> => {
+    if (!analysisResult || isSending) return false;
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setIsSending(true);
+    setChatError(null);
+
+    try {
+      const reply = await AnalysisChatService.sendMessage(
+        conversation ?? AnalysisChatService.createConversation(analysisResult),
+        analysisResult,
+        quizResponses,
+        text,
+        controller.signal
+      );
+      if (controller.signal.aborted) return false;
+
+      if (!reply.success || !reply.data) {
+        setChatError(reply.error || 'Failed to get a reply. Please try again.');
+        return false;
+      }
+
+      setConversation(reply.data);
+      await persistChat(analysisResult, reply.data);
+      return true;
+    } finally {
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsSending(false);
+      }
+    }
+  };
+
+  const handleApplySuggestions = async (messageId: string) => {
+    if (!analysisResult || !conversation) return;
+
+    const applied = AnalysisChatService.applySuggestions(analysisResult, conversation, messageId);
+    if (!applied.success || !applied.data) {
+      Alert.alert('Could Not Apply', applied.error || 'Failed to apply suggestions.', [{ text: 'OK' }]);
+      return;
+    }
+
+    setAnalysisResult(applied.data.result);
+    setConversation(applied.data.conversation);
+    await persistChat(applied.data.result, applied.data.conversation);
+  };
+
   const handleTryAgain = () => {
     // Navigate back to home screen to start a new analysis
     router.replace('/');
@@ -199,7 +288,18 @@ export default function ResultsScreen() {
             <ThemedText style={[GlobalStyles.heading2, styles.sectionTitle]}>
               Color Palette
             </ThemedText>
-            <ColorPaletteDisplay colorPalette={analysisResult.colorPalette} />
+            <ColorPaletteDisplay
+              colorPalette={analysisResult.colorPalette}
+              alternativePalettes={analysisResult.suggestedPalettes}
+              regionPalettes={analysisResult.regionPalettes}
+            />
+            {originalPhoto && analysisResult.suggestedPalettes && (
+              <PaletteRecolorPreview
+                photoUri={originalPhoto.uri}
+                palettes={analysisResult.suggestedPalettes}
+                regionPalettes={analysisResult.regionPalettes}
+              />
+            )}
           </View>
         )}
 
@@ -208,7 +308,30 @@ export default function ResultsScreen() {
           <ThemedText style={[GlobalStyles.heading2, styles.sectionTitle]}>
             Ergonomic Assessment
           </ThemedText>
-          <ErgonomicInsights insights={analysisResult.ergonomicInsights} />
+          <ErgonomicInsights
+            insights={analysisResult.ergonomicInsights}
+            photoUris={analysisResult.photoUris}
+          />
+        </View>
+
+        {/* Follow-up Chat */}
+        <View style={styles.section}>
+          <ThemedText style={[GlobalStyles.heading2, styles.sectionTitle]}>
+            Ask About Your Results
+          </ThemedText>
+          <ThemedText style={[GlobalStyles.bodyMedium, styles.sectionDescription]}>
+            {savedDesignId
+              ? 'Ask follow-up questions; the conversation is saved with this design'
+              : 'Ask follow-up questions; save the design to keep the conversation'}
+          </ThemedText>
+          <AnalysisChat
+            conversation={conversation ?? AnalysisChatService.createConversation(analysisResult)}
+            recommendations={analysisResult.recommendations}
+            isSending={isSending}
+            error={chatError}
+            onSend={handleSendQuestion}
+            onApplySuggestions={handleApplySuggestions}
+          />
         </View>
 
         {/* Bottom Spacing for Actions */}
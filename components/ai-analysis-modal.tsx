@@ -1,12 +1,12 @@
 import React from 'react';
-import { StyleSheet, View } from 'react-native';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
 import Modal from 'react-native-modal';
 
 import { ProgressIndicator } from '@/components/progress-indicator';
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
-import { AIAnalysisState } from '@/types/ai-analysis';
+import { AIAnalysisState, ANALYSIS_PROGRESS, AnalysisPreview, ErgonomicInsight } from '@/types/ai-analysis';
 
 interface AIAnalysisModalProps {
   isVisible: boolean;
@@ -19,7 +19,7 @@ export function AIAnalysisModal({
   analysisState, 
   onCancel 
 }: AIAnalysisModalProps) {
-  const { isAnalyzing, progress, currentStep, error } = analysisState;
+  const { isAnalyzing, progress, currentStep, error, preview } = analysisState;
 
   return (
     <Modal
@@ -92,38 +92,51 @@ export function AIAnalysisModal({
                 <AnalysisStep 
                   icon="camera.viewfinder" 
                   text="Processing workspace image" 
-                  isActive={progress >= 20 && progress < 50}
-                  isCompleted={progress >= 50}
+                  isActive={progress < ANALYSIS_PROGRESS.IMAGE_READY}
+                  isCompleted={progress >= ANALYSIS_PROGRESS.IMAGE_READY}
                 />
                 <AnalysisStep 
                   icon="lightbulb" 
-                  text="Generating recommendations" 
-                  isActive={progress >= 50 && progress < 80}
-                  isCompleted={progress >= 80}
+                  text="Analyzing your workspace" 
+                  isActive={progress >= ANALYSIS_PROGRESS.IMAGE_READY && progress < ANALYSIS_PROGRESS.RESPONSE_COMPLETE}
+                  isCompleted={progress >= ANALYSIS_PROGRESS.RESPONSE_COMPLETE}
                 />
                 <AnalysisStep 
                   icon="paintpalette" 
                   text="Extracting color palette" 
-                  isActive={progress >= 80 && progress < 90}
-                  isCompleted={progress >= 90}
+                  isActive={progress >= ANALYSIS_PROGRESS.RESPONSE_COMPLETE && progress < ANALYSIS_PROGRESS.COLORS_READY}
+                  isCompleted={progress >= ANALYSIS_PROGRESS.COLORS_READY}
                 />
                 <AnalysisStep 
                   icon="checkmark.circle.fill" 
                   text="Finalizing results" 
-                  isActive={progress >= 90 && progress < 100}
-                  isCompleted={progress >= 100}
+                  isActive={progress >= ANALYSIS_PROGRESS.COLORS_READY && progress < ANALYSIS_PROGRESS.DONE}
+                  isCompleted={progress >= ANALYSIS_PROGRESS.DONE}
                 />
               </View>
+
+              {/* Sections of the response received so far */}
+              {preview && <AnalysisPreviewSections preview={preview} />}
             </View>
           )}
         </View>
 
         {/* Footer */}
-        {onCancel && (
+        {onCancel && isAnalyzing && !error && (
           <View style={styles.footer}>
             <ThemedText style={[GlobalStyles.bodySmall, styles.cancelHint]}>
               This usually takes 5-10 seconds
             </ThemedText>
+            <TouchableOpacity
+              style={[GlobalStyles.compactOutlineButton, styles.cancelButton]}
+              onPress={onCancel}
+              accessibilityRole="button"
+              accessibilityLabel="Cancel analysis"
+            >
+              <ThemedText style={GlobalStyles.compactOutlineButtonText}>
+                Cancel
+              </ThemedText>
+            </TouchableOpacity>
           </View>
         )}
       </View>
@@ -166,6 +179,61 @@ function AnalysisStep({ icon, text, isActive, isCompleted }: AnalysisStepProps)
   );
 }
 
+const STATUS_COLORS: Record<ErgonomicInsight['status'], string> = {
+  good: Colors.trafficGreen,
+  'needs-improvement': Colors.trafficYellow,
+  poor: Colors.trafficRed,
+};
+
+function AnalysisPreviewSections({ preview }: { preview: AnalysisPreview }) {
+  const { summary, style, ergonomicItems, colors } = preview;
+  if (!summary && ergonomicItems.length === 0 && colors.length === 0) return null;
+
+  return (
+    <View style={styles.previewContainer}>
+      {summary ? (
+        <View style={styles.previewSection}>
+          <ThemedText style={[GlobalStyles.caption, styles.previewLabel]}>
+            {style ? `Your space · ${style}` : 'Your space'}
+          </ThemedText>
+          <ThemedText style={[GlobalStyles.bodySmall, styles.previewSummary]} numberOfLines={4}>
+            {summary}
+          </ThemedText>
+        </View>
+      ) : null}
+
+      {ergonomicItems.length > 0 && (
+        <View style={styles.previewSection}>
+          <ThemedText style={[GlobalStyles.caption, styles.previewLabel]}>
+            Ergonomics
+          </ThemedText>
+          {ergonomicItems.map((item, index) => (
+            <View key={`${item.category}-${index}`} style={styles.previewItem}>
+              <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[item.status] }]} />
+              <ThemedText style={[GlobalStyles.bodySmall, styles.previewItemText]} numberOfLines={1}>
+                {item.description || item.category.replace('-', ' ')}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {colors.length > 0 && (
+        <View style={styles.previewSection}>
+          <ThemedText style={[GlobalStyles.caption, styles.previewLabel]}>
+            Colors
+          </ThemedText>
+          <View style={styles.swatchRow}>
+            {colors.map((color, index) => (
+              <View key={`${color}-${index}`} style={[styles.swatch, { backgroundColor: color }]} />
+            ))}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   modal: {
     justifyContent: 'center',
@@ -226,6 +294,51 @@ const styles = StyleSheet.create({
   stepInactiveText: {
     color: Colors.textLighter,
   },
+  previewContainer: {
+    width: '100%',
+    marginTop: Spacing.lg,
+    paddingTop: Spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    gap: Spacing.md,
+  },
+  previewSection: {
+    gap: Spacing.xs,
+  },
+  previewLabel: {
+    color: Colors.textLighter,
+    textTransform: 'uppercase',
+    fontWeight: '600',
+  },
+  previewSummary: {
+    color: Colors.textLight,
+    lineHeight: 18,
+  },
+  previewItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  previewItemText: {
+    flex: 1,
+    color: Colors.text,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  swatchRow: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  swatch: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
   errorContainer: {
     alignItems: 'center',
     paddingVertical: Spacing.lg,
@@ -254,4 +367,8 @@ const styles = StyleSheet.create({
     opacity: 0.6,
     textAlign: 'center',
   },
+  cancelButton: {
+    marginTop: Spacing.md,
+    minWidth: 120,
+  },
 });
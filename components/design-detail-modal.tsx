@@ -8,9 +8,13 @@ import { AnalysisSummary } from '@/components/results/analysis-summary';
 import { ColorPaletteDisplay } from '@/components/results/color-palette-display';
 import { ErgonomicInsights } from '@/components/results/ergonomic-insights';
 import { RecommendationCarousel } from '@/components/results/recommendation-carousel';
+import { PaletteRecolorPreview } from '@/components/results/recolor-preview';
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { BorderRadius, Colors, GlobalStyles, Spacing, Typography } from '@/constants/globalStyles';
+import { AIUsageService } from '@/services/ai-usage';
+import { ERGONOMIC_CATEGORY_LABELS, ERGONOMIC_STATUS_LABELS } from '@/types/ai-analysis';
+import { DEFAULT_PROMPT_VARIANT } from '@/types/prompt';
 import { SavedDesign } from '@/types/storage';
 
 interface DesignDetailModalProps {
@@ -78,7 +82,8 @@ export function DesignDetailModal({
       params: {
         result: JSON.stringify(design.analysisResult),
         photo: JSON.stringify(design.originalPhoto),
-        quizResponses: JSON.stringify(design.quizResponses)
+        quizResponses: JSON.stringify(design.quizResponses),
+        designId: design.id,
       },
     });
   };
@@ -104,6 +109,10 @@ export function DesignDetailModal({
             </ThemedText>
             <ThemedText style={[GlobalStyles.bodySmall, styles.date]}>
               Created {formatDate(design.createdAt)}
+              {design.analysisResult.promptVersion !== undefined &&
+                ` · Prompt v${design.analysisResult.promptVersion} (${design.analysisResult.promptVariant ?? DEFAULT_PROMPT_VARIANT})`}
+              {design.analysisResult.usage &&
+                ` · ~${AIUsageService.formatCost(design.analysisResult.usage.estimatedCost)}`}
             </ThemedText>
           </View>
           <TouchableOpacity
@@ -199,7 +208,18 @@ export function DesignDetailModal({
               <ThemedText style={[GlobalStyles.heading3, styles.sectionTitle]}>
                 Color Palette
               </ThemedText>
-              <ColorPaletteDisplay colorPalette={design.analysisResult.colorPalette} />
+              <ColorPaletteDisplay
+                colorPalette={design.analysisResult.colorPalette}
+                alternativePalettes={design.analysisResult.suggestedPalettes}
+                regionPalettes={design.analysisResult.regionPalettes}
+              />
+              {design.analysisResult.suggestedPalettes && (
+                <PaletteRecolorPreview
+                  photoUri={design.originalPhoto.uri}
+                  palettes={design.analysisResult.suggestedPalettes}
+                  regionPalettes={design.analysisResult.regionPalettes}
+                />
+              )}
             </View>
           )}
 
@@ -208,7 +228,45 @@ export function DesignDetailModal({
             <ThemedText style={[GlobalStyles.heading3, styles.sectionTitle]}>
               Ergonomic Assessment
             </ThemedText>
-            <ErgonomicInsights insights={design.analysisResult.ergonomicInsights} />
+            <ErgonomicInsights
+              insights={design.analysisResult.ergonomicInsights}
+              photoUris={design.analysisResult.photoUris}
+            />
+            {design.ergonomicChecks && design.ergonomicChecks.length > 0 && (
+              <View style={styles.checkHistory}>
+                <ThemedText style={styles.checkHistoryTitle}>Re-checks</ThemedText>
+                {design.ergonomicChecks.map(check => (
+                  <View key={check.id} style={styles.checkItem}>
+                    <ThemedText style={styles.checkStatus}>
+                      {ERGONOMIC_CATEGORY_LABELS[check.category]}:{' '}
+                      {check.previousStatus ? `${ERGONOMIC_STATUS_LABELS[check.previousStatus]} → ` : ''}
+                      {ERGONOMIC_STATUS_LABELS[check.newStatus]}
+                    </ThemedText>
+                    <ThemedText style={GlobalStyles.caption}>
+                      {formatDate(check.checkedAt)}{check.changeSummary ? ` · ${check.changeSummary}` : ''}
+                    </ThemedText>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+
+          {/* Follow-up Chat */}
+          <View style={styles.section}>
+            <ThemedText style={[GlobalStyles.heading3, styles.sectionTitle]}>
+              Follow-up Questions
+            </ThemedText>
+            <TouchableOpacity
+              style={[GlobalStyles.outlineButton, styles.chatButton]}
+              onPress={handleViewFullResults}
+            >
+              <IconSymbol name="message" size={16} color={Colors.primary} />
+              <ThemedText style={GlobalStyles.outlineButtonText}>
+                {design.conversation?.messages.length
+                  ? `Continue Conversation (${design.conversation.messages.length} messages)`
+                  : 'Ask About This Design'}
+              </ThemedText>
+            </TouchableOpacity>
           </View>
 
           {/* Tags */}
@@ -356,6 +414,22 @@ const styles = StyleSheet.create({
   viewAllButton: {
     marginTop: Spacing.md,
   },
+  checkHistory: {
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  checkHistoryTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  checkItem: {
+    paddingLeft: Spacing.sm,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.primaryLight,
+  },
+  checkStatus: {
+    fontSize: 14,
+  },
   tagsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -375,6 +449,10 @@ const styles = StyleSheet.create({
   notesCard: {
     backgroundColor: Colors.background,
   },
+  chatButton: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
   bottomSpacing: {
     height: Spacing.xl,
   },
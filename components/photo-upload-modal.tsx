@@ -9,13 +9,13 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { UploadTips } from '@/components/upload-tips';
 import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
 import { PhotoStorageService } from '@/services/photo-storage';
-import { PhotoAsset, PhotoUploadState } from '@/types/photo';
+import { MultiPhotoUploadState, PHOTO_VALIDATION, PhotoAsset, SelectedPhoto } from '@/types/photo';
 import { QuizResponse } from '@/types/quiz';
 
 interface PhotoUploadModalProps {
   isVisible: boolean;
   onClose: () => void;
-  onComplete: (photo: PhotoAsset, quizResponses?: QuizResponse[]) => void;
+  onComplete: (photos: PhotoAsset[], quizResponses?: QuizResponse[]) => void;
   quizResponses?: QuizResponse[];
 }
 
@@ -25,14 +25,15 @@ export function PhotoUploadModal({
   onComplete, 
   quizResponses 
 }: PhotoUploadModalProps) {
-  const [uploadState, setUploadState] = useState<PhotoUploadState>({
-    selectedPhoto: null,
+  const [uploadState, setUploadState] = useState<MultiPhotoUploadState>({
+    selectedPhotos: [],
     isUploading: false,
-    uploadProgress: 0,
     error: null,
-    validationResult: null,
   });
 
+  const maxPhotos = PHOTO_VALIDATION.MAX_PHOTOS_PER_ANALYSIS;
+  const remainingPhotos = maxPhotos - uploadState.selectedPhotos.length;
+
   // Request permissions when modal opens
   useEffect(() => {
     if (isVisible) {
@@ -74,7 +75,7 @@ export function PhotoUploadModal({
       });
 
       if (!result.canceled && result.assets[0]) {
-        await processSelectedPhoto(result.assets[0]);
+        await processSelectedPhotos([result.assets[0]]);
       }
     } catch (error) {
       console.error('Failed to take photo:', error);
@@ -87,14 +88,17 @@ export function PhotoUploadModal({
 
   const handleSelectFromGallery = async () => {
     try {
+      // Cropping isn't available when picking several photos at once
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ['images'],
-        allowsEditing: true,
+        allowsEditing: remainingPhotos === 1,
+        allowsMultipleSelection: remainingPhotos > 1,
+        selectionLimit: remainingPhotos,
         quality: 0.8,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        await processSelectedPhoto(result.assets[0]);
+      if (!result.canceled && result.assets.length > 0) {
+        await processSelectedPhotos(result.assets);
       }
     } catch (error) {
       console.error('Failed to select photo:', error);
@@ -105,30 +109,32 @@ export function PhotoUploadModal({
     }
   };
 
-  const processSelectedPhoto = async (asset: ImagePicker.ImagePickerAsset) => {
+  const processSelectedPhotos = async (assets: ImagePicker.ImagePickerAsset[]) => {
     try {
       setUploadState(prev => ({ ...prev, isUploading: true, error: null }));
 
-      // Get additional photo info
-      const photoInfo = await PhotoStorageService.getPhotoInfo(asset.uri);
-      
-      const photo: PhotoAsset = {
-        uri: asset.uri,
-        width: asset.width,
-        height: asset.height,
-        type: 'image',
-        fileSize: photoInfo.fileSize,
-        fileName: photoInfo.fileName,
-        mimeType: asset.mimeType,
-      };
-
-      // Validate photo
-      const validationResult = PhotoStorageService.validatePhoto(photo);
+      const selected: SelectedPhoto[] = [];
+      for (const asset of assets) {
+        // Get additional photo info
+        const photoInfo = await PhotoStorageService.getPhotoInfo(asset.uri);
+
+        const photo: PhotoAsset = {
+          uri: asset.uri,
+          width: asset.width,
+          height: asset.height,
+          type: 'image',
+          fileSize: photoInfo.fileSize,
+          fileName: photoInfo.fileName,
+          mimeType: asset.mimeType,
+        };
+
+        // Validate photo and check its quality before it can use up an analysis
+        selected.push({ photo, validationResult: await PhotoStorageService.validatePhotoQuality(photo) });
+      }
 
       setUploadState(prev => ({
         ...prev,
-        selectedPhoto: photo,
-        validationResult,
+        selectedPhotos: [...prev.selectedPhotos, ...selected].slice(0, maxPhotos),
         isUploading: false,
       }));
     } catch (error) {
@@ -141,33 +147,39 @@ export function PhotoUploadModal({
     }
   };
 
-  const handleRemovePhoto = () => {
+  const handleRemovePhoto = (index: number) => {
+    setUploadState(prev => ({
+      ...prev,
+      selectedPhotos: prev.selectedPhotos.filter((_, photoIndex) => photoIndex !== index),
+      error: null,
+    }));
+  };
+
+  const handleRemoveAllPhotos = () => {
     setUploadState(prev => ({
       ...prev,
-      selectedPhoto: null,
-      validationResult: null,
+      selectedPhotos: [],
       error: null,
     }));
   };
 
   const handleAnalyzeWorkspace = async () => {
-    if (!uploadState.selectedPhoto) return;
+    if (uploadState.selectedPhotos.length === 0) return;
 
     try {
       setUploadState(prev => ({ ...prev, isUploading: true, error: null }));
 
-      // Save photo to app storage
-      const savedPhotoUri = await PhotoStorageService.savePhoto(uploadState.selectedPhoto.uri);
-      
+      // Save photos to app storage
+      const finalPhotos: PhotoAsset[] = [];
+      for (const { photo } of uploadState.selectedPhotos) {
+        const savedPhotoUri = await PhotoStorageService.savePhoto(photo.uri);
+        finalPhotos.push({ ...photo, uri: savedPhotoUri });
+      }
+
       // Clean up old photos
       await PhotoStorageService.cleanupOldPhotos();
 
-      const finalPhoto: PhotoAsset = {
-        ...uploadState.selectedPhoto,
-        uri: savedPhotoUri,
-      };
-
-      onComplete(finalPhoto, quizResponses);
+      onComplete(finalPhotos, quizResponses);
       handleClose();
     } catch (error) {
       console.error('Failed to save photo:', error);
@@ -181,17 +193,16 @@ export function PhotoUploadModal({
 
   const handleClose = () => {
     setUploadState({
-      selectedPhoto: null,
+      selectedPhotos: [],
       isUploading: false,
-      uploadProgress: 0,
       error: null,
-      validationResult: null,
     });
     onClose();
   };
 
-  const canProceed = uploadState.selectedPhoto && 
-                   uploadState.validationResult?.isValid && 
+  const hasPhotos = uploadState.selectedPhotos.length > 0;
+  const canProceed = hasPhotos &&
+                   uploadState.selectedPhotos.every(({ validationResult }) => validationResult.isValid) &&
                    !uploadState.isUploading;
 
   return (
@@ -210,7 +221,7 @@ export function PhotoUploadModal({
         {/* Header */}
         <View style={styles.header}>
           <ThemedText style={[GlobalStyles.heading2, styles.title]}>
-            Upload Workspace Photo
+            Upload Workspace Photos
           </ThemedText>
           <TouchableOpacity
             style={styles.closeButton}
@@ -239,11 +250,11 @@ export function PhotoUploadModal({
           automaticallyAdjustContentInsets={false}
           contentInsetAdjustmentBehavior="never"
         >
-          {!uploadState.selectedPhoto ? (
+          {!hasPhotos ? (
             <>
               {/* Instructions */}
               <ThemedText style={[GlobalStyles.bodyLarge, styles.instructions]}>
-                Take a photo of your current workspace
+                Take a photo of your current workspace, or add up to {maxPhotos} from different angles
               </ThemedText>
 
               {/* Upload Options */}
@@ -271,18 +282,64 @@ export function PhotoUploadModal({
                 </TouchableOpacity>
               </View>
 
+              {uploadState.isUploading && (
+                <ThemedText style={[GlobalStyles.bodySmall, styles.checkingText]}>
+                  Checking photo quality...
+                </ThemedText>
+              )}
+
               {/* Upload Tips */}
               <UploadTips />
             </>
           ) : (
             <>
-              {/* Photo Preview */}
-              <PhotoPreview
-                photo={uploadState.selectedPhoto}
-                validationResult={uploadState.validationResult}
-                onRemove={handleRemovePhoto}
-                onRetake={handleTakePhoto}
-              />
+              {/* Photo Previews */}
+              {uploadState.selectedPhotos.map(({ photo, validationResult }, index) => (
+                <View key={`${index}-${photo.uri}`}>
+                  {uploadState.selectedPhotos.length > 1 && (
+                    <ThemedText style={[GlobalStyles.bodySmall, styles.photoLabel]}>
+                      Photo {index + 1}
+                    </ThemedText>
+                  )}
+                  <PhotoPreview
+                    photo={photo}
+                    validationResult={validationResult}
+                    onRemove={() => handleRemovePhoto(index)}
+                  />
+                </View>
+              ))}
+
+              {/* Add Another Angle */}
+              {remainingPhotos > 0 && (
+                <View style={styles.addPhotoOptions}>
+                  <TouchableOpacity
+                    style={[GlobalStyles.compactOutlineButton, styles.addPhotoButton]}
+                    onPress={handleTakePhoto}
+                    disabled={uploadState.isUploading}
+                  >
+                    <IconSymbol name="camera" size={16} color={Colors.primary} />
+                    <ThemedText style={GlobalStyles.compactOutlineButtonText}>
+                      Add Angle
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[GlobalStyles.compactOutlineButton, styles.addPhotoButton]}
+                    onPress={handleSelectFromGallery}
+                    disabled={uploadState.isUploading}
+                  >
+                    <IconSymbol name="photo" size={16} color={Colors.primary} />
+                    <ThemedText style={GlobalStyles.compactOutlineButtonText}>
+                      From Gallery
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {!uploadState.isUploading &&
+                uploadState.selectedPhotos.some(({ validationResult }) => !validationResult.isValid) && (
+                <ThemedText style={[GlobalStyles.bodySmall, styles.checkingText]}>
+                  Retake or remove photos with problems to continue. This keeps them from using up an analysis.
+                </ThemedText>
+              )}
             </>
           )}
 
@@ -298,15 +355,15 @@ export function PhotoUploadModal({
         </ScrollView>
 
         {/* Footer */}
-        {uploadState.selectedPhoto && (
+        {hasPhotos && (
           <View style={styles.footer}>
             <TouchableOpacity
               style={[GlobalStyles.compactOutlineButton, styles.backButton]}
-              onPress={handleRemovePhoto}
+              onPress={handleRemoveAllPhotos}
               disabled={uploadState.isUploading}
             >
               <ThemedText style={GlobalStyles.compactOutlineButtonText}>
-                Choose Different Photo
+                {uploadState.selectedPhotos.length > 1 ? 'Start Over' : 'Choose Different Photo'}
               </ThemedText>
             </TouchableOpacity>
 
@@ -388,6 +445,26 @@ const styles = StyleSheet.create({
   buttonText: {
     marginLeft: 0,
   },
+  photoLabel: {
+    marginTop: Spacing.md,
+    fontWeight: '600',
+  },
+  addPhotoOptions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  addPhotoButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+  },
+  checkingText: {
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
   errorContainer: {
     flexDirection: 'row',
     alignItems: 'flex-start',
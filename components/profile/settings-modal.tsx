@@ -1,11 +1,14 @@
 import React, { useEffect, useState } from 'react';
-import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 import Modal from 'react-native-modal';
 
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
+import { AIUsageService } from '@/services/ai-usage';
+import { OpenAIClientService } from '@/services/openai-client';
 import { StorageService } from '@/services/storage';
+import { AI_PROVIDER_IDS, AI_PROVIDERS, AIProviderId, AIProviderSettings } from '@/types/ai-provider';
 import { UserPreferences } from '@/types/storage';
 
 interface SettingsModalProps {
@@ -16,13 +19,28 @@ interface SettingsModalProps {
 export function SettingsModal({ isVisible, onClose }: SettingsModalProps) {
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [loading, setLoading] = useState(true);
+  const [providerSettings, setProviderSettings] = useState<AIProviderSettings | null>(null);
+  const [modelDraft, setModelDraft] = useState('');
+  const [baseUrlDraft, setBaseUrlDraft] = useState('');
+  const [availableModels, setAvailableModels] = useState<string[] | null>(null);
+  const [loadingModels, setLoadingModels] = useState(false);
+  const [inputPriceDraft, setInputPriceDraft] = useState('');
+  const [outputPriceDraft, setOutputPriceDraft] = useState('');
 
   useEffect(() => {
     if (isVisible) {
       loadPreferences();
+      loadProviderSettings();
     }
   }, [isVisible]);
 
+  const selectedModel = providerSettings?.model;
+  useEffect(() => {
+    if (selectedModel) {
+      loadModelPrice(selectedModel);
+    }
+  }, [selectedModel]);
+
   const loadPreferences = async () => {
     try {
       setLoading(true);
@@ -67,8 +85,79 @@ export function SettingsModal({ isVisible, onClose }: SettingsModalProps) {
     }
   };
 
+  const loadProviderSettings = async () => {
+    const settings = await OpenAIClientService.getProviderSettings();
+    setProviderSettings(settings);
+    setModelDraft(settings.model);
+    setBaseUrlDraft(settings.baseUrl ?? '');
+    setAvailableModels(null);
+  };
+
+  const loadModelPrice = async (model: string) => {
+    const price = await AIUsageService.getModelPrice(model);
+    setInputPriceDraft(price ? String(price.input) : '');
+    setOutputPriceDraft(price ? String(price.output) : '');
+  };
+
+  const saveProviderSettings = async (settings: AIProviderSettings | null) => {
+    const result = await OpenAIClientService.setProviderSettings(settings);
+
+    if (result.success && result.data) {
+      setProviderSettings(result.data);
+      setModelDraft(result.data.model);
+      setBaseUrlDraft(result.data.baseUrl ?? '');
+    } else {
+      Alert.alert('Error', 'Failed to save AI provider. Please try again.');
+    }
+  };
+
+  const selectProvider = async (provider: AIProviderId) => {
+    if (provider === providerSettings?.provider) return;
+
+    setAvailableModels(null);
+    await saveProviderSettings({ provider, model: AI_PROVIDERS[provider].defaultModel });
+  };
+
+  const selectModel = async (model: string) => {
+    if (!providerSettings || !model.trim()) return;
+    await saveProviderSettings({ ...providerSettings, model: model.trim() });
+  };
+
+  const saveBaseUrl = async () => {
+    if (!providerSettings) return;
+    await saveProviderSettings({ ...providerSettings, baseUrl: baseUrlDraft.trim() || undefined });
+  };
+
+  const saveModelPrice = async () => {
+    if (!providerSettings) return;
 
+    // Clearing both fields goes back to the default price
+    const input = inputPriceDraft.trim();
+    const output = outputPriceDraft.trim();
+    const price = input || output ? { input: Number(input || 0), output: Number(output || 0) } : null;
+    if (price && !(price.input >= 0 && price.output >= 0)) {
+      Alert.alert('Invalid Price', 'Enter prices in US dollars per million tokens, e.g. 2.5');
+      return;
+    }
+
+    const result = await AIUsageService.setModelPrice(providerSettings.model, price);
+    if (!result.success) {
+      Alert.alert('Error', 'Failed to save model price. Please try again.');
+    }
+    await loadModelPrice(providerSettings.model);
+  };
 
+  const loadAvailableModels = async () => {
+    try {
+      setLoadingModels(true);
+      setAvailableModels(await OpenAIClientService.listModels());
+    } catch (error) {
+      console.error('Failed to load models:', error);
+      Alert.alert('Error', 'Could not load models from this provider. Check its configuration and try again.');
+    } finally {
+      setLoadingModels(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -143,6 +232,130 @@ export function SettingsModal({ isVisible, onClose }: SettingsModalProps) {
             </View>
           </View>
 
+          {/* AI Provider Section */}
+          {providerSettings && (
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>AI Provider</ThemedText>
+
+              {AI_PROVIDER_IDS.map(provider => {
+                const info = AI_PROVIDERS[provider];
+                const isSelected = providerSettings.provider === provider;
+                return (
+                  <TouchableOpacity
+                    key={provider}
+                    style={styles.settingItem}
+                    onPress={() => selectProvider(provider)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: isSelected }}
+                  >
+                    <View style={styles.settingInfo}>
+                      <IconSymbol
+                        name="sparkles"
+                        size={20}
+                        color={isSelected ? Colors.primary : Colors.textLight}
+                      />
+                      <View style={styles.settingText}>
+                        <ThemedText style={styles.settingLabel}>{info.label}</ThemedText>
+                        <ThemedText style={styles.settingDescription}>{info.description}</ThemedText>
+                      </View>
+                    </View>
+                    {isSelected && <IconSymbol name="checkmark" size={18} color={Colors.primary} />}
+                  </TouchableOpacity>
+                );
+              })}
+
+              <ThemedText style={[styles.settingLabel, styles.fieldLabel]}>Model</ThemedText>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                {(availableModels ?? AI_PROVIDERS[providerSettings.provider].suggestedModels).map(model => {
+                  const isSelected = providerSettings.model === model;
+                  return (
+                    <TouchableOpacity
+                      key={model}
+                      style={[styles.chip, isSelected && styles.chipSelected]}
+                      onPress={() => selectModel(model)}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <ThemedText style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                        {model}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+              <TextInput
+                style={GlobalStyles.textInput}
+                placeholder={AI_PROVIDERS[providerSettings.provider].defaultModel}
+                placeholderTextColor={Colors.textLighter}
+                value={modelDraft}
+                onChangeText={setModelDraft}
+                onEndEditing={() => selectModel(modelDraft)}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={loadAvailableModels}
+                disabled={loadingModels}
+              >
+                <ThemedText style={styles.linkText}>
+                  {loadingModels ? 'Loading models...' : 'Load available models'}
+                </ThemedText>
+              </TouchableOpacity>
+
+              <ThemedText style={[styles.settingLabel, styles.fieldLabel]}>Price per Million Tokens (USD)</ThemedText>
+              <ThemedText style={styles.settingDescription}>
+                Used to estimate AI spend. Leave both empty to use the default price.
+              </ThemedText>
+              <View style={styles.priceRow}>
+                <TextInput
+                  style={[GlobalStyles.textInput, styles.priceInput]}
+                  placeholder="Input"
+                  placeholderTextColor={Colors.textLighter}
+                  value={inputPriceDraft}
+                  onChangeText={setInputPriceDraft}
+                  onEndEditing={saveModelPrice}
+                  keyboardType="decimal-pad"
+                  accessibilityLabel="Input price per million tokens"
+                />
+                <TextInput
+                  style={[GlobalStyles.textInput, styles.priceInput]}
+                  placeholder="Output"
+                  placeholderTextColor={Colors.textLighter}
+                  value={outputPriceDraft}
+                  onChangeText={setOutputPriceDraft}
+                  onEndEditing={saveModelPrice}
+                  keyboardType="decimal-pad"
+                  accessibilityLabel="Output price per million tokens"
+                />
+              </View>
+
+              {providerSettings.provider !== 'openai' && (
+                <>
+                  <ThemedText style={[styles.settingLabel, styles.fieldLabel]}>Base URL</ThemedText>
+                  <TextInput
+                    style={GlobalStyles.textInput}
+                    placeholder={AI_PROVIDERS[providerSettings.provider].defaultBaseUrl}
+                    placeholderTextColor={Colors.textLighter}
+                    value={baseUrlDraft}
+                    onChangeText={setBaseUrlDraft}
+                    onEndEditing={saveBaseUrl}
+                    keyboardType="url"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </>
+              )}
+
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={() => saveProviderSettings(null)}
+              >
+                <ThemedText style={styles.linkText}>Use app default</ThemedText>
+              </TouchableOpacity>
+            </View>
+          )}
+
         </ScrollView>
       </View>
     </Modal>
@@ -238,4 +451,48 @@ const styles = StyleSheet.create({
     color: Colors.textLight,
     marginTop: Spacing.xs,
   },
+  priceRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  priceInput: {
+    flex: 1,
+  },
+  fieldLabel: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.white,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 12,
+    color: Colors.textLight,
+  },
+  chipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  linkButton: {
+    paddingVertical: Spacing.sm,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.primary,
+  },
 });
@@ -5,8 +5,11 @@ import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
+import { AIUsageService } from '@/services/ai-usage';
+import { OpenAIClientService } from '@/services/openai-client';
 import { QuizStorageService } from '@/services/quiz-storage';
 import { UsageTrackingService } from '@/services/usage-tracking';
+import { AISpendSummary } from '@/types/ai-usage';
 import { QuizResponse } from '@/types/quiz';
 
 interface UserSummaryProps {
@@ -24,6 +27,7 @@ interface UserStats {
 export function UserSummary({ onEditPreferences }: UserSummaryProps) {
   const [quizResponses, setQuizResponses] = useState<QuizResponse[]>([]);
   const [userStats, setUserStats] = useState<UserStats | null>(null);
+  const [aiSpend, setAISpend] = useState<AISpendSummary | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -45,6 +49,12 @@ export function UserSummary({ onEditPreferences }: UserSummaryProps) {
       if (usageResult.success && usageResult.data) {
         setUserStats(usageResult.data);
       }
+
+      // Load estimated AI spend
+      const usageInfo = await OpenAIClientService.getUsageInfo();
+      if (usageInfo.available && usageInfo.usage) {
+        setAISpend(usageInfo.usage);
+      }
     } catch (error) {
       console.error('Failed to load user data:', error);
     } finally {
@@ -152,6 +162,45 @@ export function UserSummary({ onEditPreferences }: UserSummaryProps) {
           </View>
         </View>
       )}
+
+      {/* AI Spend Section */}
+      {aiSpend && (
+        <View style={styles.section}>
+          <ThemedText style={GlobalStyles.heading2}>AI Spend</ThemedText>
+
+          <View style={styles.statsGrid}>
+            <View style={styles.statItem}>
+              <ThemedText style={styles.statNumber}>
+                {AIUsageService.formatCost(aiSpend.today.estimatedCost)}
+              </ThemedText>
+              <ThemedText style={styles.statLabel}>Today</ThemedText>
+            </View>
+
+            <View style={styles.statItem}>
+              <ThemedText style={styles.statNumber}>
+                {AIUsageService.formatCost(aiSpend.month.estimatedCost)}
+              </ThemedText>
+              <ThemedText style={styles.statLabel}>This Month</ThemedText>
+            </View>
+
+            <View style={styles.statItem}>
+              <ThemedText style={styles.statNumber}>
+                {(aiSpend.month.promptTokens + aiSpend.month.completionTokens).toLocaleString()}
+              </ThemedText>
+              <ThemedText style={styles.statLabel}>Tokens This Month</ThemedText>
+            </View>
+
+            <View style={styles.statItem}>
+              <ThemedText style={styles.statNumber}>{aiSpend.month.imageTokens.toLocaleString()}</ThemedText>
+              <ThemedText style={styles.statLabel}>Image Tokens</ThemedText>
+            </View>
+          </View>
+
+          <ThemedText style={[GlobalStyles.bodySmall, styles.spendNote]}>
+            Estimated from list prices and the tokens each AI call reported
+          </ThemedText>
+        </View>
+      )}
     </ThemedView>
   );
 }
@@ -233,4 +282,8 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  spendNote: {
+    marginTop: Spacing.sm,
+    color: Colors.textLighter,
+  },
 });
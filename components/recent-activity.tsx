@@ -1,20 +1,40 @@
-import React from 'react';
+import React, { ComponentProps } from 'react';
 import { Image, StyleSheet, TouchableOpacity, View } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
 import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
-import { SavedDesign } from '@/types/storage';
+import { AnalysisJob, AnalysisJobStatus, SavedDesign } from '@/types/storage';
 
 interface RecentActivityProps {
   hasRecentActivity?: boolean;
   recentDesigns?: SavedDesign[];
+  analysisJobs?: AnalysisJob[];
   onDesignPress?: (design: SavedDesign) => void;
+  onJobPress?: (job: AnalysisJob) => void;
+  onRetryJob?: (job: AnalysisJob) => void;
+  onDismissJob?: (job: AnalysisJob) => void;
 }
 
+const JOB_STATUS_DISPLAY: Record<
+  AnalysisJobStatus,
+  { icon: ComponentProps<typeof IconSymbol>['name']; label: string; color: string }
+> = {
+  queued: { icon: 'clock', label: 'Waiting to resume', color: Colors.textLight },
+  offline: { icon: 'wifi.slash', label: 'Waiting for connection', color: Colors.textLight },
+  running: { icon: 'sparkles', label: 'Analyzing...', color: Colors.primary },
+  completed: { icon: 'checkmark.circle.fill', label: 'Results ready - tap to view', color: Colors.success },
+  failed: { icon: 'exclamationmark.triangle.fill', label: 'Analysis failed', color: Colors.error },
+};
+
 export function RecentActivity({ 
   hasRecentActivity = false, 
   recentDesigns = [],
-  onDesignPress 
+  analysisJobs = [],
+  onDesignPress,
+  onJobPress,
+  onRetryJob,
+  onDismissJob,
 }: RecentActivityProps) {
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString('en-US', {
@@ -32,44 +52,106 @@ export function RecentActivity({
       </ThemedText>
       
       <View style={[GlobalStyles.card, styles.activityCard]}>
-        {hasRecentActivity && recentDesigns.length > 0 ? (
+        {hasRecentActivity && (recentDesigns.length > 0 || analysisJobs.length > 0) ? (
           <View>
-            <ThemedText style={GlobalStyles.cardTitle}>
-              Recent Workspace Designs
-            </ThemedText>
-            {recentDesigns.slice(0, 3).map((design, index) => (
-              <TouchableOpacity
-                key={design.id}
-                style={[styles.designItem, index > 0 && styles.designItemBorder]}
-                onPress={() => onDesignPress?.(design)}
-                accessibilityLabel={`View design: ${design.name}`}
-              >
-                {/* Workspace Image Thumbnail */}
-                <View style={styles.imageContainer}>
-                  <Image
-                    source={{ uri: design.originalPhoto.uri }}
-                    style={styles.workspaceImage}
-                    resizeMode="cover"
-                  />
-                </View>
+            {analysisJobs.length > 0 && (
+              <View style={recentDesigns.length > 0 && styles.jobsSection}>
+                <ThemedText style={GlobalStyles.cardTitle}>
+                  Analyses
+                </ThemedText>
+                {analysisJobs.map((job, index) => {
+                  const display = JOB_STATUS_DISPLAY[job.status];
+                  return (
+                    <TouchableOpacity
+                      key={job.id}
+                      style={[styles.designItem, index > 0 && styles.designItemBorder]}
+                      onPress={() => onJobPress?.(job)}
+                      disabled={job.status !== 'completed'}
+                      accessibilityLabel={`Analysis from ${formatDate(job.createdAt)}: ${display.label}`}
+                    >
+                      <View style={styles.imageContainer}>
+                        <Image
+                          source={{ uri: job.photo.uri }}
+                          style={styles.workspaceImage}
+                          resizeMode="cover"
+                        />
+                      </View>
+
+                      <View style={styles.designInfo}>
+                        <View style={styles.jobStatus}>
+                          <IconSymbol name={display.icon} size={14} color={display.color} />
+                          <ThemedText style={[GlobalStyles.bodyMedium, styles.designName, { color: display.color }]}>
+                            {display.label}
+                          </ThemedText>
+                        </View>
+                        <ThemedText style={[GlobalStyles.bodySmall, styles.designDate]} numberOfLines={1}>
+                          {job.status === 'failed' && job.error ? job.error : formatDate(job.createdAt)}
+                        </ThemedText>
+                      </View>
+
+                      {job.status === 'failed' && (
+                        <View style={styles.jobActions}>
+                          <TouchableOpacity
+                            style={styles.jobAction}
+                            onPress={() => onRetryJob?.(job)}
+                            accessibilityLabel="Retry analysis"
+                          >
+                            <IconSymbol name="arrow.clockwise" size={18} color={Colors.primary} />
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            style={styles.jobAction}
+                            onPress={() => onDismissJob?.(job)}
+                            accessibilityLabel="Dismiss analysis"
+                          >
+                            <IconSymbol name="xmark" size={18} color={Colors.textLighter} />
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+            {recentDesigns.length > 0 && (
+              <>
+                <ThemedText style={GlobalStyles.cardTitle}>
+                  Recent Workspace Designs
+                </ThemedText>
+                {recentDesigns.slice(0, 3).map((design, index) => (
+                  <TouchableOpacity
+                    key={design.id}
+                    style={[styles.designItem, index > 0 && styles.designItemBorder]}
+                    onPress={() => onDesignPress?.(design)}
+                    accessibilityLabel={`View design: ${design.name}`}
+                  >
+                    {/* Workspace Image Thumbnail */}
+                    <View style={styles.imageContainer}>
+                      <Image
+                        source={{ uri: design.originalPhoto.uri }}
+                        style={styles.workspaceImage}
+                        resizeMode="cover"
+                      />
+                    </View>
                 
-                <View style={styles.designInfo}>
-                  <ThemedText style={[GlobalStyles.bodyMedium, styles.designName]}>
-                    {design.name}
-                  </ThemedText>
-                  <ThemedText style={[GlobalStyles.bodySmall, styles.designDate]}>
-                    {formatDate(design.createdAt)}
+                    <View style={styles.designInfo}>
+                      <ThemedText style={[GlobalStyles.bodyMedium, styles.designName]}>
+                        {design.name}
+                      </ThemedText>
+                      <ThemedText style={[GlobalStyles.bodySmall, styles.designDate]}>
+                        {formatDate(design.createdAt)}
+                      </ThemedText>
+                    </View>
+                    {design.isFavorite && (
+                      <ThemedText style={styles.favoriteIcon}>♥</ThemedText>
+                    )}
+                  </TouchableOpacity>
+                ))}
+                {recentDesigns.length > 3 && (
+                  <ThemedText style={[GlobalStyles.bodySmall, styles.moreText]}>
+                    +{recentDesigns.length - 3} more designs in Favorites
                   </ThemedText>
-                </View>
-                {design.isFavorite && (
-                  <ThemedText style={styles.favoriteIcon}>♥</ThemedText>
                 )}
-              </TouchableOpacity>
-            ))}
-            {recentDesigns.length > 3 && (
-              <ThemedText style={[GlobalStyles.bodySmall, styles.moreText]}>
-                +{recentDesigns.length - 3} more designs in Favorites
-              </ThemedText>
+              </>
             )}
           </View>
         ) : (
@@ -145,6 +227,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginLeft: Spacing.sm,
   },
+  jobsSection: {
+    marginBottom: Spacing.md,
+  },
+  jobStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  jobActions: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  jobAction: {
+    padding: Spacing.xs,
+  },
   moreText: {
     textAlign: 'center',
     opacity: 0.7,
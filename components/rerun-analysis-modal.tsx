@@ -1,6 +1,6 @@
 import * as ImagePicker from 'expo-image-picker';
 import React, { useEffect, useState } from 'react';
-import { Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
 import Modal from 'react-native-modal';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
@@ -10,23 +10,38 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { UploadTips } from '@/components/upload-tips';
 import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
 import { PhotoStorageService } from '@/services/photo-storage';
+import { ERGONOMIC_CATEGORY_LABELS, ERGONOMIC_STATUS_LABELS, ErgonomicInsight } from '@/types/ai-analysis';
 import { PhotoAsset, PhotoUploadState } from '@/types/photo';
-import { SavedDesign } from '@/types/storage';
+import { SavedDesign, USAGE_LIMITS } from '@/types/storage';
 
 interface RerunAnalysisModalProps {
   isVisible: boolean;
   design: SavedDesign | null;
   onClose: () => void;
   onComplete: (photo: PhotoAsset, design: SavedDesign) => void;
+  onCheckCategory: (
+    photo: PhotoAsset,
+    design: SavedDesign,
+    category: ErgonomicInsight['category'],
+    note: string
+  ) => void;
 }
 
+// Everything, or a single ergonomic category
+type RerunScope = 'full' | ErgonomicInsight['category'];
+
+const CHECK_CATEGORIES = Object.keys(ERGONOMIC_CATEGORY_LABELS) as ErgonomicInsight['category'][];
+
 export function RerunAnalysisModal({ 
   isVisible, 
   design,
   onClose, 
   onComplete,
+  onCheckCategory,
 }: RerunAnalysisModalProps) {
   const insets = useSafeAreaInsets();
+  const [scope, setScope] = useState<RerunScope>('full');
+  const [note, setNote] = useState('');
   const [uploadState, setUploadState] = useState<PhotoUploadState>({
     selectedPhoto: null,
     isUploading: false,
@@ -45,6 +60,8 @@ export function RerunAnalysisModal({
         error: null,
         validationResult: null,
       });
+      setScope('full');
+      setNote('');
     } else if (isVisible) {
       requestPermissions();
     }
@@ -135,7 +152,7 @@ export function RerunAnalysisModal({
       };
 
       // Validate the photo
-      const validationResult = await PhotoStorageService.validatePhoto(photoAsset);
+      const validationResult = await PhotoStorageService.validatePhotoQuality(photoAsset);
       
       setUploadState(prev => ({
         ...prev,
@@ -181,7 +198,35 @@ export function RerunAnalysisModal({
       return;
     }
 
-    onComplete(uploadState.selectedPhoto, design);
+    if (scope === 'full') {
+      onComplete(uploadState.selectedPhoto, design);
+    } else {
+      onCheckCategory(uploadState.selectedPhoto, design, scope, note);
+    }
+  };
+
+  const getStatusLabel = (category: ErgonomicInsight['category']) => {
+    const insight = design?.analysisResult.ergonomicInsights.find(item => item.category === category);
+    return insight ? ERGONOMIC_STATUS_LABELS[insight.status] : 'Not assessed';
+  };
+
+  const renderScopeOption = (option: RerunScope) => {
+    const isSelected = scope === option;
+    return (
+      <TouchableOpacity
+        key={option}
+        style={[styles.scopeOption, isSelected && styles.scopeOptionSelected]}
+        onPress={() => setScope(option)}
+        accessibilityState={{ selected: isSelected }}
+      >
+        <ThemedText style={[styles.scopeLabel, isSelected && styles.scopeLabelSelected]}>
+          {option === 'full' ? 'Everything' : ERGONOMIC_CATEGORY_LABELS[option]}
+        </ThemedText>
+        <ThemedText style={[GlobalStyles.caption, isSelected && styles.scopeLabelSelected]}>
+          {option === 'full' ? 'Full analysis' : getStatusLabel(option)}
+        </ThemedText>
+      </TouchableOpacity>
+    );
   };
 
   const handleClose = () => {
@@ -291,12 +336,32 @@ export function RerunAnalysisModal({
                 onRetake={handleTakePhoto}
               />
 
+              {/* Scope */}
+              <ThemedText style={[GlobalStyles.heading3, styles.scopeTitle]}>
+                What do you want to check?
+              </ThemedText>
+              <View style={styles.scopeOptions}>
+                {(['full', ...CHECK_CATEGORIES] as RerunScope[]).map(renderScopeOption)}
+              </View>
+
+              {scope !== 'full' && (
+                <TextInput
+                  style={[GlobalStyles.textInput, styles.noteInput]}
+                  placeholder="What did you change? e.g. I raised my monitor"
+                  placeholderTextColor={Colors.textLighter}
+                  value={note}
+                  onChangeText={setNote}
+                  maxLength={200}
+                />
+              )}
+
               {/* Comparison Note */}
               <View style={[GlobalStyles.card, styles.comparisonNote]}>
                 <IconSymbol name="lightbulb" size={16} color={Colors.primary} />
                 <ThemedText style={[GlobalStyles.bodySmall, styles.noteText]}>
-                  Your new analysis will use the same style preferences from your original quiz, 
-                  but with updated recommendations based on this new photo.
+                  {scope === 'full'
+                    ? 'Your new analysis will use the same style preferences from your original quiz, but with updated recommendations based on this new photo.'
+                    : `Only the ${ERGONOMIC_CATEGORY_LABELS[scope].toLowerCase()} assessment in this design will be updated. Quick checks don't use up analyses; you get ${USAGE_LIMITS.DAILY_CATEGORY_CHECKS} a day.`}
                 </ThemedText>
               </View>
             </>
@@ -339,7 +404,9 @@ export function RerunAnalysisModal({
                 GlobalStyles.compactButtonText,
                 !canProceed && styles.disabledButtonText,
               ]}>
-                {uploadState.isUploading ? 'Processing...' : 'Re-run Analysis'}
+                {uploadState.isUploading
+                  ? 'Processing...'
+                  : scope === 'full' ? 'Re-run Analysis' : `Re-check ${ERGONOMIC_CATEGORY_LABELS[scope]}`}
               </ThemedText>
             </TouchableOpacity>
           </View>
@@ -412,6 +479,36 @@ const styles = StyleSheet.create({
   buttonText: {
     marginLeft: 0,
   },
+  scopeTitle: {
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  scopeOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  scopeOption: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: BorderRadius.medium,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+  },
+  scopeOptionSelected: {
+    borderColor: Colors.primary,
+    backgroundColor: Colors.primary,
+  },
+  scopeLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scopeLabelSelected: {
+    color: Colors.white,
+  },
+  noteInput: {
+    marginTop: Spacing.md,
+  },
   comparisonNote: {
     flexDirection: 'row',
     alignItems: 'flex-start',
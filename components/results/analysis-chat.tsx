@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
+import { ProductRecommendation } from '@/types/ai-analysis';
+import { ANALYSIS_CHAT_LIMITS, AnalysisChatMessage, AnalysisConversation } from '@/types/analysis-chat';
+
+interface AnalysisChatProps {
+  conversation: AnalysisConversation;
+  recommendations: ProductRecommendation[];
+  isSending: boolean;
+  error?: string | null;
+  onSend: (text: string) => Promise<boolean>; // Resolves true once the question was answered
+  onApplySuggestions: (messageId: string) => void;
+}
+
+const EXAMPLE_QUESTIONS = [
+  'What if I can\'t move the desk?',
+  'Cheaper chair options?',
+];
+
+export function AnalysisChat({
+  conversation,
+  recommendations,
+  isSending,
+  error,
+  onSend,
+  onApplySuggestions,
+}: AnalysisChatProps) {
+  const [draft, setDraft] = useState('');
+
+  const handleSend = async (text: string) => {
+    if (!text.trim() || isSending) return;
+    if (await onSend(text)) {
+      setDraft('');
+    }
+  };
+
+  const getRecommendationName = (id: string) =>
+    recommendations.find(item => item.id === id)?.name ?? 'a current pick';
+
+  const renderMessage = (message: AnalysisChatMessage) => {
+    const isUser = message.role === 'user';
+
+    return (
+      <View
+        key={message.id}
+        style={[styles.message, isUser ? styles.userMessage : styles.assistantMessage]}
+      >
+        <ThemedText style={[GlobalStyles.bodyMedium, isUser && styles.userMessageText]}>
+          {message.content}
+        </ThemedText>
+
+        {message.suggestions && message.suggestions.length > 0 && (
+          <View style={styles.suggestions}>
+            {message.suggestions.map(({ recommendation, replacesId }) => (
+              <View key={recommendation.id} style={styles.suggestion}>
+                <ThemedText style={styles.suggestionName}>{recommendation.name}</ThemedText>
+                <ThemedText style={GlobalStyles.caption}>
+                  ${recommendation.price.min} - ${recommendation.price.max}
+                  {replacesId ? ` · replaces ${getRecommendationName(replacesId)}` : ' · new'}
+                </ThemedText>
+              </View>
+            ))}
+
+            {message.appliedAt ? (
+              <ThemedText style={[GlobalStyles.caption, styles.appliedText]}>
+                Added to your recommendations
+              </ThemedText>
+            ) : (
+              <TouchableOpacity
+                style={[GlobalStyles.compactOutlineButton, styles.applyButton]}
+                onPress={() => onApplySuggestions(message.id)}
+                accessibilityLabel="Apply these suggestions to your recommendations"
+              >
+                <IconSymbol name="sparkles" size={14} color={Colors.primary} />
+                <ThemedText style={GlobalStyles.compactOutlineButtonText}>
+                  Apply to Recommendations
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {conversation.messages.length === 0 ? (
+        <View style={styles.examples}>
+          {EXAMPLE_QUESTIONS.map(question => (
+            <TouchableOpacity
+              key={question}
+              style={styles.exampleChip}
+              onPress={() => handleSend(question)}
+              disabled={isSending}
+            >
+              <ThemedText style={styles.exampleText}>{question}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <View style={styles.messages}>{conversation.messages.map(renderMessage)}</View>
+      )}
+
+      {isSending && (
+        <View style={styles.pending}>
+          <ActivityIndicator size="small" color={Colors.primary} />
+          <ThemedText style={GlobalStyles.caption}>Thinking...</ThemedText>
+        </View>
+      )}
+
+      {error && (
+        <ThemedText style={[GlobalStyles.bodySmall, styles.errorText]}>{error}</ThemedText>
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[GlobalStyles.textInput, styles.input]}
+          placeholder="Ask a follow-up question..."
+          placeholderTextColor={Colors.textLighter}
+          value={draft}
+          onChangeText={setDraft}
+          maxLength={ANALYSIS_CHAT_LIMITS.MAX_MESSAGE_LENGTH}
+          multiline
+          editable={!isSending}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!draft.trim() || isSending) && styles.sendButtonDisabled]}
+          onPress={() => handleSend(draft)}
+          disabled={!draft.trim() || isSending}
+          accessibilityLabel="Send question"
+        >
+          <IconSymbol name="paperplane.fill" size={18} color={Colors.white} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.md,
+  },
+  examples: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  exampleChip: {
+    borderWidth: 1,
+    borderColor: Colors.primary,
+    borderRadius: BorderRadius.xlarge,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+  },
+  exampleText: {
+    fontSize: 14,
+    color: Colors.primary,
+  },
+  messages: {
+    gap: Spacing.sm,
+  },
+  message: {
+    maxWidth: '85%',
+    padding: Spacing.md,
+    borderRadius: BorderRadius.large,
+  },
+  userMessage: {
+    alignSelf: 'flex-end',
+    backgroundColor: Colors.primary,
+  },
+  assistantMessage: {
+    alignSelf: 'flex-start',
+    backgroundColor: Colors.white,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  userMessageText: {
+    color: Colors.white,
+  },
+  suggestions: {
+    marginTop: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  suggestion: {
+    paddingLeft: Spacing.sm,
+    borderLeftWidth: 2,
+    borderLeftColor: Colors.primaryLight,
+  },
+  suggestionName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  applyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.xs,
+  },
+  appliedText: {
+    color: Colors.success,
+  },
+  pending: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  errorText: {
+    color: Colors.error,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+});
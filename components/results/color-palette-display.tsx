@@ -1,25 +1,47 @@
 import * as Clipboard from 'expo-clipboard';
-import React, { useState } from 'react';
-import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import React, { ComponentProps, useState } from 'react';
+import { Alert, StyleSheet, TouchableOpacity, View } from 'react-native';
 
+import { PaintMatches } from '@/components/results/paint-matches';
+import { PaletteAccessibility } from '@/components/results/palette-accessibility';
 import { ThemedText } from '@/components/themed-text';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
-import { ColorPalette } from '@/types/ai-analysis';
+import { PALETTE_EXPORT_FORMATS, PaletteExportService } from '@/services/palette-export';
+import {
+  ColorPalette,
+  PaletteExportFormat,
+  PaletteHarmony,
+  PaletteRegion,
+  RegionPalette,
+  SuggestedPalette,
+} from '@/types/ai-analysis';
 
 interface ColorPaletteDisplayProps {
   colorPalette: ColorPalette;
+  alternativePalettes?: SuggestedPalette[];
+  regionPalettes?: RegionPalette[];
 }
 
-export function ColorPaletteDisplay({ colorPalette }: ColorPaletteDisplayProps) {
+export function ColorPaletteDisplay({
+  colorPalette,
+  alternativePalettes = [],
+  regionPalettes = [],
+}: ColorPaletteDisplayProps) {
   const [copiedColor, setCopiedColor] = useState<string | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<PaletteExportFormat | null>(null);
 
-  const getMoodIcon = (mood: string): string => {
-    const moodIcons: Record<string, string> = {
+  const getMoodIcon = (mood: string): ComponentProps<typeof IconSymbol>['name'] => {
+    const moodIcons: Record<string, ComponentProps<typeof IconSymbol>['name']> = {
       focus: 'target',
       creativity: 'paintbrush',
       calm: 'leaf',
       energizing: 'bolt',
+      cozy: 'flame',
+      fresh: 'wind',
+      sophisticated: 'diamond',
+      playful: 'face.smiling',
+      grounded: 'mountain.2',
     };
     return moodIcons[mood] || 'circle';
   };
@@ -30,10 +52,45 @@ export function ColorPaletteDisplay({ colorPalette }: ColorPaletteDisplayProps)
       creativity: Colors.primary,
       calm: Colors.success,
       energizing: Colors.warning,
+      cozy: Colors.secondaryDark,
+      fresh: Colors.primaryLight,
+      sophisticated: Colors.text,
+      playful: Colors.secondaryLight,
+      grounded: Colors.primaryDark,
     };
     return moodColors[mood] || Colors.textLight;
   };
 
+  const getHarmonyLabel = (harmony: PaletteHarmony): string => {
+    const harmonyLabels: Record<PaletteHarmony, string> = {
+      complementary: 'Complementary',
+      analogous: 'Analogous',
+      triadic: 'Triadic',
+      '60-30-10': '60-30-10 Rule',
+    };
+    return harmonyLabels[harmony];
+  };
+
+  const getRegionLabel = (region: PaletteRegion): string => {
+    const regionLabels: Record<PaletteRegion, string> = {
+      walls: 'Walls',
+      furniture: 'Furniture',
+      floor: 'Floor',
+      accents: 'Accents',
+    };
+    return regionLabels[region];
+  };
+
+  const getRegionIcon = (region: PaletteRegion): ComponentProps<typeof IconSymbol>['name'] => {
+    const regionIcons: Record<PaletteRegion, ComponentProps<typeof IconSymbol>['name']> = {
+      walls: 'square.split.2x1',
+      furniture: 'desktopcomputer',
+      floor: 'square.grid.2x2',
+      accents: 'sparkles',
+    };
+    return regionIcons[region];
+  };
+
   const copyColorToClipboard = async (color: string) => {
     try {
       await Clipboard.setStringAsync(color);
@@ -48,6 +105,16 @@ export function ColorPaletteDisplay({ colorPalette }: ColorPaletteDisplayProps)
     }
   };
 
+  const exportPalette = async (format: PaletteExportFormat) => {
+    setExportingFormat(format);
+    const result = await PaletteExportService.sharePalette(colorPalette, format);
+    setExportingFormat(null);
+
+    if (!result.success) {
+      Alert.alert('Export Failed', result.error || 'Unable to export this palette.');
+    }
+  };
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -107,6 +174,42 @@ export function ColorPaletteDisplay({ colorPalette }: ColorPaletteDisplayProps)
         ))}
       </View>
 
+      {/* Colors by Area */}
+      {regionPalettes.length > 0 && (
+        <View style={styles.regionsContainer}>
+          {regionPalettes.map(regionPalette => (
+            <View key={regionPalette.region} style={styles.regionRow}>
+              <View style={styles.regionLabel}>
+                <IconSymbol name={getRegionIcon(regionPalette.region)} size={14} color={Colors.textLight} />
+                <ThemedText style={[GlobalStyles.bodySmall, styles.regionName]}>
+                  {getRegionLabel(regionPalette.region)}
+                </ThemedText>
+              </View>
+              <View style={styles.regionSwatches}>
+                {regionPalette.colors.map((color, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[styles.regionSwatch, { backgroundColor: color }]}
+                    onPress={() => copyColorToClipboard(color)}
+                    accessibilityLabel={`Copy ${getRegionLabel(regionPalette.region).toLowerCase()} color ${color} to clipboard`}
+                    accessibilityRole="button"
+                  >
+                    {copiedColor === color && (
+                      <IconSymbol name="checkmark" size={12} color={Colors.white} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))}
+          {regionPalettes.every(regionPalette => regionPalette.source === 'spatial') && (
+            <ThemedText style={[GlobalStyles.caption, styles.regionNote]}>
+              Areas estimated from the top, middle and bottom of your photo
+            </ThemedText>
+          )}
+        </View>
+      )}
+
       {/* Description */}
       <View style={styles.descriptionContainer}>
         <ThemedText style={[GlobalStyles.bodyMedium, styles.description]}>
@@ -114,6 +217,41 @@ export function ColorPaletteDisplay({ colorPalette }: ColorPaletteDisplayProps)
         </ThemedText>
       </View>
 
+      {/* Mood Breakdown */}
+      {colorPalette.moodTags && colorPalette.moodTags.length > 0 && (
+        <View style={styles.moodTagsContainer}>
+          {colorPalette.moodTags.map(tag => (
+            <View key={tag.mood} style={styles.moodTag}>
+              <View style={styles.moodTagHeader}>
+                <IconSymbol name={getMoodIcon(tag.mood)} size={14} color={getMoodColor(tag.mood)} />
+                <ThemedText style={[GlobalStyles.bodySmall, styles.moodTagName, { color: getMoodColor(tag.mood) }]}>
+                  {tag.mood.charAt(0).toUpperCase() + tag.mood.slice(1)}
+                </ThemedText>
+                <View style={styles.moodTagBar}>
+                  <View
+                    style={[
+                      styles.moodTagFill,
+                      { width: `${Math.round(tag.weight * 100)}%`, backgroundColor: getMoodColor(tag.mood) },
+                    ]}
+                  />
+                </View>
+                <ThemedText style={[GlobalStyles.caption, styles.moodTagWeight]}>
+                  {Math.round(tag.weight * 100)}%
+                </ThemedText>
+              </View>
+              <View style={styles.moodTagExplanation}>
+                {tag.drivingColors.map(color => (
+                  <View key={color} style={[styles.moodTagSwatch, { backgroundColor: color }]} />
+                ))}
+                <ThemedText style={[GlobalStyles.caption, styles.moodTagText]}>
+                  {tag.explanation}
+                </ThemedText>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Usage Tips */}
       <View style={styles.tipsContainer}>
         <View style={styles.tipItem}>
@@ -129,6 +267,119 @@ export function ColorPaletteDisplay({ colorPalette }: ColorPaletteDisplayProps)
           </ThemedText>
         </View>
       </View>
+
+      {/* Export */}
+      <View style={styles.exportContainer}>
+        <ThemedText style={[GlobalStyles.bodySmall, styles.exportLabel]}>
+          Export palette
+        </ThemedText>
+        <View style={styles.exportFormats}>
+          {(Object.keys(PALETTE_EXPORT_FORMATS) as PaletteExportFormat[]).map(format => (
+            <TouchableOpacity
+              key={format}
+              style={[styles.exportButton, exportingFormat === format && styles.exportButtonActive]}
+              onPress={() => exportPalette(format)}
+              disabled={exportingFormat !== null}
+              accessibilityLabel={`Export palette as ${PALETTE_EXPORT_FORMATS[format].label}`}
+              accessibilityRole="button"
+            >
+              <IconSymbol name="square.and.arrow.up" size={12} color={Colors.primary} />
+              <ThemedText style={[GlobalStyles.caption, styles.exportButtonText]}>
+                {format === 'tailwind' ? 'Tailwind' : format.toUpperCase()}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Paint Matches */}
+      <PaintMatches colorPalette={colorPalette} />
+
+      {/* Accessibility */}
+      <PaletteAccessibility colorPalette={colorPalette} />
+
+      {/* Alternative Palettes */}
+      {alternativePalettes.length > 0 && (
+        <View style={styles.alternativesContainer}>
+          <ThemedText style={[GlobalStyles.heading3, styles.alternativesTitle]}>
+            Alternative Palettes
+          </ThemedText>
+          <ThemedText style={[GlobalStyles.bodySmall, styles.alternativesSubtitle]}>
+            Target palettes that harmonize with your room and color preference
+          </ThemedText>
+
+          {alternativePalettes.map(palette => (
+            <View key={palette.id} style={styles.alternativeCard}>
+              <View style={styles.titleContainer}>
+                <View style={styles.paletteName}>
+                  <ThemedText style={[GlobalStyles.bodyLarge, styles.alternativeName]}>
+                    {palette.name}
+                  </ThemedText>
+                  <ThemedText style={[GlobalStyles.caption, styles.harmonyLabel]}>
+                    {getHarmonyLabel(palette.harmony)}
+                  </ThemedText>
+                </View>
+                <View style={styles.moodBadge}>
+                  <IconSymbol 
+                    name={getMoodIcon(palette.mood)} 
+                    size={12} 
+                    color={getMoodColor(palette.mood)} 
+                  />
+                  <ThemedText style={[
+                    GlobalStyles.caption, 
+                    styles.moodText,
+                    { color: getMoodColor(palette.mood) }
+                  ]}>
+                    {palette.mood.charAt(0).toUpperCase() + palette.mood.slice(1)}
+                  </ThemedText>
+                </View>
+              </View>
+
+              {/* Swatch strip, sized by proportion when the palette defines one */}
+              <View style={styles.swatchStrip}>
+                {palette.colors.map((color, index) => (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.stripSwatch,
+                      { backgroundColor: color, flex: palette.proportions?.[index] ?? 1 },
+                    ]}
+                    onPress={() => copyColorToClipboard(color)}
+                    accessibilityLabel={`Copy color ${color} to clipboard`}
+                    accessibilityRole="button"
+                  >
+                    {copiedColor === color && (
+                      <IconSymbol name="checkmark" size={14} color={Colors.white} />
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.stripLabels}>
+                {palette.colors.map((color, index) => (
+                  <ThemedText
+                    key={index}
+                    style={[
+                      GlobalStyles.caption,
+                      styles.stripLabel,
+                      { flex: palette.proportions?.[index] ?? 1 },
+                      copiedColor === color && styles.copiedText,
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {palette.proportions
+                      ? `${Math.round(palette.proportions[index] * 100)}%`
+                      : color.toUpperCase()}
+                  </ThemedText>
+                ))}
+              </View>
+
+              <ThemedText style={[GlobalStyles.bodySmall, styles.rationale]}>
+                {palette.rationale}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
 }
@@ -208,6 +459,41 @@ const styles = StyleSheet.create({
     color: Colors.success,
     fontWeight: '700',
   },
+  regionsContainer: {
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  regionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  regionLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    width: 96,
+  },
+  regionName: {
+    color: Colors.textLight,
+  },
+  regionSwatches: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  regionSwatch: {
+    flex: 1,
+    height: 28,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  regionNote: {
+    color: Colors.textLighter,
+  },
   descriptionContainer: {
     marginBottom: Spacing.lg,
   },
@@ -215,6 +501,56 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     opacity: 0.8,
   },
+  moodTagsContainer: {
+    gap: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  moodTag: {
+    gap: Spacing.xs,
+  },
+  moodTagHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  moodTagName: {
+    fontWeight: '600',
+    width: 100,
+  },
+  moodTagBar: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.border,
+    overflow: 'hidden',
+  },
+  moodTagFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  moodTagWeight: {
+    width: 36,
+    textAlign: 'right',
+    color: Colors.textLight,
+  },
+  moodTagExplanation: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.xs,
+  },
+  moodTagSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginTop: 2,
+  },
+  moodTagText: {
+    flex: 1,
+    color: Colors.textLight,
+    lineHeight: 16,
+  },
   tipsContainer: {
     gap: Spacing.sm,
   },
@@ -228,4 +564,85 @@ const styles = StyleSheet.create({
     color: Colors.textLight,
     lineHeight: 18,
   },
+  exportContainer: {
+    marginTop: Spacing.lg,
+  },
+  exportLabel: {
+    color: Colors.textLight,
+    marginBottom: Spacing.sm,
+  },
+  exportFormats: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  exportButtonActive: {
+    opacity: 0.5,
+  },
+  exportButtonText: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+  alternativesContainer: {
+    marginTop: Spacing.lg,
+    paddingTop: Spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  alternativesTitle: {
+    marginBottom: Spacing.xs,
+  },
+  alternativesSubtitle: {
+    color: Colors.textLight,
+    marginBottom: Spacing.md,
+  },
+  alternativeCard: {
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.medium,
+    padding: Spacing.md,
+    marginBottom: Spacing.md,
+  },
+  alternativeName: {
+    fontWeight: '600',
+  },
+  harmonyLabel: {
+    color: Colors.textLight,
+  },
+  swatchStrip: {
+    flexDirection: 'row',
+    height: 40,
+    borderRadius: BorderRadius.small,
+    overflow: 'hidden',
+    marginTop: Spacing.md,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  stripSwatch: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stripLabels: {
+    flexDirection: 'row',
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  stripLabel: {
+    fontFamily: 'monospace',
+    color: Colors.textLight,
+    textAlign: 'center',
+  },
+  rationale: {
+    color: Colors.textLight,
+    lineHeight: 18,
+  },
 });
@@ -57,18 +57,24 @@ export function ComfortMetricsDisplay({ insights }: ComfortMetricsDisplayProps)
           };
           break;
           
-        case 'lighting':
+        case 'lighting': {
+          // Prefer the brightness measured from the photo over the status-based range
+          const measuredLux = insight.measurements?.find(measurement => measurement.unit === 'lux');
+          const measuredTemperature = insight.measurements?.find(measurement => measurement.unit === 'K');
           metric = {
             id: 'lighting-level',
             title: 'Lighting Level',
-            value: getMetricValue(insight.status, 'lux'),
+            value: measuredLux ? `~${measuredLux.value}` : getMetricValue(insight.status, 'lux'),
             status: insight.status,
             unit: 'lux',
             icon: 'lightbulb',
-            description: 'Ambient lighting for reduced eye strain',
+            description: measuredTemperature
+              ? `Measured from your photo at ${measuredTemperature.value}K color temperature`
+              : 'Ambient lighting for reduced eye strain',
             recommendation: insight.recommendation
           };
           break;
+        }
           
         case 'screen-position':
           metric = {
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { Image, StyleSheet, TouchableOpacity, View } from 'react-native';
 
 import { ComfortMetricsDisplay } from '@/components/results/comfort-metrics-display';
 import { ErgonomicVisualOverlay } from '@/components/results/ergonomic-visual-overlay';
@@ -10,9 +10,10 @@ import { ErgonomicInsight } from '@/types/ai-analysis';
 
 interface ErgonomicInsightsProps {
   insights: ErgonomicInsight[];
+  photoUris?: string[]; // Photos of a multi-photo analysis, for showing where each insight was seen
 }
 
-export function ErgonomicInsights({ insights }: ErgonomicInsightsProps) {
+export function ErgonomicInsights({ insights, photoUris }: ErgonomicInsightsProps) {
   const [showDetailedView, setShowDetailedView] = useState(false);
   const getStatusColor = (status: string): string => {
     switch (status) {
@@ -53,6 +54,7 @@ export function ErgonomicInsights({ insights }: ErgonomicInsightsProps) {
 
   const renderInsightCard = (insight: ErgonomicInsight, index: number) => {
     const statusColor = getStatusColor(insight.status);
+    const photoUri = insight.photoIndex !== undefined ? photoUris?.[insight.photoIndex] : undefined;
     
     return (
       <View key={index} style={styles.insightCard}>
@@ -98,6 +100,16 @@ export function ErgonomicInsights({ insights }: ErgonomicInsightsProps) {
           ]}>
             {insight.status.replace('-', ' ').toUpperCase()}
           </ThemedText>
+
+          {/* Source Photo */}
+          {photoUri && (
+            <View style={styles.photoSource}>
+              <Image source={{ uri: photoUri }} style={styles.photoThumbnail} />
+              <ThemedText style={[GlobalStyles.bodySmall, styles.photoSourceText]}>
+                Photo {(insight.photoIndex ?? 0) + 1}
+              </ThemedText>
+            </View>
+          )}
         </View>
 
         {/* Description */}
@@ -331,8 +343,26 @@ const styles = StyleSheet.create({
     borderRadius: 5,
   },
   statusLabelContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     marginBottom: Spacing.sm,
   },
+  photoSource: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  photoThumbnail: {
+    width: 24,
+    height: 24,
+    borderRadius: 4,
+    backgroundColor: Colors.border,
+  },
+  photoSourceText: {
+    color: Colors.textLight,
+    fontWeight: '500',
+  },
   statusLabel: {
     fontWeight: '600',
     fontSize: 10,
@@ -0,0 +1,236 @@
+import * as Clipboard from 'expo-clipboard';
+import React, { useMemo, useState } from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
+import { PaintMatchingService } from '@/services/paint-matching';
+import { ColorPalette } from '@/types/ai-analysis';
+import { PAINT_BRANDS, PAINT_FINISHES, PaintBrand, PaintFinish } from '@/types/paint';
+
+interface PaintMatchesProps {
+  colorPalette: ColorPalette;
+  matchesPerSwatch?: number;
+}
+
+export function PaintMatches({ colorPalette, matchesPerSwatch = 3 }: PaintMatchesProps) {
+  const [selectedBrands, setSelectedBrands] = useState<PaintBrand[]>([]);
+  const [selectedFinish, setSelectedFinish] = useState<PaintFinish | null>(null);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const swatchMatches = useMemo(
+    () => PaintMatchingService.matchPalette(colorPalette, {
+      limit: matchesPerSwatch,
+      brands: selectedBrands,
+      finishes: selectedFinish ? [selectedFinish] : undefined,
+    }),
+    [colorPalette, matchesPerSwatch, selectedBrands, selectedFinish]
+  );
+
+  const toggleBrand = (brand: PaintBrand) => {
+    setSelectedBrands(current =>
+      current.includes(brand) ? current.filter(item => item !== brand) : [...current, brand]
+    );
+  };
+
+  const copyPaintToClipboard = async (label: string) => {
+    try {
+      await Clipboard.setStringAsync(label);
+      setCopiedCode(label);
+      setTimeout(() => setCopiedCode(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy paint to clipboard:', error);
+    }
+  };
+
+  const formatFinish = (finish: PaintFinish): string =>
+    finish.charAt(0).toUpperCase() + finish.slice(1);
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={[GlobalStyles.heading3, styles.title]}>
+        Paint Matches
+      </ThemedText>
+      <ThemedText style={[GlobalStyles.bodySmall, styles.subtitle]}>
+        The closest real paint colors for each swatch
+      </ThemedText>
+
+      {/* Filters */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {PAINT_BRANDS.map(brand => {
+          const isSelected = selectedBrands.includes(brand);
+          return (
+            <TouchableOpacity
+              key={brand}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => toggleBrand(brand)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <ThemedText style={[GlobalStyles.caption, styles.chipText, isSelected && styles.chipTextSelected]}>
+                {brand}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {PAINT_FINISHES.map(finish => {
+          const isSelected = selectedFinish === finish;
+          return (
+            <TouchableOpacity
+              key={finish}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => setSelectedFinish(isSelected ? null : finish)}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <ThemedText style={[GlobalStyles.caption, styles.chipText, isSelected && styles.chipTextSelected]}>
+                {formatFinish(finish)}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {/* Matches */}
+      {swatchMatches.map(({ swatch, matches }, index) => (
+        <View key={`${swatch}-${index}`} style={styles.swatchGroup}>
+          <View style={styles.swatchHeader}>
+            <View style={[styles.swatch, { backgroundColor: swatch }]} />
+            <ThemedText style={[GlobalStyles.bodySmall, styles.swatchCode]}>
+              {swatch.toUpperCase()}
+            </ThemedText>
+          </View>
+
+          {matches.length === 0 ? (
+            <ThemedText style={[GlobalStyles.caption, styles.emptyText]}>
+              No paints match the selected filters
+            </ThemedText>
+          ) : (
+            matches.map(({ paint, deltaE }) => {
+              const label = `${paint.brand} ${paint.name} (${paint.code})`;
+              return (
+                <TouchableOpacity
+                  key={paint.id}
+                  style={styles.matchRow}
+                  onPress={() => copyPaintToClipboard(label)}
+                  accessibilityLabel={`Copy ${label} to clipboard`}
+                  accessibilityRole="button"
+                >
+                  <View style={[styles.paintChip, { backgroundColor: paint.hex }]} />
+                  <View style={styles.matchInfo}>
+                    <ThemedText style={[GlobalStyles.bodySmall, styles.paintName]}>
+                      {paint.name}
+                    </ThemedText>
+                    <ThemedText style={[GlobalStyles.caption, styles.paintMeta]}>
+                      {paint.brand} · {paint.code} · LRV {paint.lrv}
+                    </ThemedText>
+                  </View>
+                  {copiedCode === label ? (
+                    <IconSymbol name="checkmark" size={14} color={Colors.success} />
+                  ) : (
+                    <ThemedText style={[GlobalStyles.caption, styles.deltaE]}>
+                      {PaintMatchingService.describeMatch(deltaE)}
+                    </ThemedText>
+                  )}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.lg,
+    paddingTop: Spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  title: {
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    color: Colors.textLight,
+    marginBottom: Spacing.md,
+  },
+  chipRow: {
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.white,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    color: Colors.textLight,
+  },
+  chipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  swatchGroup: {
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.medium,
+    padding: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  swatchHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  swatch: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  swatchCode: {
+    fontFamily: 'monospace',
+    fontWeight: '600',
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  paintChip: {
+    width: 32,
+    height: 32,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  matchInfo: {
+    flex: 1,
+  },
+  paintName: {
+    fontWeight: '600',
+  },
+  paintMeta: {
+    color: Colors.textLight,
+  },
+  deltaE: {
+    color: Colors.textLight,
+  },
+  emptyText: {
+    color: Colors.textLight,
+  },
+});
@@ -0,0 +1,222 @@
+import React, { ComponentProps, useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
+import {
+  ColorAccessibilityService,
+  ColorVisionDeficiency,
+  ContrastLevel,
+} from '@/services/color-accessibility';
+import { ColorPalette } from '@/types/ai-analysis';
+
+interface PaletteAccessibilityProps {
+  colorPalette: ColorPalette;
+}
+
+export function PaletteAccessibility({ colorPalette }: PaletteAccessibilityProps) {
+  const report = useMemo(
+    () => ColorAccessibilityService.analyzePalette(colorPalette),
+    [colorPalette]
+  );
+
+  const getLevelColor = (level: ContrastLevel): string => {
+    switch (level) {
+      case 'AAA':
+      case 'AA':
+        return Colors.success;
+      case 'AA Large':
+        return Colors.warning;
+      default:
+        return Colors.error;
+    }
+  };
+
+  const getLevelIcon = (level: ContrastLevel): ComponentProps<typeof IconSymbol>['name'] => {
+    switch (level) {
+      case 'AAA':
+      case 'AA':
+        return 'checkmark.circle.fill';
+      case 'AA Large':
+        return 'exclamationmark.circle.fill';
+      default:
+        return 'xmark.circle.fill';
+    }
+  };
+
+  const getDeficiencyLabel = (deficiency: ColorVisionDeficiency): string => {
+    switch (deficiency) {
+      case 'protanopia':
+        return 'Protanopia (red-blind)';
+      case 'deuteranopia':
+        return 'Deuteranopia (green-blind)';
+      case 'tritanopia':
+        return 'Tritanopia (blue-blind)';
+    }
+  };
+
+  if (report.pairs.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={[GlobalStyles.heading3, styles.title]}>
+        Accessibility
+      </ThemedText>
+      <ThemedText style={[GlobalStyles.bodySmall, styles.subtitle]}>
+        {report.failingAACount === 0
+          ? 'Every color pair meets WCAG AA contrast for text'
+          : `${report.failingAACount} of ${report.pairs.length} color pairs fall below WCAG AA contrast for text`}
+      </ThemedText>
+
+      {/* Contrast Pairs */}
+      {report.pairs.map(pair => (
+        <View key={`${pair.foreground}-${pair.background}`} style={styles.pairRow}>
+          <View style={[styles.sample, { backgroundColor: pair.background }]}>
+            <ThemedText style={[styles.sampleText, { color: pair.foreground }]}>
+              Aa
+            </ThemedText>
+          </View>
+          <View style={styles.pairInfo}>
+            <ThemedText style={[GlobalStyles.caption, styles.pairColors]}>
+              {pair.foreground.toUpperCase()} on {pair.background.toUpperCase()}
+            </ThemedText>
+            <ThemedText style={[GlobalStyles.bodySmall, styles.ratio]}>
+              {pair.ratio.toFixed(1)}:1
+            </ThemedText>
+          </View>
+          <View style={styles.levelBadge}>
+            <IconSymbol name={getLevelIcon(pair.level)} size={12} color={getLevelColor(pair.level)} />
+            <ThemedText style={[
+              GlobalStyles.caption,
+              styles.levelText,
+              { color: getLevelColor(pair.level) }
+            ]}>
+              {pair.level}
+            </ThemedText>
+          </View>
+        </View>
+      ))}
+
+      {/* Color Vision Simulations */}
+      <ThemedText style={[GlobalStyles.bodyLarge, styles.sectionTitle]}>
+        Color Vision
+      </ThemedText>
+      {report.simulations.map(simulation => (
+        <View key={simulation.deficiency} style={styles.simulation}>
+          <ThemedText style={[GlobalStyles.bodySmall, styles.deficiencyLabel]}>
+            {getDeficiencyLabel(simulation.deficiency)}
+          </ThemedText>
+          <View style={styles.simulatedStrip}>
+            {simulation.colors.map((color, index) => (
+              <View key={index} style={[styles.simulatedSwatch, { backgroundColor: color }]} />
+            ))}
+          </View>
+          {simulation.confusablePairs.length > 0 && (
+            <View style={styles.warningRow}>
+              <IconSymbol name="exclamationmark.triangle.fill" size={14} color={Colors.warning} />
+              <ThemedText style={[GlobalStyles.caption, styles.warningText]}>
+                Hard to tell apart:{' '}
+                {simulation.confusablePairs
+                  .map(([a, b]) => `${report.colors[a].toUpperCase()} / ${report.colors[b].toUpperCase()}`)
+                  .join(', ')}
+              </ThemedText>
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.lg,
+    paddingTop: Spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  title: {
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    color: Colors.textLight,
+    marginBottom: Spacing.md,
+  },
+  pairRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  sample: {
+    width: 48,
+    height: 36,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sampleText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  pairInfo: {
+    flex: 1,
+  },
+  pairColors: {
+    fontFamily: 'monospace',
+    color: Colors.textLight,
+  },
+  ratio: {
+    fontWeight: '600',
+  },
+  levelBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    backgroundColor: Colors.background,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.small,
+  },
+  levelText: {
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  simulation: {
+    marginBottom: Spacing.md,
+  },
+  deficiencyLabel: {
+    color: Colors.textLight,
+    marginBottom: Spacing.xs,
+  },
+  simulatedStrip: {
+    flexDirection: 'row',
+    height: 28,
+    borderRadius: BorderRadius.small,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  simulatedSwatch: {
+    flex: 1,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  warningText: {
+    flex: 1,
+    color: Colors.textLight,
+  },
+});
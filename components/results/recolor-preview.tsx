@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { LayoutChangeEvent, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ImageComparisonSlider } from '@/components/image-comparison-slider';
+import { ThemedText } from '@/components/themed-text';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { BorderRadius, Colors, GlobalStyles, Spacing } from '@/constants/globalStyles';
+import { ImageRecoloringService } from '@/services/image-recoloring';
+import { ColorPalette, RecolorPreview, RegionPalette } from '@/types/ai-analysis';
+
+interface PaletteRecolorPreviewProps {
+  photoUri: string;
+  palettes: ColorPalette[];
+  regionPalettes?: RegionPalette[];
+}
+
+export function PaletteRecolorPreview({ photoUri, palettes, regionPalettes }: PaletteRecolorPreviewProps) {
+  const [selectedPaletteId, setSelectedPaletteId] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<string, RecolorPreview>>({});
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  const selectedPreview = selectedPaletteId ? previews[selectedPaletteId] : undefined;
+
+  const handleSelectPalette = async (palette: ColorPalette) => {
+    setSelectedPaletteId(palette.id);
+    setError(null);
+    if (previews[palette.id] || generatingId) return;
+
+    setGeneratingId(palette.id);
+    const result = await ImageRecoloringService.generatePreview(photoUri, palette, regionPalettes);
+    setGeneratingId(null);
+
+    if (result.success && result.data) {
+      const preview = result.data;
+      setPreviews(current => ({ ...current, [palette.id]: preview }));
+    } else {
+      setError(result.error || 'Could not create a preview for this palette');
+    }
+  };
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setContainerWidth(event.nativeEvent.layout.width);
+  };
+
+  const getRegionLabel = (region: RecolorPreview['mappings'][number]['region']): string =>
+    region === 'walls' ? 'Walls' : 'Furniture';
+
+  if (palettes.length === 0) return null;
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      <ThemedText style={[GlobalStyles.heading3, styles.title]}>
+        Preview on Your Room
+      </ThemedText>
+      <ThemedText style={[GlobalStyles.bodySmall, styles.subtitle]}>
+        Pick a palette to see it applied to your walls and furniture
+      </ThemedText>
+
+      {/* Palette Picker */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {palettes.map(palette => {
+          const isSelected = selectedPaletteId === palette.id;
+          return (
+            <TouchableOpacity
+              key={palette.id}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => handleSelectPalette(palette)}
+              disabled={generatingId !== null}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected, disabled: generatingId !== null }}
+              accessibilityLabel={`Preview ${palette.name} on your room`}
+            >
+              <View style={styles.chipSwatches}>
+                {palette.colors.slice(0, 3).map((color, index) => (
+                  <View key={`${color}-${index}`} style={[styles.chipSwatch, { backgroundColor: color }]} />
+                ))}
+              </View>
+              <ThemedText style={[GlobalStyles.caption, styles.chipText, isSelected && styles.chipTextSelected]}>
+                {palette.name}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {/* Preview */}
+      {generatingId ? (
+        <View style={styles.placeholder}>
+          <IconSymbol name="paintbrush" size={24} color={Colors.textLight} />
+          <ThemedText style={[GlobalStyles.bodySmall, styles.placeholderText]}>
+            Recoloring your photo...
+          </ThemedText>
+        </View>
+      ) : error ? (
+        <View style={styles.placeholder}>
+          <IconSymbol name="exclamationmark.triangle" size={24} color={Colors.error} />
+          <ThemedText style={[GlobalStyles.bodySmall, styles.placeholderText]}>
+            {error}
+          </ThemedText>
+        </View>
+      ) : selectedPreview && containerWidth > 0 ? (
+        <>
+          <ImageComparisonSlider
+            key={selectedPreview.uri}
+            beforeImage={{ uri: photoUri }}
+            afterImage={{ uri: selectedPreview.uri }}
+            width={containerWidth}
+            height={Math.round(containerWidth * (selectedPreview.height / selectedPreview.width))}
+          />
+          <View style={styles.mappingList}>
+            {selectedPreview.mappings.map(mapping => (
+              <View key={mapping.region} style={styles.mappingRow}>
+                <ThemedText style={[GlobalStyles.caption, styles.mappingLabel]}>
+                  {getRegionLabel(mapping.region)}
+                </ThemedText>
+                <View style={[styles.mappingSwatch, { backgroundColor: mapping.source }]} />
+                <IconSymbol name="arrow.right" size={12} color={Colors.textLight} />
+                <View style={[styles.mappingSwatch, { backgroundColor: mapping.target }]} />
+                <ThemedText style={[GlobalStyles.caption, styles.mappingCode]}>
+                  {mapping.target.toUpperCase()}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+          <ThemedText style={[GlobalStyles.caption, styles.note]}>
+            Preview only: lighting and surface finish will change how paint looks in person
+          </ThemedText>
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.lg,
+    paddingTop: Spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  title: {
+    marginBottom: Spacing.xs,
+  },
+  subtitle: {
+    color: Colors.textLight,
+    marginBottom: Spacing.md,
+  },
+  chipRow: {
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.white,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipSwatches: {
+    flexDirection: 'row',
+  },
+  chipSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: Colors.white,
+    marginRight: -4,
+  },
+  chipText: {
+    color: Colors.textLight,
+    marginLeft: Spacing.xs,
+  },
+  chipTextSelected: {
+    color: Colors.white,
+    fontWeight: '600',
+  },
+  placeholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.xl,
+    backgroundColor: Colors.background,
+    borderRadius: BorderRadius.medium,
+  },
+  placeholderText: {
+    color: Colors.textLight,
+    textAlign: 'center',
+  },
+  mappingList: {
+    marginTop: Spacing.md,
+    gap: Spacing.xs,
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  mappingLabel: {
+    width: 72,
+    fontWeight: '600',
+  },
+  mappingSwatch: {
+    width: 20,
+    height: 20,
+    borderRadius: BorderRadius.small,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  mappingCode: {
+    fontFamily: 'monospace',
+    color: Colors.textLight,
+  },
+  note: {
+    marginTop: Spacing.sm,
+    color: Colors.textLight,
+  },
+});
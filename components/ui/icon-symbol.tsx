@@ -51,6 +51,18 @@ const MAPPING = {
   'gear': 'settings',
   'message': 'message',
   'pencil': 'edit',
+  'square.and.arrow.up': 'share',
+  'square.split.2x1': 'crop-landscape',
+  'square.grid.2x2': 'grid-view',
+  'flame': 'local-fire-department',
+  'wind': 'air',
+  'diamond': 'diamond',
+  'face.smiling': 'sentiment-satisfied',
+  'mountain.2': 'terrain',
+  'arrow.right': 'arrow-forward',
+  'arrow.clockwise': 'refresh',
+  'clock': 'schedule',
+  'wifi.slash': 'wifi-off',
 } as IconMapping;
 
 /**
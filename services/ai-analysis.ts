@@ -2,18 +2,50 @@ import { ErgonomicAnalysisService } from '@/services/ergonomic-analysis';
 import {
   AI_CONFIG,
   AIAnalysisError,
+  AIAnalysisErrorCode,
+  AIPromptContext,
+  AnalysisCancelledError,
+  ANALYSIS_PROGRESS,
   ANALYSIS_STEPS,
+  AnalysisPreview,
+  AnalysisProgressCallback,
   ColorPalette,
+  ErgonomicInsight,
+  isAIAnalysisError,
+  LightingAnalysis,
+  RETRYABLE_ERROR_CODES,
   WorkspaceAnalysisRequest,
   WorkspaceAnalysisResult
 } from '@/types/ai-analysis';
+import { AIVisionImage } from '@/types/ai-provider';
+import { AIUsage } from '@/types/ai-usage';
+import { DecodedImage } from '@/types/image';
+import { PHOTO_VALIDATION, PhotoAsset } from '@/types/photo';
+import { RenderedPrompt } from '@/types/prompt';
+import {
+  ANALYSIS_SECTION_STEPS,
+  WORKSPACE_ANALYSIS_FORMAT,
+  WORKSPACE_ANALYSIS_SCHEMA,
+  WorkspaceAnalysisResponse,
+} from '@/types/workspace-analysis-schema';
 import { AIImageProcessingService } from './ai-image-processing';
 import { AIPromptService } from './ai-prompts';
 import { AIResponseParserService } from './ai-response-parser';
+import { AIUsageService } from './ai-usage';
+import { AnalysisCacheService } from './analysis-cache';
 import { ColorExtractionService } from './color-extraction';
+import { ColorHarmonyService } from './color-harmony';
+import { ConnectivityService } from './connectivity';
+import { LightingAnalysisService } from './lighting-analysis';
 import { OpenAIClientService } from './openai-client';
+import { PaletteMoodService } from './palette-mood';
 import { ProductRecommendationService } from './product-recommendation';
 
+// Re-parse the stream once this much new text arrives, even without a structural boundary
+const PREVIEW_PARSE_INTERVAL = 120;
+
+const RESPONSE_SECTIONS = WORKSPACE_ANALYSIS_SCHEMA.required;
+
 /**
  * AI Analysis Service
  * Orchestrates workspace analysis using modular AI services
@@ -21,52 +53,100 @@ import { ProductRecommendationService } from './product-recommendation';
 export class AIAnalysisService {
 
   /**
-   * Analyze workspace with retry logic
+   * Analyze workspace with retry logic; aborting the signal rejects with an AnalysisCancelledError
    */
   static async analyzeWorkspace(
     request: WorkspaceAnalysisRequest,
-    onProgress?: (step: string, progress: number) => void
+    onProgress?: AnalysisProgressCallback,
+    signal?: AbortSignal
   ): Promise<WorkspaceAnalysisResult> {
     const startTime = Date.now();
-    let lastError: Error | null = null;
+    let lastError: unknown = null;
+    let attempts = 0;
+
+    // Track whether the current attempt got its AI response, which decides if a cancellation is refundable
+    let responseReceived = false;
+    const reportProgress: AnalysisProgressCallback = (step, progress, preview) => {
+      responseReceived = progress >= ANALYSIS_PROGRESS.RESPONSE_COMPLETE;
+      onProgress?.(step, progress, preview);
+    };
 
-    // Progress tracking
-    const updateProgress = (step: string, progress: number) => {
-      onProgress?.(step, progress);
+    // Failed attempts were billed too, so usage adds up across retries
+    let usage: AIUsage | undefined;
+    const recordUsage = (callUsage: AIUsage) => {
+      usage = AIUsageService.combineUsage(usage, callUsage);
     };
 
-    updateProgress(ANALYSIS_STEPS.INITIALIZING, 10);
+    reportProgress(ANALYSIS_STEPS.INITIALIZING, 0);
 
     // Create prompt context from quiz responses
     const promptContext = AIPromptService.createPromptContext(request.quizResponses);
 
-    updateProgress(ANALYSIS_STEPS.PROCESSING_IMAGE, 20);
-
     // Retry logic
     for (let attempt = 1; attempt <= AI_CONFIG.MAX_RETRIES; attempt++) {
+      attempts = attempt;
       try {
-        const result = await this.performAnalysis(request, promptContext, updateProgress);
-        
-        updateProgress(ANALYSIS_STEPS.FINALIZING, 100);
-        
+        const result = await this.performAnalysis(request, promptContext, reportProgress, recordUsage, signal);
+
+        reportProgress(ANALYSIS_STEPS.FINALIZING, ANALYSIS_PROGRESS.DONE);
+
         return {
           ...result,
+          usage,
           processingTime: Date.now() - startTime,
         };
       } catch (error) {
-        lastError = error as Error;
+        if (signal?.aborted) {
+          throw this.createCancelledError(responseReceived);
+        }
+
+        lastError = error;
         console.warn(`Analysis attempt ${attempt} failed:`, error);
 
-        if (attempt < AI_CONFIG.MAX_RETRIES) {
-          updateProgress(`Retrying analysis (${attempt}/${AI_CONFIG.MAX_RETRIES})...`, 15);
-          await this.delay(AI_CONFIG.RETRY_DELAY_MS * attempt);
+        const retryDelay = this.getRetryDelay(error, attempt);
+        if (retryDelay === undefined || attempt === AI_CONFIG.MAX_RETRIES) break;
+
+        // Start the bar and the preview over for the next attempt
+        reportProgress(
+          `Retrying analysis in ${Math.ceil(retryDelay / 1000)}s (${attempt}/${AI_CONFIG.MAX_RETRIES})...`,
+          0
+        );
+        try {
+          await this.delay(retryDelay, signal);
+        } catch {
+          throw this.createCancelledError(false);
         }
       }
     }
 
-    // All retries failed, throw error instead of using fallback
-    console.error('All analysis attempts failed:', lastError);
-    throw new Error(`Analysis failed after ${AI_CONFIG.MAX_RETRIES} attempts: ${lastError?.message || 'Unknown error'}`);
+    // Out of attempts, or the error can't be fixed by retrying; keep its code so callers can tell failures apart
+    console.error('Analysis failed:', lastError);
+    const error = isAIAnalysisError(lastError)
+      ? lastError
+      : this.createError(
+          'UNKNOWN_ERROR',
+          'Analysis failed. Please try again.',
+          lastError instanceof Error ? lastError.message : undefined
+        );
+    throw attempts > 1
+      ? { ...error, details: [`Failed after ${attempts} attempts`, error.details].filter(Boolean).join(': ') }
+      : error;
+  }
+
+  /**
+   * How long to wait before retrying a failed attempt, or undefined if retrying can't help.
+   * Waits as long as the provider's Retry-After asks, otherwise backs off exponentially with jitter.
+   */
+  private static getRetryDelay(error: unknown, attempt: number): number | undefined {
+    if (!isAIAnalysisError(error) || !error.retryable) return undefined;
+
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= AI_CONFIG.MAX_RETRY_AFTER_MS ? error.retryAfterMs : undefined;
+    }
+
+    // Keep half the backoff and randomize the rest, so clients that failed together don't retry in step
+    const backoff = Math.min(AI_CONFIG.RETRY_MAX_DELAY_MS, AI_CONFIG.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    return backoff / 2 + Math.random() * (backoff / 2);
   }
 
   /**
@@ -74,108 +154,309 @@ export class AIAnalysisService {
    */
   private static async performAnalysis(
     request: WorkspaceAnalysisRequest,
-    promptContext: any,
-    updateProgress: (step: string, progress: number) => void
+    promptContext: AIPromptContext,
+    onProgress: AnalysisProgressCallback,
+    onUsage: (usage: AIUsage) => void,
+    signal?: AbortSignal
   ): Promise<WorkspaceAnalysisResult> {
-    updateProgress(ANALYSIS_STEPS.PROCESSING_IMAGE, 30);
+    // Keep the latest preview on screen through the local stages that follow the stream
+    let preview: AnalysisPreview | undefined;
+    const updateProgress = (step: string, progress: number) => {
+      // Stage boundaries double as cancellation points for work that can't be aborted mid-way
+      if (signal?.aborted) {
+        throw this.createError('CANCELLED', 'Analysis cancelled.');
+      }
+      onProgress(step, progress, preview);
+    };
+
+    updateProgress(ANALYSIS_STEPS.PROCESSING_IMAGE, 0);
 
-    // Validate and convert image to base64
-    const imageValidation = await AIImageProcessingService.validateImageForAI(request.photo.uri);
-    if (!imageValidation.isValid) {
-      throw new Error(`Image validation failed: ${imageValidation.error}`);
+    // Validate every image
+    const photos = this.getPhotos(request);
+    for (const [index, photo] of photos.entries()) {
+      const imageValidation = await AIImageProcessingService.validateImageForAI(photo.uri);
+      if (!imageValidation.isValid) {
+        const label = photos.length > 1 ? `Photo ${index + 1}` : 'Image';
+        throw this.createError('INVALID_IMAGE', `${label} validation failed: ${imageValidation.error}`);
+      }
     }
 
-    const imageBase64 = await AIImageProcessingService.convertImageToBase64(request.photo.uri);
+    // Resize and decode the photos once; they key the response cache, and the first feeds local color and lighting analysis
+    const analysisImages = await Promise.all(photos.map(photo => this.loadAnalysisImage(photo.uri)));
+    const analysisImage = analysisImages[0];
 
-    updateProgress(ANALYSIS_STEPS.PROCESSING_IMAGE, 50);
+    // Render the prompt variant assigned to this installation; its text keys the cache along with the photos
+    const prompt = await AIPromptService.getAnalysisPrompt(promptContext, photos.length);
+    const cacheKey = await this.getCacheKey(analysisImages, prompt);
 
-    // Create the analysis request
-    const prompt = AIPromptService.getComprehensivePrompt(promptContext);
+    let analysisData = request.useCachedResponse && cacheKey
+      ? await this.getCachedAnalysis(cacheKey)
+      : undefined;
 
-    // Call OpenAI Vision API
-    const aiContent = await OpenAIClientService.analyzeImageWithPrompt(imageBase64, prompt);
+    // Reusing a result spent no quota, so a live call in its place would go uncounted
+    if (request.useCachedResponse && !analysisData) {
+      throw this.createError('CACHE_MISS', 'The previous result is no longer available.');
+    }
 
-    updateProgress(ANALYSIS_STEPS.GENERATING_RECOMMENDATIONS, 70);
+    if (!analysisData) {
+      const images = await Promise.all(photos.map(async (photo): Promise<AIVisionImage> => ({
+        base64: await AIImageProcessingService.convertImageToBase64(photo.uri),
+        mimeType: 'image/jpeg',
+        width: photo.width,
+        height: photo.height,
+      })));
+
+      updateProgress(ANALYSIS_STEPS.PROCESSING_IMAGE, ANALYSIS_PROGRESS.IMAGE_READY);
+
+      // Stream the vision model's response, constrained to the analysis schema, showing sections as they land
+      let parsedLength = 0;
+      const aiContent = await OpenAIClientService.streamImageWithPrompt(
+        images,
+        prompt.text,
+        WORKSPACE_ANALYSIS_FORMAT,
+        text => {
+          if (text.length - parsedLength < PREVIEW_PARSE_INTERVAL && !/[,}\]]\s*$/.test(text)) return;
+          parsedLength = text.length;
+
+          const next = AIResponseParserService.parsePartialAnalysis(text);
+          if (!next) return;
+          preview = next;
+          updateProgress(...this.getStreamingProgress(next));
+        },
+        signal,
+        onUsage
+      );
+
+      // Validate the response; schema violations are retried
+      try {
+        analysisData = AIResponseParserService.parseAnalysisResponse(aiContent);
+      } catch (error) {
+        throw this.createError(
+          'INVALID_RESPONSE',
+          'The AI response didn\'t match the expected format.',
+          error instanceof Error ? error.message : undefined
+        );
+      }
 
-    // Parse and clean AI response
-    const analysisData = AIResponseParserService.extractStructuredData(aiContent);
-    const cleanedAnalysisData = AIResponseParserService.cleanAnalysisData(analysisData);
+      if (cacheKey) {
+        await AnalysisCacheService.setResponse(cacheKey, aiContent);
+      }
+    }
 
-    updateProgress(ANALYSIS_STEPS.EXTRACTING_COLORS, 80);
+    updateProgress(ANALYSIS_STEPS.GENERATING_RECOMMENDATIONS, ANALYSIS_PROGRESS.RESPONSE_COMPLETE);
 
     // Generate product recommendations based on analysis
     const recommendations = ProductRecommendationService.generateRecommendations(
-      cleanedAnalysisData,
+      analysisData,
       promptContext
     );
 
-    updateProgress(ANALYSIS_STEPS.EVALUATING_ERGONOMICS, 85);
+    updateProgress(ANALYSIS_STEPS.EXTRACTING_COLORS, ANALYSIS_PROGRESS.RECOMMENDATIONS_READY);
 
     // Extract color palette from the original image
-    const colorPalette = await this.extractColorPalette(cleanedAnalysisData, promptContext, request.photo.uri);
-
-    updateProgress(ANALYSIS_STEPS.EVALUATING_ERGONOMICS, 90);
+    const colorPalette = this.extractColorPalette(analysisData, analysisImage);
+
+    // Break the palette down by area, using regions the AI located where available
+    const regionPalettes = analysisImage
+      ? ColorExtractionService.extractRegionPalettes(
+          analysisImage,
+          AIResponseParserService.extractImageRegions(analysisData)
+        )
+      : undefined;
+
+    // Propose target palettes that harmonize with the room and the user's color preference
+    const suggestedPalettes = colorPalette
+      ? ColorHarmonyService.generateHarmonies(
+          colorPalette,
+          ColorHarmonyService.getColorPreference(request.quizResponses)
+        )
+      : undefined;
+
+    updateProgress(ANALYSIS_STEPS.EVALUATING_ERGONOMICS, ANALYSIS_PROGRESS.COLORS_READY);
 
     // Process ergonomic insights with enhanced analysis
-    const ergonomicInsights = ErgonomicAnalysisService.analyzeErgonomics(cleanedAnalysisData, {
+    const aiInsights = ErgonomicAnalysisService.analyzeErgonomics(analysisData, {
       enableDetailedMetrics: true,
       includePostureAnalysis: true,
       strictnessLevel: 'standard'
     });
 
+    // Ground the lighting insight in measurements from the photo itself
+    const lightingAnalysis = this.analyzeLighting(analysisImage);
+    const ergonomicInsights = this.attributeInsights(
+      lightingAnalysis ? LightingAnalysisService.applyToInsights(aiInsights, lightingAnalysis) : aiInsights,
+      photos.length
+    );
+
     return {
       id: `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      summary: AIResponseParserService.cleanText(cleanedAnalysisData.workspace_description) || 'Workspace analysis completed',
+      summary: analysisData.workspace_description.trim() || 'Workspace analysis completed',
       recommendations,
       colorPalette,
+      suggestedPalettes,
+      regionPalettes,
       ergonomicInsights,
+      lightingAnalysis,
+      photoUris: photos.length > 1 ? photos.map(photo => photo.uri) : undefined,
+      promptVersion: prompt.version,
+      promptVariant: prompt.variant,
       styleMatch: {
-        vibe: AIResponseParserService.cleanText(cleanedAnalysisData.style_assessment?.current_style) || 'Modern workspace',
-        confidence: cleanedAnalysisData.style_assessment?.alignment_score || 0.7,
-        explanation: AIResponseParserService.cleanText(cleanedAnalysisData.style_assessment?.alignment_explanation) || 'Good style alignment',
+        vibe: analysisData.style_assessment.current_style.trim() || 'Modern workspace',
+        confidence: analysisData.style_assessment.alignment_score,
+        explanation: analysisData.style_assessment.alignment_explanation.trim() || 'Good style alignment',
       },
       createdAt: Date.now(),
       processingTime: 0, // Will be set by caller
     };
   }
 
+  /**
+   * Step label and progress for a response that is still streaming, from the sections received so far
+   */
+  private static getStreamingProgress(preview: AnalysisPreview): [string, number] {
+    const completed = RESPONSE_SECTIONS.filter(section => preview.completedSections.includes(section)).length;
+    const current = RESPONSE_SECTIONS.find(section => !preview.completedSections.includes(section));
+
+    // Count the section being written as half done
+    const fraction = Math.min(1, (completed + (current ? 0.5 : 0)) / RESPONSE_SECTIONS.length);
+    const progress = ANALYSIS_PROGRESS.IMAGE_READY + (ANALYSIS_PROGRESS.RESPONSE_COMPLETE - ANALYSIS_PROGRESS.IMAGE_READY) * fraction;
+
+    return [
+      current ? ANALYSIS_SECTION_STEPS[current] : ANALYSIS_STEPS.GENERATING_RECOMMENDATIONS,
+      Math.round(progress),
+    ];
+  }
+
+  /**
+   * Whether a cached AI response exists for this photo and these answers, to offer reusing it.
+   * The key is worked out again when the job runs: jobs are persisted without decoded pixels, and the
+   * prompt variant or model may change before a queued job runs. A failed lookup just means no reuse.
+   */
+  static async hasCachedAnalysis(request: WorkspaceAnalysisRequest): Promise<boolean> {
+    try {
+      const analysisImages = await Promise.all(
+        this.getPhotos(request).map(photo => this.loadAnalysisImage(photo.uri))
+      );
+      const promptContext = AIPromptService.createPromptContext(request.quizResponses);
+      const prompt = await AIPromptService.getAnalysisPrompt(promptContext, analysisImages.length);
+      const cacheKey = await this.getCacheKey(analysisImages, prompt);
+
+      return cacheKey ? await AnalysisCacheService.hasResponse(cacheKey) : false;
+    } catch (error) {
+      console.error('Failed to look up cached analysis:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Every photo in the request, primary first, up to the per-analysis limit
+   */
+  private static getPhotos(request: WorkspaceAnalysisRequest): PhotoAsset[] {
+    return [request.photo, ...(request.additionalPhotos ?? [])]
+      .slice(0, PHOTO_VALIDATION.MAX_PHOTOS_PER_ANALYSIS);
+  }
+
+  /**
+   * Keep the photo an insight came from only when there was a choice, and only if it names a photo that was sent
+   */
+  private static attributeInsights(insights: ErgonomicInsight[], photoCount: number): ErgonomicInsight[] {
+    return insights.map(({ photoIndex, ...insight }) =>
+      photoCount > 1 && photoIndex !== undefined && photoIndex < photoCount
+        ? { ...insight, photoIndex }
+        : insight
+    );
+  }
+
+  /**
+   * Response cache key for these images, prompt and model, or undefined if any image couldn't be decoded
+   */
+  private static async getCacheKey(
+    images: (DecodedImage | undefined)[],
+    prompt: RenderedPrompt
+  ): Promise<string | undefined> {
+    const decoded = images.filter((image): image is DecodedImage => image !== undefined);
+    if (decoded.length < images.length) return undefined;
+
+    const { provider, model } = await OpenAIClientService.getProviderSettings();
+    return AnalysisCacheService.getCacheKey(decoded, prompt.text, `${provider}/${model}`);
+  }
+
+  /**
+   * Parse a cached response, dropping it if it no longer matches the schema
+   */
+  private static async getCachedAnalysis(cacheKey: string): Promise<WorkspaceAnalysisResponse | undefined> {
+    const cached = await AnalysisCacheService.getResponse(cacheKey);
+    if (!cached) return undefined;
+
+    try {
+      return AIResponseParserService.parseAnalysisResponse(cached);
+    } catch (error) {
+      console.warn('Discarding invalid cached analysis:', error);
+      await AnalysisCacheService.removeResponse(cacheKey);
+      return undefined;
+    }
+  }
 
+  /**
+   * Load the resized analysis image, or undefined if it can't be decoded
+   */
+  private static async loadAnalysisImage(imageUri: string): Promise<DecodedImage | undefined> {
+    try {
+      return await ColorExtractionService.loadAnalysisImage(imageUri);
+    } catch (error) {
+      console.error('Failed to load image for local analysis:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Measure lighting from the analysis image
+   */
+  private static analyzeLighting(image: DecodedImage | undefined): LightingAnalysis | undefined {
+    if (!image) return undefined;
+
+    try {
+      return LightingAnalysisService.analyzeImage(image);
+    } catch (error) {
+      console.error('Failed to analyze lighting:', error);
+      return undefined;
+    }
+  }
 
   /**
    * Extract color palette from analysis
    */
-  private static async extractColorPalette(
-    analysisData: any, 
-    promptContext: any, 
-    imageUri: string
-  ): Promise<ColorPalette | undefined> {
+  private static extractColorPalette(
+    analysisData: WorkspaceAnalysisResponse,
+    image: DecodedImage | undefined
+  ): ColorPalette | undefined {
     try {
       // First, try to extract colors from the actual image
-      const extractedPalette = await ColorExtractionService.extractColorPalette(imageUri, {
-        maxColors: 5,
-        quality: 10,
-        ignoreWhite: true,
-        ignoreBlack: true,
-      });
-
-      // If extraction was successful, return the extracted palette
-      if (extractedPalette && extractedPalette.colors.length > 0) {
-        return extractedPalette;
-      }
-
-      // Fallback: Try to get colors from AI analysis
-      if (analysisData.color_analysis?.dominant_colors) {
-        return {
-          id: `palette_${Date.now()}`,
-          name: 'Workspace Colors',
-          colors: analysisData.color_analysis.dominant_colors,
-          mood: analysisData.color_analysis.mood || 'focus',
-          description: analysisData.color_analysis.color_harmony || 'Current workspace color scheme',
-        };
+      if (image) {
+        const extractedPalette = ColorExtractionService.extractColorPaletteFromImage(image, {
+          maxColors: 5,
+          quality: 10,
+          ignoreWhite: true,
+          ignoreBlack: true,
+        });
+
+        // If extraction was successful, return the extracted palette
+        if (extractedPalette && extractedPalette.colors.length > 0) {
+          return extractedPalette;
+        }
       }
 
-      // No fallback - return undefined if extraction fails
-      return undefined;
+      // Fallback: use the colors from the AI analysis
+      const { dominant_colors: colors, mood, color_harmony } = analysisData.color_analysis;
+      const moodAnalysis = PaletteMoodService.analyzeHexColors(colors);
+      return {
+        id: `palette_${Date.now()}`,
+        name: 'Workspace Colors',
+        colors,
+        mood: moodAnalysis.tags.length > 0 ? moodAnalysis.mood : mood,
+        moodTags: moodAnalysis.tags,
+        description: color_harmony.trim() || moodAnalysis.description,
+      };
     } catch (error) {
       console.error('Failed to extract color palette:', error);
       return undefined;
@@ -184,10 +465,47 @@ export class AIAnalysisService {
 
 
   /**
-   * Utility function for delays
+   * Utility function for delays; rejects early if the signal aborts
+   */
+  private static delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Whether an error thrown by analyzeWorkspace means the user cancelled
+   */
+  static isCancelled(error: unknown): error is AnalysisCancelledError {
+    return typeof error === 'object' && error !== null && (error as AIAnalysisError).code === 'CANCELLED';
+  }
+
+  private static createCancelledError(responseReceived: boolean): AnalysisCancelledError {
+    return {
+      ...this.createError('CANCELLED', 'Analysis cancelled.'),
+      code: 'CANCELLED',
+      responseReceived,
+    };
+  }
+
+  /**
+   * Whether the AI backend is reachable now; replayed and synthetic responses work offline
    */
-  private static delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  static async canReachAI(): Promise<boolean> {
+    return !OpenAIClientService.requiresNetwork() || ConnectivityService.isConnected();
   }
 
   /**
@@ -201,7 +519,7 @@ export class AIAnalysisService {
    * Create AI analysis error
    */
   static createError(
-    code: AIAnalysisError['code'],
+    code: AIAnalysisErrorCode,
     message: string,
     details?: string
   ): AIAnalysisError {
@@ -209,7 +527,7 @@ export class AIAnalysisService {
       code,
       message,
       details,
-      retryable: ['NETWORK_ERROR', 'TIMEOUT_ERROR', 'API_ERROR'].includes(code),
+      retryable: RETRYABLE_ERROR_CODES.includes(code),
     };
   }
 }
@@ -1,4 +1,5 @@
 import { ErgonomicInsight } from '@/types/ai-analysis';
+import { WorkspaceAnalysisResponse } from '@/types/workspace-analysis-schema';
 
 /**
  * AI Ergonomic Insights Service
@@ -8,14 +9,14 @@ export class AIErgonomicInsightsService {
   /**
    * Process ergonomic insights from AI analysis data
    */
-  static processErgonomicInsights(analysisData: any): ErgonomicInsight[] {
+  static processErgonomicInsights(analysisData: WorkspaceAnalysisResponse): ErgonomicInsight[] {
     try {
-      if (analysisData.ergonomic_evaluation && Array.isArray(analysisData.ergonomic_evaluation)) {
-        return analysisData.ergonomic_evaluation.map((item: any) => ({
+      if (analysisData.ergonomic_evaluation.length > 0) {
+        return analysisData.ergonomic_evaluation.map(item => ({
           category: this.mapCategory(item.category) || 'organization',
           status: this.mapStatus(item.status) || 'needs-improvement',
           title: this.formatInsightTitle(item.category, item.status),
-          description: this.cleanDescription(item.observation || item.description) || 'Ergonomic assessment needed',
+          description: this.cleanDescription(item.observation) || 'Ergonomic assessment needed',
           recommendation: this.cleanRecommendation(item.recommendation),
         })).filter((insight: ErgonomicInsight) => insight.description.length > 0);
       }
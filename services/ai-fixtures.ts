@@ -0,0 +1,116 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { AIChatRequest, AIFixture, AIVisionRequest } from '@/types/ai-provider';
+import { StorageResult } from '@/types/storage';
+
+import { ContentHashService } from './content-hash';
+
+const FIXTURES_DIRECTORY_NAME = 'ai-fixtures';
+
+/**
+ * AI Fixture Service
+ * Stores recorded AI responses as JSON files named by request fingerprint
+ */
+export class AIFixtureService {
+  /**
+   * Fingerprint of what a request asks, ignoring the model and sampling settings
+   * so fixtures keep matching when those change
+   */
+  static getFingerprint(request: AIVisionRequest | AIChatRequest): string {
+    const content = 'images' in request
+      ? {
+          prompt: request.prompt,
+          images: request.images.map(image => ContentHashService.sha256(image.base64)),
+        }
+      : { messages: request.messages };
+
+    return ContentHashService.sha256(JSON.stringify({
+      ...content,
+      format: request.responseFormat?.name ?? null,
+    }));
+  }
+
+  static getFixturesDirectory(): Directory {
+    return new Directory(Paths.document, FIXTURES_DIRECTORY_NAME);
+  }
+
+  /**
+   * Get the fixture recorded for a fingerprint, or undefined if there is none
+   */
+  static async getFixture(fingerprint: string): Promise<AIFixture | undefined> {
+    try {
+      const file = new File(this.getFixturesDirectory(), `${fingerprint}.json`);
+      if (!file.exists) return undefined;
+
+      return JSON.parse(await file.text()) as AIFixture;
+    } catch (error) {
+      console.error('Failed to read AI fixture:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Save a fixture, replacing any earlier recording of the same request
+   */
+  static async saveFixture(fixture: AIFixture): Promise<StorageResult<AIFixture>> {
+    try {
+      const directory = this.getFixturesDirectory();
+      if (!directory.exists) {
+        directory.create();
+      }
+
+      const file = new File(directory, `${fixture.fingerprint}.json`);
+      if (file.exists) {
+        file.delete();
+      }
+      file.write(JSON.stringify(fixture, null, 2));
+
+      return { success: true, data: fixture };
+    } catch (error) {
+      console.error('Failed to save AI fixture:', error);
+      return { success: false, error: 'Failed to save AI fixture' };
+    }
+  }
+
+  /**
+   * All recorded fixtures, newest first
+   */
+  static async getFixtures(): Promise<StorageResult<AIFixture[]>> {
+    try {
+      const directory = this.getFixturesDirectory();
+      if (!directory.exists) {
+        return { success: true, data: [] };
+      }
+
+      const files = directory.list().filter(
+        (item): item is File => item instanceof File && item.name.endsWith('.json')
+      );
+      const fixtures: AIFixture[] = [];
+      for (const file of files) {
+        fixtures.push(JSON.parse(await file.text()));
+      }
+
+      fixtures.sort((a, b) => b.recordedAt - a.recordedAt);
+      return { success: true, data: fixtures };
+    } catch (error) {
+      console.error('Failed to list AI fixtures:', error);
+      return { success: false, error: 'Failed to load AI fixtures' };
+    }
+  }
+
+  /**
+   * Delete every recorded fixture
+   */
+  static async clearFixtures(): Promise<StorageResult<boolean>> {
+    try {
+      const directory = this.getFixturesDirectory();
+      if (directory.exists) {
+        directory.delete();
+      }
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Failed to clear AI fixtures:', error);
+      return { success: false, error: 'Failed to clear AI fixtures' };
+    }
+  }
+}
@@ -1,9 +1,126 @@
-import { AIPromptContext } from '@/types/ai-analysis';
+import {
+  AIPromptContext,
+  ERGONOMIC_CATEGORY_LABELS,
+  ErgonomicInsight,
+  WorkspaceAnalysisResult
+} from '@/types/ai-analysis';
+import { ANALYSIS_CHAT_SCHEMA } from '@/types/analysis-chat-schema';
+import { DEFAULT_PROMPT_VARIANT, RenderedPrompt } from '@/types/prompt';
 import { QuizResponse } from '@/types/quiz';
+import { ERGONOMIC_CHECK_SCHEMA, WORKSPACE_ANALYSIS_SCHEMA } from '@/types/workspace-analysis-schema';
+
+import { PromptRegistryService } from './prompt-registry';
+
+export const WORKSPACE_ANALYSIS_PROMPT = 'workspace-analysis';
+export const ANALYSIS_CHAT_PROMPT = 'analysis-chat';
+export const ERGONOMIC_CHECK_PROMPT = 'ergonomic-check';
+
+// What to look at when re-checking each category on its own
+const ERGONOMIC_CHECK_FOCUS: Record<ErgonomicInsight['category'], string> = {
+  'desk-height': 'Desk surface height relative to seated elbow height, keyboard and mouse height, and leg clearance',
+  'chair-posture': 'Chair type and adjustability, seat height, back support and the posture the setup encourages',
+  'lighting': 'Natural and artificial light sources, glare on screens, shadows on the work surface and overall brightness',
+  'screen-position': 'Monitor height relative to eye level, viewing distance, tilt, and alignment with the seating position',
+  'organization': 'Desk clutter, cable management, storage within reach and clear working space',
+};
+
+// Bump the version when editing this text in place; register another variant under the same name to A/B test a rewrite
+PromptRegistryService.register({
+  name: WORKSPACE_ANALYSIS_PROMPT,
+  version: 2,
+  variant: DEFAULT_PROMPT_VARIANT,
+  weight: 1,
+  template: `You are an expert interior designer and ergonomics specialist analyzing home office workspaces. 
+
+Your task is to analyze the uploaded workspace photo and provide comprehensive recommendations based on the user's style preferences.
+
+ANALYSIS REQUIREMENTS:
+1. Describe what you see in the workspace (furniture, layout, lighting, organization)
+2. Evaluate ergonomic factors (desk height, chair position, lighting, screen placement)
+3. Assess the current style and how it aligns with user preferences
+4. Identify improvement opportunities
+
+RESPONSE FORMAT:
+Respond with a single JSON object that matches this JSON Schema exactly:
+{{schema}}
+
+GUIDELINES:
+- Be specific and actionable in recommendations
+- Consider both aesthetics and functionality
+- Focus on realistic, achievable improvements
+- Prioritize ergonomic health and productivity
+- Keep descriptions concise but informative
+- Include only color regions you can actually see
+
+{{subject}}
+
+USER PREFERENCES:
+- Desired Vibe: {{userVibe}}
+- Color Preference: {{colorPreference}}
+- Budget Range: {{budgetRange}}
+
+Focus on how to transform this workspace to better match these preferences while maintaining functionality and ergonomic health.
+
+Provide specific, actionable recommendations that consider the user's style goals and budget constraints.`,
+});
+
+PromptRegistryService.register({
+  name: ANALYSIS_CHAT_PROMPT,
+  version: 1,
+  variant: DEFAULT_PROMPT_VARIANT,
+  weight: 1,
+  template: `You are an expert interior designer and ergonomics specialist. You already analyzed the user's home office workspace, and they have follow-up questions about your analysis.
+
+YOUR ANALYSIS:
+{{analysis}}
+
+USER PREFERENCES:
+- Desired Vibe: {{userVibe}}
+- Color Preference: {{colorPreference}}
+- Budget Range: {{budgetRange}}
+
+RESPONSE FORMAT:
+Respond with a single JSON object that matches this JSON Schema exactly:
+{{schema}}
+
+GUIDELINES:
+- Answer the question directly and keep the reply short and conversational
+- Take any constraint the user mentions, such as furniture they can't move, into account in everything you suggest
+- Only include recommendations when the user asks for different or additional products; otherwise return an empty list
+- To swap out a current recommendation, set replaces to its ID; use an empty string for an addition
+- Keep prices realistic and within the user's budget unless they ask otherwise
+- You can't see new photos; base your answers on the analysis above`,
+});
+
+PromptRegistryService.register({
+  name: ERGONOMIC_CHECK_PROMPT,
+  version: 1,
+  variant: DEFAULT_PROMPT_VARIANT,
+  weight: 1,
+  template: `You are an ergonomics specialist re-checking one aspect of a home office workspace after the user made changes.
+
+Evaluate ONLY this category: {{category}}
+Focus on: {{focus}}
+
+PREVIOUS ASSESSMENT:
+{{previous}}
+
+{{note}}
+
+RESPONSE FORMAT:
+Respond with a single JSON object that matches this JSON Schema exactly:
+{{schema}}
+
+GUIDELINES:
+- Judge the new photo on its own merits; don't carry the previous status over if the photo shows otherwise
+- Ignore every other aspect of the workspace, including style and colors
+- Keep the observation and recommendation short and specific
+- If the category can't be seen in the photo, say so in the observation and keep the previous status`,
+});
 
 /**
  * AI Prompt Engineering Service
- * Creates structured prompts for workspace analysis using GPT-4o Vision
+ * Creates structured prompts for workspace analysis with a vision model
  */
 export class AIPromptService {
   /**
@@ -41,80 +158,62 @@ export class AIPromptService {
   }
 
   /**
-   * Generate system prompt for workspace analysis
+   * Render the workspace analysis prompt variant assigned to this installation;
+   * several photos are treated as angles of the same workspace
    */
-  static getSystemPrompt(): string {
-    return `You are an expert interior designer and ergonomics specialist analyzing home office workspaces. 
-
-Your task is to analyze the uploaded workspace photo and provide comprehensive recommendations based on the user's style preferences.
-
-ANALYSIS REQUIREMENTS:
-1. Describe what you see in the workspace (furniture, layout, lighting, organization)
-2. Evaluate ergonomic factors (desk height, chair position, lighting, screen placement)
-3. Assess the current style and how it aligns with user preferences
-4. Identify improvement opportunities
-
-RESPONSE FORMAT:
-Provide your analysis as a structured JSON response with these exact fields:
-{
-  "workspace_description": "Detailed description of the current workspace",
-  "style_assessment": {
-    "current_style": "Description of current style",
-    "alignment_score": 0.8,
-    "alignment_explanation": "How well it matches user preferences"
-  },
-  "ergonomic_evaluation": [
-    {
-      "category": "desk-height|chair-posture|lighting|screen-position|organization",
-      "status": "good|needs-improvement|poor",
-      "observation": "What you observe",
-      "recommendation": "Specific improvement suggestion"
-    }
-  ],
-  "improvement_priorities": [
-    "Priority 1: Most important improvement",
-    "Priority 2: Secondary improvement",
-    "Priority 3: Nice-to-have enhancement"
-  ],
-  "color_analysis": {
-    "dominant_colors": ["#hex1", "#hex2", "#hex3"],
-    "mood": "focus|creativity|calm|energizing",
-    "color_harmony": "Assessment of current color scheme"
-  },
-  "product_needs": {
-    "required_categories": ["desk", "chair", "lighting", "storage", "decor", "tech"],
-    "priority_items": [
-      {
-        "category": "lighting",
-        "reason": "Why this specific category is needed",
-        "urgency": "high|medium|low"
-      }
-    ]
+  static async getAnalysisPrompt(context: AIPromptContext, photoCount = 1): Promise<RenderedPrompt> {
+    const subject = photoCount > 1
+      ? `These ${photoCount} photos show the same home office workspace from different angles. Please analyze them together as one workspace and provide recommendations.
+
+PHOTOS:
+- Photos are numbered in the order given, starting at 1
+- Set each ergonomic observation's photo to the number of the photo it is based on
+- Locate color regions in photo 1 only`
+      : 'Please analyze this home office workspace photo and provide recommendations.';
+
+    return PromptRegistryService.resolve(WORKSPACE_ANALYSIS_PROMPT, {
+      schema: JSON.stringify(WORKSPACE_ANALYSIS_SCHEMA),
+      subject,
+      userVibe: context.userVibe,
+      colorPreference: context.colorPreference,
+      budgetRange: context.budgetRange,
+    });
   }
-}
 
-GUIDELINES:
-- Be specific and actionable in recommendations
-- Consider both aesthetics and functionality
-- Focus on realistic, achievable improvements
-- Prioritize ergonomic health and productivity
-- Keep descriptions concise but informative`;
+  /**
+   * Render the system prompt for a follow-up conversation, seeded with what the analysis found
+   */
+  static async getChatPrompt(result: WorkspaceAnalysisResult, context: AIPromptContext): Promise<RenderedPrompt> {
+    return PromptRegistryService.resolve(ANALYSIS_CHAT_PROMPT, {
+      schema: JSON.stringify(ANALYSIS_CHAT_SCHEMA),
+      analysis: this.describeAnalysis(result),
+      userVibe: context.userVibe,
+      colorPreference: context.colorPreference,
+      budgetRange: context.budgetRange,
+    });
   }
 
   /**
-   * Generate user prompt with context
+   * Render the prompt for re-checking a single ergonomic category against a new photo
    */
-  static getUserPrompt(context: AIPromptContext): string {
-    return `Please analyze this home office workspace photo and provide recommendations.
-
-USER PREFERENCES:
-- Desired Vibe: ${context.userVibe}
-- Color Preference: ${context.colorPreference}
-- Budget Range: ${context.budgetRange}
-
-Focus on how to transform this workspace to better match these preferences while maintaining functionality and ergonomic health.
-
-Provide specific, actionable recommendations that consider the user's style goals and budget constraints.`;
+  static async getErgonomicCheckPrompt(
+    category: ErgonomicInsight['category'],
+    previous: ErgonomicInsight | undefined,
+    note?: string
+  ): Promise<RenderedPrompt> {
+    const previousText = previous
+      ? `Status: ${previous.status}\nObservation: ${previous.description}${previous.recommendation ? `\nRecommendation: ${previous.recommendation}` : ''}`
+      : 'None; this category was not assessed before.';
+
+    return PromptRegistryService.resolve(ERGONOMIC_CHECK_PROMPT, {
+      schema: JSON.stringify(ERGONOMIC_CHECK_SCHEMA),
+      category: ERGONOMIC_CATEGORY_LABELS[category],
+      focus: ERGONOMIC_CHECK_FOCUS[category],
+      previous: previousText,
+      note: note?.trim()
+        ? `WHAT THE USER CHANGED:\n${note.trim()}`
+        : 'The user did not say what they changed.',
+    });
   }
 
   /**
@@ -150,18 +249,6 @@ For each recommendation, specify:
 Focus on the most impactful improvements first.`;
   }
 
-  /**
-   * Create a comprehensive analysis prompt combining all elements
-   */
-  static getComprehensivePrompt(context: AIPromptContext): string {
-    const systemPrompt = this.getSystemPrompt();
-    const userPrompt = this.getUserPrompt(context);
-
-    return `${systemPrompt}
-
-${userPrompt}`;
-  }
-
   /**
    * Generate error recovery prompt for failed analyses
    */
@@ -177,132 +264,45 @@ Keep recommendations practical and widely applicable to most home office setups.
   }
 
   /**
-   * Validate and clean AI response
+   * Plain-text digest of an analysis result for seeding a conversation
    */
-  static validateResponse(response: string): { isValid: boolean; data?: any; error?: string } {
-    try {
-      // Try to parse as JSON first
-      const parsed = JSON.parse(response);
-      
-      // Check for required fields
-      const requiredFields = [
-        'workspace_description',
-        'style_assessment',
-        'ergonomic_evaluation',
-        'improvement_priorities',
-        'color_analysis'
-      ];
-
-      const missingFields = requiredFields.filter(field => !parsed[field]);
-      
-      if (missingFields.length > 0) {
-        return {
-          isValid: false,
-          error: `Missing required fields: ${missingFields.join(', ')}`
-        };
-      }
-
-      return { isValid: true, data: parsed };
-    } catch (error) {
-      // If not JSON, try to extract structured information from text
-      return this.extractStructuredData(response);
-    }
-  }
+  private static describeAnalysis(result: WorkspaceAnalysisResult): string {
+    const photoCount = result.photoUris?.length ?? 1;
+    const lines = [
+      `Summary: ${result.summary}`,
+      `Photos: ${photoCount === 1 ? '1 photo' : `${photoCount} photos of the same workspace, numbered from 1`}`,
+      `Current style: ${result.styleMatch.vibe} (${Math.round(result.styleMatch.confidence * 100)}% match with the desired vibe) - ${result.styleMatch.explanation}`,
+    ];
 
-  /**
-   * Extract structured data from unstructured AI response
-   */
-  private static extractStructuredData(response: string): { isValid: boolean; data?: any; error?: string } {
-    try {
-      // Fallback: create structured response from text analysis
-      const data = {
-        workspace_description: this.extractSection(response, 'workspace|description|current'),
-        style_assessment: {
-          current_style: this.extractSection(response, 'style|aesthetic'),
-          alignment_score: 0.7, // Default moderate alignment
-          alignment_explanation: this.extractSection(response, 'alignment|match|preference')
-        },
-        ergonomic_evaluation: this.extractErgonomicPoints(response),
-        improvement_priorities: this.extractPriorities(response),
-        color_analysis: {
-          dominant_colors: ['#F5F5F5', '#E0E0E0', '#D0D0D0'], // Default neutral
-          mood: 'focus',
-          color_harmony: this.extractSection(response, 'color|palette')
-        }
-      };
-
-      return { isValid: true, data };
-    } catch (error) {
-      return {
-        isValid: false,
-        error: 'Unable to parse AI response into structured format'
-      };
+    if (result.ergonomicInsights.length > 0) {
+      lines.push('Ergonomic observations:');
+      result.ergonomicInsights.forEach(insight => {
+        const photo = photoCount > 1 && insight.photoIndex !== undefined ? ` [photo ${insight.photoIndex + 1}]` : '';
+        const advice = insight.recommendation ? ` Advice: ${insight.recommendation}` : '';
+        lines.push(`- ${insight.title} (${insight.status})${photo}: ${insight.description}${advice}`);
+      });
     }
-  }
 
-  /**
-   * Extract text sections using keywords
-   */
-  private static extractSection(text: string, keywords: string): string {
-    const keywordList = keywords.split('|');
-    const sentences = text.split(/[.!?]+/);
-    
-    for (const sentence of sentences) {
-      if (keywordList.some(keyword => 
-        sentence.toLowerCase().includes(keyword.toLowerCase())
-      )) {
-        return sentence.trim();
-      }
+    if (result.lightingAnalysis) {
+      const lighting = result.lightingAnalysis;
+      lines.push(
+        `Measured lighting: about ${Math.round(lighting.estimatedLux)} lux, ${lighting.temperatureBand} (${Math.round(lighting.colorTemperature)}K)`
+      );
     }
-    
-    return 'Analysis not available';
-  }
 
-  /**
-   * Extract ergonomic evaluation points
-   */
-  private static extractErgonomicPoints(text: string): any[] {
-    const categories = ['desk', 'chair', 'lighting', 'screen', 'organization'];
-    const points = [];
-
-    for (const category of categories) {
-      const section = this.extractSection(text, category);
-      if (section && section !== 'Analysis not available') {
-        points.push({
-          category: `${category}-position`,
-          status: 'needs-improvement',
-          observation: section,
-          recommendation: `Consider improving ${category} setup`
-        });
-      }
+    if (result.colorPalette) {
+      lines.push(`Room colors: ${result.colorPalette.colors.join(', ')} (${result.colorPalette.mood} mood)`);
     }
 
-    return points.length > 0 ? points : [{
-      category: 'general',
-      status: 'needs-improvement',
-      observation: 'General workspace assessment needed',
-      recommendation: 'Consider ergonomic improvements for better comfort'
-    }];
-  }
-
-  /**
-   * Extract improvement priorities
-   */
-  private static extractPriorities(text: string): string[] {
-    const priorities = [];
-    const lines = text.split('\n');
-    
-    for (const line of lines) {
-      if (line.match(/^\d+\.|\-|\*/) && line.length > 10) {
-        priorities.push(line.replace(/^\d+\.|\-|\*/, '').trim());
-        if (priorities.length >= 3) break;
-      }
+    if (result.recommendations.length > 0) {
+      lines.push('Current recommendations:');
+      result.recommendations.forEach(recommendation => {
+        lines.push(
+          `- [${recommendation.id}] ${recommendation.name} (${recommendation.category}, $${recommendation.price.min}-$${recommendation.price.max}): ${recommendation.description}`
+        );
+      });
     }
 
-    return priorities.length > 0 ? priorities : [
-      'Improve ergonomic setup',
-      'Enhance lighting conditions',
-      'Optimize workspace organization'
-    ];
+    return lines.join('\n');
   }
 }
@@ -0,0 +1,276 @@
+import { fetch as expoFetch, FetchRequestInit } from 'expo/fetch';
+
+import { AIChatRequest, AIProvider, AIVisionRequest } from '@/types/ai-provider';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// HTTP status for each error type, for errors that arrive mid-stream after a 200
+const ERROR_TYPE_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseUrl: string;
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessagesResponse {
+  content?: { type: string; text?: string; input?: unknown }[];
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: AnthropicUsage }; // message_start
+  delta?: { type: string; text?: string; partial_json?: string };
+  usage?: AnthropicUsage; // message_delta, with the running output count
+  error?: { type?: string; message?: string };
+}
+
+interface AnthropicModelsResponse {
+  data?: { id: string }[];
+  has_more?: boolean;
+  last_id?: string;
+}
+
+/**
+ * Anthropic Messages API adapter
+ * Uses fetch directly since the SDK isn't bundled with the app
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly id = 'anthropic' as const;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async analyzeImage(request: AIVisionRequest): Promise<string> {
+    return this.createMessage(request, undefined, this.getVisionMessages(request));
+  }
+
+  async streamImageAnalysis(
+    request: AIVisionRequest,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const response = await this.send('/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({
+        ...this.getMessageBody(request, undefined, this.getVisionMessages(request)),
+        stream: true,
+      }),
+      signal: request.signal,
+    });
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this network stack');
+    }
+
+    // Server-sent events; tool input arrives as JSON fragments, plain replies as text
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let usage: AnthropicUsage = {};
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const event: AnthropicStreamEvent = JSON.parse(line.slice(5).trim());
+      if (event.type === 'error') {
+        throw Object.assign(
+          new Error(`Anthropic API error: ${event.error?.message || 'Stream failed'}`),
+          { status: ERROR_TYPE_STATUS[event.error?.type ?? ''] ?? 500 }
+        );
+      }
+      // Input tokens are counted when the message starts, output tokens as it ends
+      if (event.type === 'message_start' || event.type === 'message_delta') {
+        usage = { ...usage, ...event.message?.usage, ...event.usage };
+      }
+      const delta = event.type === 'content_block_delta'
+        ? event.delta?.partial_json ?? event.delta?.text
+        : undefined;
+      if (delta) {
+        content += delta;
+        onText(delta);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+    this.reportUsage(request, usage);
+
+    if (!content) {
+      throw new Error('No response from AI analysis');
+    }
+    return content;
+  }
+
+  async chat(request: AIChatRequest): Promise<string> {
+    // System prompts are a top-level field rather than a message role
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages: AnthropicMessage[] = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role as AnthropicMessage['role'], content: message.content }));
+
+    return this.createMessage(request, system || undefined, messages);
+  }
+
+  async listModels(): Promise<string[]> {
+    const models: string[] = [];
+    let afterId: string | undefined;
+
+    do {
+      const query = afterId ? `?limit=100&after_id=${encodeURIComponent(afterId)}` : '?limit=100';
+      const page = await this.request<AnthropicModelsResponse>(`/v1/models${query}`, { method: 'GET' });
+      models.push(...(page.data ?? []).map(model => model.id));
+      afterId = page.has_more ? page.last_id : undefined;
+    } while (afterId);
+
+    return models.sort();
+  }
+
+  private async createMessage(
+    request: AIChatRequest | AIVisionRequest,
+    system: string | undefined,
+    messages: AnthropicMessage[]
+  ): Promise<string> {
+    const response = await this.request<AnthropicMessagesResponse>('/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify(this.getMessageBody(request, system, messages)),
+      signal: request.signal,
+    });
+    this.reportUsage(request, response.usage);
+
+    const blocks = response.content ?? [];
+    if (request.responseFormat) {
+      const toolUse = blocks.find(block => block.type === 'tool_use');
+      if (!toolUse || toolUse.input === undefined) {
+        throw new Error('No response from AI analysis');
+      }
+      return JSON.stringify(toolUse.input);
+    }
+
+    const text = blocks
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('');
+    if (!text) {
+      throw new Error('No response from AI analysis');
+    }
+    return text;
+  }
+
+  private reportUsage(request: AIChatRequest | AIVisionRequest, usage: AnthropicUsage | undefined): void {
+    if (usage?.input_tokens === undefined && usage?.output_tokens === undefined) return;
+    request.onUsage?.({
+      promptTokens: usage.input_tokens ?? 0,
+      completionTokens: usage.output_tokens ?? 0,
+    });
+  }
+
+  private getVisionMessages(request: AIVisionRequest): AnthropicMessage[] {
+    return [
+      {
+        role: 'user',
+        content: [
+          // Label each image so the prompt and response can refer to photos by number
+          ...request.images.flatMap((image, index): AnthropicContentBlock[] => [
+            { type: 'text', text: `Photo ${index + 1}:` },
+            {
+              type: 'image',
+              source: { type: 'base64', media_type: image.mimeType, data: image.base64 },
+            },
+          ]),
+          { type: 'text', text: request.prompt },
+        ],
+      },
+    ];
+  }
+
+  private getMessageBody(
+    request: AIChatRequest | AIVisionRequest,
+    system: string | undefined,
+    messages: AnthropicMessage[]
+  ): Record<string, unknown> {
+    // Structured output is done by forcing a single tool call whose input schema is the contract
+    const format = request.responseFormat;
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      ...(format
+        ? {
+            tools: [{ name: format.name, description: format.description, input_schema: format.schema }],
+            tool_choice: { type: 'tool', name: format.name },
+          }
+        : {}),
+      messages,
+    };
+  }
+
+  private async request<T>(path: string, init: FetchRequestInit): Promise<T> {
+    const response = await this.send(path, init);
+    return response.json();
+  }
+
+  /**
+   * Send a request through Expo's fetch, which can stream response bodies
+   */
+  private async send(path: string, init: FetchRequestInit): Promise<Response> {
+    const response = await expoFetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        // Needed because requests come straight from the app rather than a server
+        'anthropic-dangerous-direct-browser-access': 'true',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const message = errorData?.error?.message || response.statusText || 'Request failed';
+      // Status and headers let callers classify the failure and honor Retry-After
+      throw Object.assign(
+        new Error(`Anthropic API error (${response.status}): ${message}`),
+        { status: response.status, headers: response.headers }
+      );
+    }
+
+    return response;
+  }
+}
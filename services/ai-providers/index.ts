@@ -0,0 +1,28 @@
+import { AI_PROVIDERS, AIProvider, AIProviderSettings } from '@/types/ai-provider';
+
+import { AnthropicProvider } from './anthropic-provider';
+import { OpenAIProvider } from './openai-provider';
+
+export { AnthropicProvider } from './anthropic-provider';
+export { OpenAIProvider } from './openai-provider';
+export { RecordingProvider } from './recording-provider';
+export { ReplayProvider } from './replay-provider';
+export { SyntheticProvider } from './synthetic-provider';
+
+/**
+ * Create the adapter for the selected provider
+ */
+export function createAIProvider(settings: AIProviderSettings, apiKey: string): AIProvider {
+  const baseUrl = settings.baseUrl || AI_PROVIDERS[settings.provider].defaultBaseUrl;
+
+  switch (settings.provider) {
+    case 'anthropic':
+      return new AnthropicProvider({ apiKey, baseUrl: baseUrl ?? '' });
+    case 'openai-compatible':
+      // Local servers usually ignore the key, but the SDK requires one
+      return new OpenAIProvider('openai-compatible', { apiKey: apiKey || 'not-needed', baseUrl });
+    case 'openai':
+    default:
+      return new OpenAIProvider('openai', { apiKey, baseUrl });
+  }
+}
@@ -0,0 +1,159 @@
+import { fetch as expoFetch, FetchRequestInit } from 'expo/fetch';
+import OpenAI from 'openai';
+
+import { AIChatRequest, AIGenerationOptions, AIProvider, AIProviderId, AIVisionRequest } from '@/types/ai-provider';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+/**
+ * React Native's built-in fetch buffers whole responses, so streaming goes through Expo's fetch
+ */
+function streamingFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  return expoFetch(url, init as FetchRequestInit);
+}
+
+/**
+ * OpenAI chat completions adapter
+ * Also serves OpenAI-compatible servers (Ollama, llama.cpp, vLLM) through a custom base URL
+ */
+export class OpenAIProvider implements AIProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly id: Extract<AIProviderId, 'openai' | 'openai-compatible'>,
+    options: OpenAIProviderOptions
+  ) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseUrl,
+      fetch: streamingFetch,
+      maxRetries: 0, // Retries are up to the caller, which honors Retry-After and a circuit breaker
+      dangerouslyAllowBrowser: true, // Required for React Native/Expo
+    });
+  }
+
+  async analyzeImage(request: AIVisionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create(
+      this.getVisionParams(request),
+      { signal: request.signal }
+    );
+    this.reportUsage(request, response.usage);
+    return this.getContent(response);
+  }
+
+  async streamImageAnalysis(
+    request: AIVisionRequest,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        ...this.getVisionParams(request),
+        stream: true,
+        // Usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+      },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onText(delta);
+      }
+      this.reportUsage(request, chunk.usage);
+    }
+
+    if (!content) {
+      throw new Error('No response from AI analysis');
+    }
+    return content;
+  }
+
+  async chat(request: AIChatRequest): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: this.getResponseFormat(request),
+      messages: request.messages,
+    }, { signal: request.signal });
+
+    this.reportUsage(request, response.usage);
+    return this.getContent(response);
+  }
+
+  async listModels(): Promise<string[]> {
+    const page = await this.client.models.list();
+    return page.data.map(model => model.id).sort();
+  }
+
+  private getVisionParams(
+    request: AIVisionRequest
+  ): OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: this.getResponseFormat(request),
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: request.prompt,
+            },
+            // Label each image so the prompt and response can refer to photos by number
+            ...request.images.flatMap((image, index): OpenAI.Chat.Completions.ChatCompletionContentPart[] => [
+              { type: 'text', text: `Photo ${index + 1}:` },
+              {
+                type: 'image_url',
+                image_url: {
+                  url: `data:${image.mimeType};base64,${image.base64}`,
+                  detail: 'high',
+                },
+              },
+            ]),
+          ],
+        },
+      ],
+    };
+  }
+
+  private getResponseFormat(
+    request: AIGenerationOptions
+  ): OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+    if (!request.responseFormat) return undefined;
+
+    const { name, description, schema } = request.responseFormat;
+    return {
+      type: 'json_schema',
+      json_schema: { name, description, schema, strict: true },
+    };
+  }
+
+  private reportUsage(
+    request: AIGenerationOptions,
+    usage: OpenAI.Completions.CompletionUsage | null | undefined
+  ): void {
+    if (!usage) return;
+    request.onUsage?.({
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+    });
+  }
+
+  private getContent(response: OpenAI.Chat.Completions.ChatCompletion): string {
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No response from AI analysis');
+    }
+    return content;
+  }
+}
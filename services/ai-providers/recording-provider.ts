@@ -0,0 +1,61 @@
+import { AIChatRequest, AIFixture, AIProvider, AIProviderId, AIVisionRequest } from '@/types/ai-provider';
+
+import { AIFixtureService } from '../ai-fixtures';
+
+/**
+ * Passes calls through to a live provider and saves each prompt/response pair as a fixture for replay
+ */
+export class RecordingProvider implements AIProvider {
+  readonly id: AIProviderId;
+
+  constructor(private inner: AIProvider) {
+    this.id = inner.id;
+  }
+
+  async analyzeImage(request: AIVisionRequest): Promise<string> {
+    const response = await this.inner.analyzeImage(request);
+    await this.record('vision', request, request.prompt, response);
+    return response;
+  }
+
+  async streamImageAnalysis(
+    request: AIVisionRequest,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const response = await this.inner.streamImageAnalysis(request, onText);
+    await this.record('vision', request, request.prompt, response);
+    return response;
+  }
+
+  async chat(request: AIChatRequest): Promise<string> {
+    const response = await this.inner.chat(request);
+    const prompt = request.messages[request.messages.length - 1]?.content ?? '';
+    await this.record('chat', request, prompt, response);
+    return response;
+  }
+
+  listModels(): Promise<string[]> {
+    return this.inner.listModels();
+  }
+
+  private async record(
+    kind: AIFixture['kind'],
+    request: AIVisionRequest | AIChatRequest,
+    prompt: string,
+    response: string
+  ): Promise<void> {
+    // Responses that fail validation are recorded too, so failures can be replayed
+    const result = await AIFixtureService.saveFixture({
+      fingerprint: AIFixtureService.getFingerprint(request),
+      kind,
+      provider: this.id,
+      model: request.model,
+      prompt,
+      response,
+      recordedAt: Date.now(),
+    });
+    if (!result.success) {
+      console.warn('AI response was not recorded:', result.error);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { AIChatRequest, AIFixture, AIProvider, AIProviderId, AIVisionRequest } from '@/types/ai-provider';
+
+import { AIFixtureService } from '../ai-fixtures';
+
+export interface ReplayProviderOptions {
+  fixtures?: AIFixture[]; // Served before anything recorded on the device
+  chunkSize: number; // Characters per streamed delta
+}
+
+/**
+ * Feed a finished response to a stream callback in small pieces, like a live provider would
+ */
+export async function streamText(
+  text: string,
+  chunkSize: number,
+  onText: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    // Yield between chunks so progress updates render and cancellation can land
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+    onText(text.slice(offset, offset + chunkSize));
+  }
+}
+
+/**
+ * Serves recorded responses by request fingerprint, so analyses run without a network or API key
+ */
+export class ReplayProvider implements AIProvider {
+  private fixtures: Map<string, AIFixture>;
+  private chunkSize: number;
+
+  constructor(
+    readonly id: AIProviderId,
+    options: ReplayProviderOptions
+  ) {
+    this.fixtures = new Map((options.fixtures ?? []).map(fixture => [fixture.fingerprint, fixture]));
+    this.chunkSize = options.chunkSize;
+  }
+
+  async analyzeImage(request: AIVisionRequest): Promise<string> {
+    return this.getResponse(request);
+  }
+
+  async streamImageAnalysis(
+    request: AIVisionRequest,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const response = await this.getResponse(request);
+    await streamText(response, this.chunkSize, onText, request.signal);
+    return response;
+  }
+
+  async chat(request: AIChatRequest): Promise<string> {
+    return this.getResponse(request);
+  }
+
+  async listModels(): Promise<string[]> {
+    const recorded = await AIFixtureService.getFixtures();
+    const models = [...this.fixtures.values(), ...(recorded.data ?? [])].map(fixture => fixture.model);
+    return [...new Set(models)].sort();
+  }
+
+  private async getResponse(request: AIVisionRequest | AIChatRequest): Promise<string> {
+    if (request.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    const fingerprint = AIFixtureService.getFingerprint(request);
+    const fixture = this.fixtures.get(fingerprint) ?? await AIFixtureService.getFixture(fingerprint);
+    if (!fixture) {
+      throw new Error(
+        `No recorded AI response for this request (fingerprint ${fingerprint.slice(0, 12)}). ` +
+        'Record one with EXPO_PUBLIC_AI_REPLAY_MODE=record.'
+      );
+    }
+    return fixture.response;
+  }
+}
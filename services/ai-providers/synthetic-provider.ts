@@ -0,0 +1,53 @@
+import {
+  AIChatRequest,
+  AIProvider,
+  AIProviderId,
+  AIVisionRequest,
+  SyntheticResponseOptions,
+} from '@/types/ai-provider';
+
+import { AIFixtureService } from '../ai-fixtures';
+import { SyntheticResponseService } from '../synthetic-response';
+import { streamText } from './replay-provider';
+
+/**
+ * Answers every request with a generated response that follows the requested schema,
+ * optionally with a deliberate defect, so the pipeline runs with no network or recordings
+ */
+export class SyntheticProvider implements AIProvider {
+  constructor(
+    readonly id: AIProviderId,
+    private options: SyntheticResponseOptions
+  ) {}
+
+  async analyzeImage(request: AIVisionRequest): Promise<string> {
+    return this.generate(request);
+  }
+
+  async streamImageAnalysis(
+    request: AIVisionRequest,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const response = this.generate(request);
+    await streamText(response, this.options.chunkSize, onText, request.signal);
+    return response;
+  }
+
+  async chat(request: AIChatRequest): Promise<string> {
+    return this.generate(request);
+  }
+
+  async listModels(): Promise<string[]> {
+    return ['synthetic'];
+  }
+
+  private generate(request: AIVisionRequest | AIChatRequest): string {
+    if (request.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    // Vary the response by request so different photos and prompts don't all get the same answer
+    const requestSeed = parseInt(AIFixtureService.getFingerprint(request).slice(0, 8), 16);
+    return SyntheticResponseService.generate(request.responseFormat, this.options, requestSeed);
+  }
+}
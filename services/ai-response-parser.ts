@@ -1,191 +1,113 @@
+import { AnalysisPreview, ErgonomicInsight, ImageRegion } from '@/types/ai-analysis';
+import { ANALYSIS_CHAT_SCHEMA, AnalysisChatResponse } from '@/types/analysis-chat-schema';
+import {
+  ERGONOMIC_CHECK_SCHEMA,
+  ErgonomicCheckResponse,
+  WORKSPACE_ANALYSIS_SCHEMA,
+  WorkspaceAnalysisResponse,
+} from '@/types/workspace-analysis-schema';
+
+import { PartialJsonParser } from './partial-json';
+import { SchemaValidationService } from './schema-validation';
+
+// Regions smaller than this (as a fraction of either side) are too small to sample
+const MIN_REGION_SIZE = 0.02;
+
 /**
  * AI Response Parser Service
- * Handles parsing, cleaning, and structuring AI responses
+ * Parses AI responses and validates them against the workspace analysis schema
  */
 export class AIResponseParserService {
   /**
-   * Parse unstructured AI response as fallback
+   * Parse a structured-output response, throwing with field-level details if it breaks the contract
    */
-  static parseUnstructuredResponse(content: string): any {
-    return {
-      workspace_description: content.substring(0, 200) + '...',
-      style_assessment: {
-        current_style: 'Modern workspace',
-        alignment_score: 0.7,
-        alignment_explanation: 'Good potential for improvement',
-      },
-      ergonomic_evaluation: [],
-      improvement_priorities: ['Enhance ergonomics', 'Improve organization', 'Add personal touches'],
-      color_analysis: {
-        dominant_colors: ['#F5F5F5', '#E0E0E0', '#D0D0D0'],
-        mood: 'focus',
-        color_harmony: 'Neutral color scheme',
-      },
-    };
+  static parseAnalysisResponse(aiContent: string): WorkspaceAnalysisResponse {
+    return SchemaValidationService.assertValid(this.parseJson(aiContent), WORKSPACE_ANALYSIS_SCHEMA, 'AI response');
   }
 
   /**
-   * Clean and sanitize analysis data to remove JSON formatting
+   * Parse a focused re-check of one ergonomic category, throwing if it breaks the contract
    */
-  static cleanAnalysisData(data: any): any {
-    if (!data || typeof data !== 'object') {
-      return data;
-    }
-
-    const cleaned = { ...data };
-
-    // Clean workspace description
-    if (cleaned.workspace_description) {
-      cleaned.workspace_description = this.cleanText(cleaned.workspace_description);
-    }
-
-    // Clean style assessment
-    if (cleaned.style_assessment) {
-      cleaned.style_assessment = {
-        ...cleaned.style_assessment,
-        current_style: this.cleanText(cleaned.style_assessment.current_style),
-        alignment_explanation: this.cleanText(cleaned.style_assessment.alignment_explanation)
-      };
-    }
-
-    // Clean ergonomic evaluation
-    if (cleaned.ergonomic_evaluation && Array.isArray(cleaned.ergonomic_evaluation)) {
-      cleaned.ergonomic_evaluation = cleaned.ergonomic_evaluation.map((evaluation: any) => ({
-        ...evaluation,
-        observation: this.cleanText(evaluation.observation) || this.cleanText(evaluation.description) || 'Assessment in progress',
-        recommendation: this.cleanText(evaluation.recommendation) || 'Consider ergonomic improvements'
-      })).filter((evaluation: any) => evaluation.category); // Remove invalid entries
-    }
-
-    // Clean improvement priorities
-    if (cleaned.improvement_priorities && Array.isArray(cleaned.improvement_priorities)) {
-      cleaned.improvement_priorities = cleaned.improvement_priorities.map((priority: string) => 
-        this.cleanText(priority)
-      );
-    }
-
-    return cleaned;
+  static parseErgonomicCheckResponse(aiContent: string): ErgonomicCheckResponse {
+    return SchemaValidationService.assertValid(this.parseJson(aiContent), ERGONOMIC_CHECK_SCHEMA, 'AI ergonomic check');
   }
 
   /**
-   * Clean text by removing JSON formatting, quotes, and other artifacts
+   * Parse a follow-up chat reply, throwing if it breaks the chat contract
    */
-  static cleanText(text: string | undefined | null): string {
-    if (!text || typeof text !== 'string') {
-      return '';
-    }
-
-    let cleaned = text;
+  static parseChatResponse(aiContent: string): AnalysisChatResponse {
+    return SchemaValidationService.assertValid(this.parseJson(aiContent), ANALYSIS_CHAT_SCHEMA, 'AI chat reply');
+  }
 
-    // Remove JSON code blocks
-    cleaned = cleaned.replace(/```json\s*/gi, '');
-    cleaned = cleaned.replace(/```\s*/g, '');
-    
-    // Remove JSON object/array wrappers if the entire string is wrapped
-    cleaned = cleaned.replace(/^\s*{\s*"[^"]*"\s*:\s*"([^"]*)".*}\s*$/s, '$1');
-    cleaned = cleaned.replace(/^\s*{\s*([^}]*)\s*}\s*$/s, '$1');
-    cleaned = cleaned.replace(/^\s*\[\s*([^\]]*)\s*\]\s*$/s, '$1');
-    
-    // Remove JSON field prefixes (e.g., "field_name": "value" -> "value")
-    cleaned = cleaned.replace(/^[^:]*:\s*"([^"]*)".*$/s, '$1');
-    cleaned = cleaned.replace(/^[^:]*:\s*([^,}]*).*$/s, '$1');
-    
-    // Remove surrounding quotes
-    cleaned = cleaned.replace(/^["']|["']$/g, '');
-    
-    // Unescape JSON characters
-    cleaned = cleaned.replace(/\\"/g, '"');
-    cleaned = cleaned.replace(/\\n/g, ' ');
-    cleaned = cleaned.replace(/\\t/g, ' ');
-    cleaned = cleaned.replace(/\\r/g, '');
-    cleaned = cleaned.replace(/\\\\/g, '\\');
-    
-    // Remove trailing commas and other JSON artifacts
-    cleaned = cleaned.replace(/,\s*$/, '');
-    cleaned = cleaned.replace(/^\s*,/, '');
-    cleaned = cleaned.replace(/[{}[\]]/g, '');
-    
-    // Clean up specific patterns from the logs
-    cleaned = cleaned.replace(/^"category":\s*"[^"]*",?\s*/i, '');
-    cleaned = cleaned.replace(/^"status":\s*"[^"]*",?\s*/i, '');
-    cleaned = cleaned.replace(/^"observation":\s*"([^"]*)".*$/i, '$1');
-    cleaned = cleaned.replace(/^"recommendation":\s*"([^"]*)".*$/i, '$1');
-    
-    // Remove any remaining JSON-like patterns
-    cleaned = cleaned.replace(/"[^"]*":\s*/g, '');
-    cleaned = cleaned.replace(/"\s*,?\s*$/g, '');
-    cleaned = cleaned.replace(/^[^a-zA-Z0-9]*/, ''); // Remove leading non-alphanumeric
-    
-    // Clean up whitespace
-    cleaned = cleaned.replace(/\s+/g, ' ');
-    cleaned = cleaned.trim();
-    
-    // If the result is empty, too short, or just punctuation, return empty string
-    if (!cleaned || cleaned.length < 3 || /^[^\w]*$/.test(cleaned)) {
-      return '';
-    }
+  /**
+   * Pull the sections that have arrived so far out of a response that is still streaming
+   */
+  static parsePartialAnalysis(partialContent: string): AnalysisPreview | undefined {
+    const parsed = PartialJsonParser.parse(partialContent);
+    if (!parsed || !this.isRecord(parsed.value)) return undefined;
 
-    // Capitalize first letter if it's a sentence
-    if (cleaned.length > 0 && /^[a-z]/.test(cleaned)) {
-      cleaned = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
-    }
+    const data = parsed.value;
+    const keys = Object.keys(data);
+    const { ergonomic_evaluation: items, color_analysis: colorAnalysis } = WORKSPACE_ANALYSIS_SCHEMA.properties;
+    const style = this.isRecord(data.style_assessment) ? data.style_assessment.current_style : undefined;
+    const colors = this.isRecord(data.color_analysis) ? data.color_analysis.dominant_colors : undefined;
 
-    return cleaned;
+    return {
+      summary: typeof data.workspace_description === 'string' ? data.workspace_description : undefined,
+      style: typeof style === 'string' ? style : undefined,
+      ergonomicItems: Array.isArray(data.ergonomic_evaluation)
+        ? data.ergonomic_evaluation.flatMap(item =>
+            this.isRecord(item) &&
+            (items.items.properties.category.enum as readonly unknown[]).includes(item.category) &&
+            (items.items.properties.status.enum as readonly unknown[]).includes(item.status)
+              ? [{
+                  category: item.category as ErgonomicInsight['category'],
+                  status: item.status as ErgonomicInsight['status'],
+                  description: typeof item.observation === 'string' ? item.observation : '',
+                }]
+              : []
+          )
+        : [],
+      colors: Array.isArray(colors)
+        ? colors.filter((color): color is string =>
+            typeof color === 'string' &&
+            new RegExp(colorAnalysis.properties.dominant_colors.items.pattern).test(color)
+          )
+        : [],
+      // The last key may still be streaming until the document closes
+      completedSections: parsed.complete ? keys : keys.slice(0, -1),
+    };
   }
 
   /**
-   * Extract structured data from AI response with fallback parsing
+   * Convert the AI's color regions to image bounds
    */
-  static extractStructuredData(aiContent: string): any {
-    try {
-      // Try to parse as JSON first
-      const jsonMatch = aiContent.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[1]);
-      }
-
-      // Try to find JSON object in the response
-      const objectMatch = aiContent.match(/\{[\s\S]*\}/);
-      if (objectMatch) {
-        return JSON.parse(objectMatch[0]);
+  static extractImageRegions(data: WorkspaceAnalysisResponse): ImageRegion[] {
+    return data.color_analysis.regions.flatMap(({ label, box }): ImageRegion[] => {
+      // Keep boxes inside the image and drop those too small to sample
+      const [x, y] = box;
+      const width = Math.min(1 - x, box[2]);
+      const height = Math.min(1 - y, box[3]);
+      if (width < MIN_REGION_SIZE || height < MIN_REGION_SIZE) {
+        return [];
       }
 
-      // Fallback to unstructured parsing
-      return this.parseUnstructuredResponse(aiContent);
-    } catch (error) {
-      console.warn('Failed to parse structured data from AI response:', error);
-      return this.parseUnstructuredResponse(aiContent);
-    }
+      return [{ label, bounds: { x, y, width, height } }];
+    });
   }
 
-  /**
-   * Validate AI response structure
-   */
-  static validateResponseStructure(data: any): {
-    isValid: boolean;
-    error?: string;
-    missingFields?: string[];
-  } {
-    const requiredFields = ['workspace_description'];
-    const optionalFields = ['style_assessment', 'ergonomic_evaluation', 'improvement_priorities', 'color_analysis'];
-    
-    if (!data || typeof data !== 'object') {
-      return {
-        isValid: false,
-        error: 'Response is not a valid object'
-      };
-    }
+  private static parseJson(aiContent: string): unknown {
+    // OpenAI-compatible servers without structured output support may still wrap JSON in a code fence
+    const json = aiContent.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
 
-    const missingFields = requiredFields.filter(field => !data[field]);
-    
-    if (missingFields.length > 0) {
-      return {
-        isValid: false,
-        error: 'Missing required fields',
-        missingFields
-      };
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      throw new Error(`AI response is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
-    return { isValid: true };
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
   }
 }
@@ -0,0 +1,231 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { AIProviderId, AIVisionImage } from '@/types/ai-provider';
+import {
+  AI_USAGE_LIMITS,
+  AISpendSummary,
+  AITokenUsage,
+  AIUsage,
+  DailyAISpend,
+  DEFAULT_MODEL_PRICES,
+  ModelPrice
+} from '@/types/ai-usage';
+import { getTodayDateString, STORAGE_KEYS, StorageResult } from '@/types/storage';
+
+import { StorageService } from './storage';
+
+// Assumed for photos whose size isn't known
+const DEFAULT_IMAGE_SIZE = 1024;
+
+/**
+ * AI Usage Service
+ * Prices AI calls from the tokens they used and keeps a daily ledger of estimated spend
+ */
+export class AIUsageService {
+  // Serializes ledger updates so calls finishing together don't overwrite each other
+  private static writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Usage and estimated cost of one call; image tokens are estimated from the photo sizes, since providers only report totals
+   */
+  static async createUsage(
+    provider: AIProviderId,
+    model: string,
+    tokens: AITokenUsage,
+    images: AIVisionImage[] = []
+  ): Promise<AIUsage> {
+    const price = await this.getModelPrice(model);
+    const imageTokens = images.reduce((total, image) => total + this.estimateImageTokens(provider, image), 0);
+
+    return {
+      provider,
+      model,
+      promptTokens: tokens.promptTokens,
+      completionTokens: tokens.completionTokens,
+      imageTokens: Math.min(imageTokens, tokens.promptTokens),
+      estimatedCost: price
+        ? (tokens.promptTokens * price.input + tokens.completionTokens * price.output) / 1_000_000
+        : 0,
+      calls: 1,
+    };
+  }
+
+  /**
+   * Add up the usage of several calls, e.g. the retries of one analysis
+   */
+  static combineUsage(total: AIUsage | undefined, usage: AIUsage): AIUsage {
+    if (!total) return usage;
+
+    return {
+      ...usage,
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      imageTokens: total.imageTokens + usage.imageTokens,
+      estimatedCost: total.estimatedCost + usage.estimatedCost,
+      calls: total.calls + usage.calls,
+    };
+  }
+
+  /**
+   * Estimated prompt tokens for one image, following each provider's published sizing rules
+   */
+  static estimateImageTokens(provider: AIProviderId, image: Pick<AIVisionImage, 'width' | 'height'>): number {
+    let width = image.width || DEFAULT_IMAGE_SIZE;
+    let height = image.height || DEFAULT_IMAGE_SIZE;
+
+    if (provider === 'anthropic') {
+      // Images are scaled to fit 1568px on the long edge, then cost about one token per 750 pixels
+      const scale = Math.min(1, 1568 / Math.max(width, height));
+      return Math.ceil((width * scale * height * scale) / 750);
+    }
+
+    // High detail: fit within 2048px, shrink the short side to 768px, then 170 tokens per 512px tile plus 85
+    const fitScale = Math.min(1, 2048 / Math.max(width, height));
+    width *= fitScale;
+    height *= fitScale;
+    const shortSideScale = Math.min(1, 768 / Math.min(width, height));
+    const tiles = Math.ceil((width * shortSideScale) / 512) * Math.ceil((height * shortSideScale) / 512);
+    return 85 + 170 * tiles;
+  }
+
+  /**
+   * Price table in effect: the defaults with the user's overrides applied
+   */
+  static async getPriceTable(): Promise<Record<string, ModelPrice>> {
+    const preferences = await StorageService.getUserPreferences();
+    return { ...DEFAULT_MODEL_PRICES, ...preferences.data?.modelPrices };
+  }
+
+  /**
+   * Price for a model, matching the longest table entry its name starts with, or undefined if it has none
+   */
+  static async getModelPrice(model: string): Promise<ModelPrice | undefined> {
+    const table = await this.getPriceTable();
+    const name = model.toLowerCase();
+    const key = Object.keys(table)
+      .filter(entry => name.startsWith(entry.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return key ? table[key] : undefined;
+  }
+
+  /**
+   * Override the price of a model, or pass null to go back to the default
+   */
+  static async setModelPrice(
+    model: string,
+    price: ModelPrice | null
+  ): Promise<StorageResult<Record<string, ModelPrice>>> {
+    const preferences = await StorageService.getUserPreferences();
+    const { [model]: _previous, ...modelPrices } = preferences.data?.modelPrices ?? {};
+
+    const result = await StorageService.updateUserPreferences({
+      modelPrices: price ? { ...modelPrices, [model]: price } : modelPrices,
+    });
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: await this.getPriceTable() };
+  }
+
+  /**
+   * Add a call's usage to today's ledger entry
+   */
+  static recordUsage(usage: AIUsage): Promise<StorageResult<DailyAISpend>> {
+    const write = this.writeQueue.then(async (): Promise<StorageResult<DailyAISpend>> => {
+      try {
+        const ledger = await this.getLedger();
+        const date = getTodayDateString();
+        const today = this.addToDay(ledger.find(day => day.date === date) ?? this.createDay(date), usage);
+
+        const kept = [today, ...ledger.filter(day => day.date !== date)]
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .slice(0, AI_USAGE_LIMITS.LEDGER_DAYS);
+        await AsyncStorage.setItem(STORAGE_KEYS.AI_USAGE, JSON.stringify(kept));
+
+        return { success: true, data: today };
+      } catch (error) {
+        console.error('Failed to record AI usage:', error);
+        return {
+          success: false,
+          error: 'Failed to record AI usage',
+        };
+      }
+    });
+
+    this.writeQueue = write;
+    return write;
+  }
+
+  /**
+   * Estimated spend for today and for this calendar month
+   */
+  static async getSpendSummary(): Promise<StorageResult<AISpendSummary>> {
+    try {
+      const ledger = await this.getLedger();
+      const date = getTodayDateString();
+      const month = date.slice(0, 7);
+
+      const { date: _date, ...monthTotals } = ledger
+        .filter(day => day.date.startsWith(month))
+        .reduce((total, day) => this.addToDay(total, day), this.createDay(month));
+
+      return {
+        success: true,
+        data: {
+          today: ledger.find(day => day.date === date) ?? this.createDay(date),
+          month: { ...monthTotals, month },
+        },
+      };
+    } catch (error) {
+      console.error('Failed to get AI spend summary:', error);
+      return {
+        success: false,
+        error: 'Failed to load AI spend',
+      };
+    }
+  }
+
+  /**
+   * Dollar amount for display, with enough decimals that a single analysis doesn't show as $0.00
+   */
+  static formatCost(cost: number): string {
+    return `$${cost > 0 && cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+  }
+
+  /**
+   * Clear the spend ledger
+   */
+  static async clearLedger(): Promise<StorageResult<boolean>> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.AI_USAGE);
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Failed to clear AI usage:', error);
+      return {
+        success: false,
+        error: 'Failed to clear AI usage',
+      };
+    }
+  }
+
+  private static async getLedger(): Promise<DailyAISpend[]> {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.AI_USAGE);
+    return data ? JSON.parse(data) : [];
+  }
+
+  private static createDay(date: string): DailyAISpend {
+    return { date, promptTokens: 0, completionTokens: 0, imageTokens: 0, estimatedCost: 0, calls: 0 };
+  }
+
+  private static addToDay(day: DailyAISpend, usage: Omit<DailyAISpend, 'date'>): DailyAISpend {
+    return {
+      date: day.date,
+      promptTokens: day.promptTokens + usage.promptTokens,
+      completionTokens: day.completionTokens + usage.completionTokens,
+      imageTokens: day.imageTokens + usage.imageTokens,
+      estimatedCost: day.estimatedCost + usage.estimatedCost,
+      calls: day.calls + usage.calls,
+    };
+  }
+}
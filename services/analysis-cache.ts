@@ -0,0 +1,146 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DecodedImage } from '@/types/image';
+import {
+  ANALYSIS_CACHE_LIMITS,
+  AnalysisCacheEntry,
+  STORAGE_KEYS,
+  StorageResult
+} from '@/types/storage';
+
+import { ContentHashService } from './content-hash';
+
+/**
+ * Analysis Cache Service
+ * Content-addressed store of raw AI responses, so the same photo and answers don't cost another call
+ */
+export class AnalysisCacheService {
+  /**
+   * Cache key for an analysis: the normalized pixels of every photo, in order, plus the rendered prompt and model.
+   * Hashing decoded pixels rather than file bytes makes copies of the same photo hit the same entry.
+   */
+  static getCacheKey(images: DecodedImage[], promptText: string, model: string): string {
+    const imageHashes = images
+      .map(image => `${ContentHashService.sha256(image.data)}|${image.width}x${image.height}`)
+      .join('|');
+
+    return ContentHashService.sha256(
+      `${imageHashes}|${ContentHashService.sha256(promptText)}|${model}`
+    );
+  }
+
+  /**
+   * Whether an unexpired response is cached under this key
+   */
+  static async hasResponse(key: string): Promise<boolean> {
+    const entriesResult = await this.getEntries();
+    return entriesResult.data?.some(item => item.key === key) ?? false;
+  }
+
+  /**
+   * Get a cached response, or undefined if there is none or it has expired
+   */
+  static async getResponse(key: string): Promise<string | undefined> {
+    const entriesResult = await this.getEntries();
+    const entry = entriesResult.data?.find(item => item.key === key);
+    if (!entry) return undefined;
+
+    // Track use so pruning drops the least recently used entries first
+    await this.saveEntries(entriesResult.data!.map(item =>
+      item.key === key ? { ...item, lastUsedAt: Date.now() } : item
+    ));
+    return entry.response;
+  }
+
+  /**
+   * Store a response, evicting expired and least recently used entries to stay within limits
+   */
+  static async setResponse(key: string, response: string): Promise<StorageResult<boolean>> {
+    const entriesResult = await this.getEntries();
+    if (!entriesResult.success || !entriesResult.data) {
+      return { success: false, error: entriesResult.error };
+    }
+
+    const now = Date.now();
+    const entries = [
+      { key, response, createdAt: now, lastUsedAt: now },
+      ...entriesResult.data.filter(item => item.key !== key),
+    ];
+    return this.saveEntries(entries);
+  }
+
+  /**
+   * Forget a cached response, e.g. one that no longer passes validation
+   */
+  static async removeResponse(key: string): Promise<StorageResult<boolean>> {
+    const entriesResult = await this.getEntries();
+    if (!entriesResult.success || !entriesResult.data) {
+      return { success: false, error: entriesResult.error };
+    }
+
+    return this.saveEntries(entriesResult.data.filter(item => item.key !== key));
+  }
+
+  /**
+   * Clear the whole cache
+   */
+  static async clearCache(): Promise<StorageResult<boolean>> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.ANALYSIS_CACHE);
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Failed to clear analysis cache:', error);
+      return {
+        success: false,
+        error: 'Failed to clear analysis cache',
+      };
+    }
+  }
+
+  /**
+   * Unexpired entries, most recently used first
+   */
+  private static async getEntries(): Promise<StorageResult<AnalysisCacheEntry[]>> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.ANALYSIS_CACHE);
+      const entries: AnalysisCacheEntry[] = data ? JSON.parse(data) : [];
+      const now = Date.now();
+
+      return {
+        success: true,
+        data: entries
+          .filter(entry => now - entry.createdAt < ANALYSIS_CACHE_LIMITS.TTL_MS)
+          .sort((a, b) => b.lastUsedAt - a.lastUsedAt),
+      };
+    } catch (error) {
+      console.error('Failed to load analysis cache:', error);
+      return {
+        success: false,
+        error: 'Failed to load analysis cache',
+      };
+    }
+  }
+
+  private static async saveEntries(entries: AnalysisCacheEntry[]): Promise<StorageResult<boolean>> {
+    try {
+      // Keep the most recently used entries that fit within the limits
+      const kept: AnalysisCacheEntry[] = [];
+      let totalChars = 0;
+      for (const entry of entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt)) {
+        if (kept.length >= ANALYSIS_CACHE_LIMITS.MAX_ENTRIES) break;
+        if (totalChars + entry.response.length > ANALYSIS_CACHE_LIMITS.MAX_TOTAL_CHARS) continue;
+        kept.push(entry);
+        totalChars += entry.response.length;
+      }
+
+      await AsyncStorage.setItem(STORAGE_KEYS.ANALYSIS_CACHE, JSON.stringify(kept));
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Failed to save analysis cache:', error);
+      return {
+        success: false,
+        error: 'Failed to save analysis cache',
+      };
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { isAIAnalysisError, ProductRecommendation, WorkspaceAnalysisResult } from '@/types/ai-analysis';
+import { AIChatMessage } from '@/types/ai-provider';
+import { AIUsage } from '@/types/ai-usage';
+import {
+  ANALYSIS_CHAT_LIMITS,
+  AnalysisChatMessage,
+  AnalysisConversation,
+  createChatMessageId,
+  SuggestedRecommendation
+} from '@/types/analysis-chat';
+import { ANALYSIS_CHAT_FORMAT, AnalysisChatResponse } from '@/types/analysis-chat-schema';
+import { QuizResponse } from '@/types/quiz';
+import { StorageResult } from '@/types/storage';
+
+import { AIPromptService } from './ai-prompts';
+import { AIResponseParserService } from './ai-response-parser';
+import { OpenAIClientService } from './openai-client';
+
+/**
+ * Analysis Chat Service
+ * Follow-up conversations about an analysis, whose suggested products can be merged back into the result
+ */
+export class AnalysisChatService {
+  /**
+   * Start an empty conversation about an analysis
+   */
+  static createConversation(result: WorkspaceAnalysisResult): AnalysisConversation {
+    const now = Date.now();
+    return {
+      analysisId: result.id,
+      messages: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Ask a follow-up question; resolves with the conversation including the question and the AI's reply.
+   * The conversation passed in is left untouched, so a failed request can be retried as is.
+   */
+  static async sendMessage(
+    conversation: AnalysisConversation,
+    result: WorkspaceAnalysisResult,
+    quizResponses: QuizResponse[],
+    text: string,
+    signal?: AbortSignal
+  ): Promise<StorageResult<AnalysisConversation>> {
+    const content = text.trim().slice(0, ANALYSIS_CHAT_LIMITS.MAX_MESSAGE_LENGTH);
+    if (!content) {
+      return { success: false, error: 'Type a question first' };
+    }
+
+    const question: AnalysisChatMessage = {
+      id: createChatMessageId(),
+      role: 'user',
+      content,
+      createdAt: Date.now(),
+    };
+
+    try {
+      const prompt = await AIPromptService.getChatPrompt(
+        result,
+        AIPromptService.createPromptContext(quizResponses)
+      );
+      const history = [...conversation.messages, question].slice(-ANALYSIS_CHAT_LIMITS.MAX_HISTORY_MESSAGES);
+
+      let usage: AIUsage | undefined;
+      const aiContent = await OpenAIClientService.chat(
+        [
+          { role: 'system', content: prompt.text },
+          ...history.map((message): AIChatMessage => ({ role: message.role, content: message.content })),
+        ],
+        {
+          responseFormat: ANALYSIS_CHAT_FORMAT,
+          signal,
+          onUsage: callUsage => { usage = callUsage; },
+        }
+      );
+
+      let reply: AnalysisChatResponse;
+      try {
+        reply = AIResponseParserService.parseChatResponse(aiContent);
+      } catch (error) {
+        console.error('Invalid AI chat reply:', error);
+        return {
+          success: false,
+          error: 'The AI reply didn\'t match the expected format. Please try again.',
+        };
+      }
+
+      const suggestions = this.toSuggestions(reply, result);
+      const answer: AnalysisChatMessage = {
+        id: createChatMessageId(),
+        role: 'assistant',
+        content: reply.reply.trim(),
+        suggestions: suggestions.length > 0 ? suggestions : undefined,
+        usage,
+        createdAt: Date.now(),
+      };
+
+      return {
+        success: true,
+        data: {
+          ...conversation,
+          messages: [...conversation.messages, question, answer],
+          updatedAt: Date.now(),
+        },
+      };
+    } catch (error) {
+      console.error('Failed to send chat message:', error);
+      return {
+        success: false,
+        error: isAIAnalysisError(error) ? error.message : 'Failed to get a reply',
+      };
+    }
+  }
+
+  /**
+   * Merge a reply's suggestions into the result: replacements take the place of the recommendation they name,
+   * everything else is added at the end. Returns the updated result and conversation.
+   */
+  static applySuggestions(
+    result: WorkspaceAnalysisResult,
+    conversation: AnalysisConversation,
+    messageId: string
+  ): StorageResult<{ result: WorkspaceAnalysisResult; conversation: AnalysisConversation }> {
+    const message = conversation.messages.find(item => item.id === messageId);
+    if (!message?.suggestions?.length) {
+      return { success: false, error: 'This reply has no suggestions to apply' };
+    }
+    if (message.appliedAt) {
+      return { success: false, error: 'These suggestions were already applied' };
+    }
+
+    const recommendations = [...result.recommendations];
+    message.suggestions.forEach(suggestion => {
+      const index = suggestion.replacesId
+        ? recommendations.findIndex(item => item.id === suggestion.replacesId)
+        : -1;
+      if (index >= 0) {
+        recommendations[index] = suggestion.recommendation;
+      } else {
+        recommendations.push(suggestion.recommendation);
+      }
+    });
+
+    const appliedAt = Date.now();
+    return {
+      success: true,
+      data: {
+        result: { ...result, recommendations },
+        conversation: {
+          ...conversation,
+          messages: conversation.messages.map(item =>
+            item.id === messageId ? { ...item, appliedAt } : item
+          ),
+          updatedAt: appliedAt,
+        },
+      },
+    };
+  }
+
+  /**
+   * Turn the AI's suggested products into recommendations, dropping replacement IDs that aren't in the result
+   */
+  private static toSuggestions(
+    reply: AnalysisChatResponse,
+    result: WorkspaceAnalysisResult
+  ): SuggestedRecommendation[] {
+    const knownIds = new Set(result.recommendations.map(item => item.id));
+
+    return reply.recommendations
+      .slice(0, ANALYSIS_CHAT_LIMITS.MAX_SUGGESTIONS)
+      .filter(item => item.name.trim())
+      .map(item => {
+        const min = Math.round(Math.min(item.min_price, item.max_price));
+        const max = Math.round(Math.max(item.min_price, item.max_price));
+        const recommendation: ProductRecommendation = {
+          id: `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: item.name.trim(),
+          description: item.description.trim(),
+          price: { min, max, currency: 'USD' },
+          category: item.category,
+          imageUrl: `https://via.placeholder.com/300x200/4A90E2/FFFFFF?text=${encodeURIComponent(item.name.trim())}`,
+          tags: item.tags,
+        };
+
+        const replacesId = item.replaces.trim();
+        return knownIds.has(replacesId) ? { recommendation, replacesId } : { recommendation };
+      });
+  }
+}
@@ -0,0 +1,289 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  AIAnalysisErrorCode,
+  AnalysisProgressCallback,
+  isAIAnalysisError,
+  WorkspaceAnalysisResult
+} from '@/types/ai-analysis';
+import { PhotoAsset } from '@/types/photo';
+import { QuizResponse } from '@/types/quiz';
+import {
+  AnalysisJob,
+  createAnalysisJobId,
+  STORAGE_KEYS,
+  StorageResult,
+  USAGE_LIMITS
+} from '@/types/storage';
+
+import { AIAnalysisService } from './ai-analysis';
+import { ConnectivityService } from './connectivity';
+import { PhotoStorageService } from './photo-storage';
+
+type AnalysisJobListener = (jobs: AnalysisJob[]) => void;
+
+// Failures that losing the connection can explain; anything else fails the job even while offline
+const CONNECTION_ERROR_CODES: readonly AIAnalysisErrorCode[] = ['NETWORK_ERROR', 'TIMEOUT_ERROR'];
+
+/**
+ * Analysis Job Service
+ * Persists analysis requests so work (and the quota it used) survives the app closing mid-analysis
+ */
+export class AnalysisJobService {
+  private static listeners = new Set<AnalysisJobListener>();
+  private static runningJobIds = new Set<string>();
+  private static stopWatchingConnectivity: (() => void) | null = null;
+  // Serializes read-modify-write cycles so concurrent jobs don't overwrite each other
+  private static writeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Get all jobs, newest first
+   */
+  static async getJobs(): Promise<StorageResult<AnalysisJob[]>> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.ANALYSIS_JOBS);
+      const jobs: AnalysisJob[] = data ? JSON.parse(data) : [];
+
+      jobs.sort((a, b) => b.createdAt - a.createdAt);
+      return { success: true, data: jobs };
+    } catch (error) {
+      console.error('Failed to get analysis jobs:', error);
+      return {
+        success: false,
+        error: 'Failed to load analysis jobs',
+      };
+    }
+  }
+
+  /**
+   * Queue an analysis of one or more photos, copying them into app storage so they are still there after a restart
+   */
+  static async enqueueJob(
+    photos: PhotoAsset[],
+    quizResponses: QuizResponse[],
+    usageRecorded: boolean,
+    useCachedResponse = false
+  ): Promise<StorageResult<AnalysisJob>> {
+    try {
+      const photosDirectory = PhotoStorageService.getPhotosDirectory().uri;
+      const storedPhotos: PhotoAsset[] = [];
+      for (const photo of photos) {
+        storedPhotos.push(photo.uri.startsWith(photosDirectory)
+          ? photo
+          : { ...photo, uri: await PhotoStorageService.savePhoto(photo.uri) });
+      }
+      const [storedPhoto, ...additionalPhotos] = storedPhotos;
+      if (!storedPhoto) {
+        throw new Error('No photos to analyze');
+      }
+
+      const now = Date.now();
+      const job: AnalysisJob = {
+        id: createAnalysisJobId(),
+        photo: storedPhoto,
+        additionalPhotos: additionalPhotos.length > 0 ? additionalPhotos : undefined,
+        quizResponses,
+        status: 'queued',
+        attempts: 0,
+        usageRecorded,
+        useCachedResponse,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.updateJobs(jobs => [job, ...jobs]);
+      return { success: true, data: job };
+    } catch (error) {
+      console.error('Failed to queue analysis job:', error);
+      return {
+        success: false,
+        error: 'Failed to queue analysis',
+      };
+    }
+  }
+
+  /**
+   * Run a job and record the outcome; rejects like AIAnalysisService.analyzeWorkspace.
+   * Cancelled jobs are removed, completed jobs keep their result until removed.
+   */
+  static async runJob(
+    jobId: string,
+    onProgress?: AnalysisProgressCallback,
+    signal?: AbortSignal
+  ): Promise<WorkspaceAnalysisResult> {
+    if (this.runningJobIds.has(jobId)) {
+      throw new Error('This analysis is already running');
+    }
+
+    const jobsResult = await this.getJobs();
+    const job = jobsResult.data?.find(item => item.id === jobId);
+    if (!job) {
+      throw new Error('Analysis job not found');
+    }
+
+    this.runningJobIds.add(jobId);
+    try {
+      await this.updateJob(jobId, { status: 'running', attempts: job.attempts + 1, error: undefined });
+
+      const result = await AIAnalysisService.analyzeWorkspace(
+        {
+          photo: job.photo,
+          additionalPhotos: job.additionalPhotos,
+          quizResponses: job.quizResponses,
+          useCachedResponse: job.useCachedResponse,
+        },
+        onProgress,
+        signal
+      );
+
+      await this.updateJob(jobId, { status: 'completed', result });
+      return result;
+    } catch (error) {
+      if (AIAnalysisService.isCancelled(error)) {
+        await this.removeJob(jobId);
+        throw error;
+      }
+
+      // Losing the network isn't the analysis' fault; hold it until the connection is back
+      if (
+        isAIAnalysisError(error)
+        && CONNECTION_ERROR_CODES.includes(error.code)
+        && !(await AIAnalysisService.canReachAI())
+      ) {
+        await this.deferUntilOnline(jobId);
+        throw new Error('You\'re offline. Your analysis is saved and will run when you\'re back online.');
+      }
+
+      const message = isAIAnalysisError(error) || error instanceof Error ? error.message : 'Analysis failed';
+      await this.updateJob(jobId, { status: 'failed', error: message });
+      throw error;
+    } finally {
+      this.runningJobIds.delete(jobId);
+    }
+  }
+
+  /**
+   * Hold a job until connectivity returns, then submit it in the background
+   */
+  static async deferUntilOnline(jobId: string): Promise<void> {
+    await this.updateJob(jobId, { status: 'offline' });
+
+    if (!this.stopWatchingConnectivity) {
+      this.stopWatchingConnectivity = ConnectivityService.subscribe(isConnected => {
+        if (isConnected) {
+          this.submitOfflineJobs();
+        }
+      });
+    }
+  }
+
+  /**
+   * Pick up jobs left queued or running when the app last closed, one at a time in the background
+   */
+  static async resumeInterruptedJobs(): Promise<void> {
+    const jobsResult = await this.getJobs();
+
+    // Offline jobs go back to waiting for the network
+    for (const job of (jobsResult.data ?? []).filter(item => item.status === 'offline')) {
+      await this.deferUntilOnline(job.id);
+    }
+
+    const interrupted = (jobsResult.data ?? [])
+      .filter(job => (job.status === 'queued' || job.status === 'running') && !this.runningJobIds.has(job.id))
+      .reverse(); // Oldest first
+
+    for (const job of interrupted) {
+      if (job.attempts >= USAGE_LIMITS.MAX_JOB_ATTEMPTS) {
+        await this.updateJob(job.id, {
+          status: 'failed',
+          error: 'The analysis was interrupted too many times',
+        });
+        continue;
+      }
+
+      try {
+        await this.runJob(job.id);
+      } catch (error) {
+        console.warn(`Resumed analysis job ${job.id} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Submit every job that was waiting for the network, oldest first
+   */
+  private static async submitOfflineJobs(): Promise<void> {
+    const jobsResult = await this.getJobs();
+
+    this.stopWatchingConnectivity?.();
+    this.stopWatchingConnectivity = null;
+    const offline = (jobsResult.data ?? [])
+      .filter(job => job.status === 'offline' && !this.runningJobIds.has(job.id))
+      .reverse();
+
+    for (const job of offline) {
+      try {
+        await this.runJob(job.id);
+      } catch (error) {
+        console.warn(`Queued analysis job ${job.id} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Delete a job once its result has been opened or the user dismisses it
+   */
+  static async removeJob(jobId: string): Promise<StorageResult<boolean>> {
+    try {
+      await this.updateJobs(jobs => jobs.filter(job => job.id !== jobId));
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Failed to remove analysis job:', error);
+      return {
+        success: false,
+        error: 'Failed to remove analysis job',
+      };
+    }
+  }
+
+  /**
+   * Listen for job changes; returns an unsubscribe function
+   */
+  static subscribe(listener: AnalysisJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static async updateJob(
+    jobId: string,
+    updates: Partial<Omit<AnalysisJob, 'id' | 'createdAt'>>
+  ): Promise<void> {
+    try {
+      await this.updateJobs(jobs => jobs.map(job =>
+        job.id === jobId ? { ...job, ...updates, updatedAt: Date.now() } : job
+      ));
+    } catch (error) {
+      // The analysis itself shouldn't fail because its bookkeeping did
+      console.error('Failed to update analysis job:', error);
+    }
+  }
+
+  private static updateJobs(mutate: (jobs: AnalysisJob[]) => AnalysisJob[]): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const jobsResult = await this.getJobs();
+      if (!jobsResult.success || !jobsResult.data) {
+        throw new Error(jobsResult.error);
+      }
+
+      const jobs = mutate(jobsResult.data);
+      await AsyncStorage.setItem(STORAGE_KEYS.ANALYSIS_JOBS, JSON.stringify(jobs));
+      this.listeners.forEach(listener => listener(jobs));
+    });
+
+    // Keep the queue going after a failed write
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,75 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long the circuit stays open before a trial call
+}
+
+/**
+ * Circuit Breaker
+ * Fails calls fast after repeated upstream failures, then lets a single trial call through once the cooldown passes
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  getState(now = Date.now()): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return now - this.openedAt < this.options.cooldownMs ? 'open' : 'half-open';
+  }
+
+  /**
+   * Milliseconds until the circuit lets a call through, or 0 if it would now
+   */
+  getRetryAfterMs(now = Date.now()): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.options.cooldownMs - now);
+  }
+
+  /**
+   * Whether a call may go ahead; once the cooldown passes only one trial call is let through at a time
+   */
+  tryAcquire(now = Date.now()): boolean {
+    switch (this.getState(now)) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+      case 'open':
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * The upstream answered, even if with an error that isn't an outage
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The upstream failed; opens the circuit at the threshold, or again straight away if the trial call failed
+   */
+  recordFailure(now = Date.now()): void {
+    this.consecutiveFailures++;
+    if (this.trialInFlight || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = now;
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The call ended without telling us anything about the upstream, e.g. it was cancelled
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
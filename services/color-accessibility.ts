@@ -0,0 +1,190 @@
+import { ColorPalette } from '@/types/ai-analysis';
+
+import { ColorSpaceService, RgbColor } from './color-space';
+
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+export interface ContrastPair {
+  foreground: string;
+  background: string;
+  ratio: number; // 1-21
+  level: ContrastLevel;
+  passesAA: boolean; // Normal-size text
+  passesAAA: boolean; // Normal-size text
+  passesAALarge: boolean;
+  passesAAALarge: boolean;
+}
+
+export interface ColorVisionSimulation {
+  deficiency: ColorVisionDeficiency;
+  colors: string[]; // Simulated palette, same order as the input
+  confusablePairs: [number, number][]; // Indices of colors that become hard to tell apart
+}
+
+export interface PaletteAccessibilityReport {
+  colors: string[]; // Valid palette colors the report refers to
+  pairs: ContrastPair[]; // Sorted from lowest to highest contrast
+  failingAACount: number;
+  simulations: ColorVisionSimulation[];
+}
+
+// WCAG 2.x success criteria 1.4.3 and 1.4.6
+export const WCAG_CONTRAST_THRESHOLDS = {
+  AA_NORMAL: 4.5,
+  AA_LARGE: 3,
+  AAA_NORMAL: 7,
+  AAA_LARGE: 4.5,
+} as const;
+
+// Simulated colors closer than this ΔE2000 are treated as confusable
+const CONFUSABLE_DELTA_E = 10;
+
+// Machado, Oliveira & Fernandes (2009) matrices at full severity, applied in linear RGB
+const DEFICIENCY_MATRICES: Record<ColorVisionDeficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+/**
+ * Color Accessibility Service
+ * WCAG contrast checks and color vision deficiency simulation for palettes
+ */
+export class ColorAccessibilityService {
+  /**
+   * Analyze every color pair in a palette and simulate common color vision deficiencies
+   */
+  static analyzePalette(palette: ColorPalette): PaletteAccessibilityReport {
+    const colors = palette.colors.filter(color => ColorSpaceService.hexToRgb(color) !== null);
+    const pairs: ContrastPair[] = [];
+
+    for (let i = 0; i < colors.length; i++) {
+      for (let j = i + 1; j < colors.length; j++) {
+        // Show the darker color as text on the lighter one
+        const [foreground, background] =
+          this.relativeLuminance(colors[i]) <= this.relativeLuminance(colors[j])
+            ? [colors[i], colors[j]]
+            : [colors[j], colors[i]];
+        pairs.push(this.evaluatePair(foreground, background));
+      }
+    }
+
+    pairs.sort((a, b) => a.ratio - b.ratio);
+
+    const deficiencies: ColorVisionDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia'];
+
+    return {
+      colors,
+      pairs,
+      failingAACount: pairs.filter(pair => !pair.passesAA).length,
+      simulations: deficiencies.map(deficiency => this.simulatePalette(colors, deficiency)),
+    };
+  }
+
+  /**
+   * Evaluate a single foreground/background combination against WCAG levels
+   */
+  static evaluatePair(foreground: string, background: string): ContrastPair {
+    const ratio = this.contrastRatio(foreground, background);
+    const passesAA = ratio >= WCAG_CONTRAST_THRESHOLDS.AA_NORMAL;
+    const passesAAA = ratio >= WCAG_CONTRAST_THRESHOLDS.AAA_NORMAL;
+    const passesAALarge = ratio >= WCAG_CONTRAST_THRESHOLDS.AA_LARGE;
+    const passesAAALarge = ratio >= WCAG_CONTRAST_THRESHOLDS.AAA_LARGE;
+
+    let level: ContrastLevel = 'Fail';
+    if (passesAAA) level = 'AAA';
+    else if (passesAA) level = 'AA';
+    else if (passesAALarge) level = 'AA Large';
+
+    return {
+      foreground,
+      background,
+      ratio,
+      level,
+      passesAA,
+      passesAAA,
+      passesAALarge,
+      passesAAALarge,
+    };
+  }
+
+  /**
+   * WCAG 2.x contrast ratio between two hex colors (1-21)
+   */
+  static contrastRatio(color1: string, color2: string): number {
+    const l1 = this.relativeLuminance(color1);
+    const l2 = this.relativeLuminance(color2);
+    const lighter = Math.max(l1, l2);
+    const darker = Math.min(l1, l2);
+    return (lighter + 0.05) / (darker + 0.05);
+  }
+
+  /**
+   * WCAG relative luminance of a hex color (0-1)
+   */
+  static relativeLuminance(color: string): number {
+    const rgb = ColorSpaceService.hexToRgb(color);
+    if (!rgb) return 0;
+
+    const [r, g, b] = rgb.map(channel => ColorSpaceService.srgbToLinear(channel));
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  }
+
+  /**
+   * Simulate how a color looks with a given color vision deficiency
+   */
+  static simulateColor(color: string, deficiency: ColorVisionDeficiency): string {
+    const rgb = ColorSpaceService.hexToRgb(color);
+    if (!rgb) return color;
+
+    const linear = rgb.map(channel => ColorSpaceService.srgbToLinear(channel));
+    const matrix = DEFICIENCY_MATRICES[deficiency];
+    const simulated = matrix.map(row =>
+      row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]
+    );
+
+    return ColorSpaceService.rgbToHex(
+      simulated.map(value => ColorSpaceService.linearToSrgb(Math.max(0, Math.min(1, value)))) as RgbColor
+    );
+  }
+
+  /**
+   * Simulate a whole palette and find colors that collapse together
+   */
+  private static simulatePalette(
+    colors: string[],
+    deficiency: ColorVisionDeficiency
+  ): ColorVisionSimulation {
+    const simulated = colors.map(color => this.simulateColor(color, deficiency));
+    const labs = simulated.map(color => ColorSpaceService.rgbToLab(ColorSpaceService.hexToRgb(color)!));
+    const originalLabs = colors.map(color => ColorSpaceService.rgbToLab(ColorSpaceService.hexToRgb(color)!));
+    const confusablePairs: [number, number][] = [];
+
+    for (let i = 0; i < labs.length; i++) {
+      for (let j = i + 1; j < labs.length; j++) {
+        // Only flag pairs that were distinguishable to begin with
+        const original = ColorSpaceService.deltaE2000(originalLabs[i], originalLabs[j]);
+        const simulatedDistance = ColorSpaceService.deltaE2000(labs[i], labs[j]);
+        if (original >= CONFUSABLE_DELTA_E && simulatedDistance < CONFUSABLE_DELTA_E) {
+          confusablePairs.push([i, j]);
+        }
+      }
+    }
+
+    return { deficiency, colors: simulated, confusablePairs };
+  }
+}
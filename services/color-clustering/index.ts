@@ -0,0 +1,97 @@
+import { ColorClusteringAlgorithm } from '@/types/ai-analysis';
+
+import { ColorSpaceService, LabColor, RgbColor } from '../color-space';
+import { kMeansCentroids } from './kmeans';
+import { medianCutCentroids } from './median-cut';
+import { octreeCentroids } from './octree';
+import { buildWeightedColors, nearestCentroid, WeightedColor, weightedMeanLab } from './weighted-colors';
+
+export interface ColorClusteringOptions {
+  algorithm: ColorClusteringAlgorithm;
+  clusterCount: number;
+  seed: number;
+}
+
+export interface ColorCluster {
+  lab: LabColor;
+  rgb: RgbColor;
+  pixelCount: number;
+  frequency: number; // Share of clustered pixels, 0-1
+  spread: number; // Weighted mean ΔE2000 of member pixels from the cluster color
+}
+
+/**
+ * Color Clustering Service
+ * Groups pixels into perceptual clusters in CIELAB using ΔE2000 distance
+ */
+export class ColorClusteringService {
+  static readonly DEFAULT_OPTIONS: ColorClusteringOptions = {
+    algorithm: 'kmeans',
+    clusterCount: 6,
+    seed: 42,
+  };
+
+  /**
+   * Cluster RGB pixels, returning clusters sorted by frequency (most common first)
+   */
+  static cluster(
+    pixels: number[][],
+    options: Partial<ColorClusteringOptions> = {}
+  ): ColorCluster[] {
+    const config = { ...this.DEFAULT_OPTIONS, ...options };
+    const colors = buildWeightedColors(pixels);
+    if (colors.length === 0 || config.clusterCount < 1) {
+      return [];
+    }
+
+    const centroids = this.findCentroids(colors, config);
+    return this.summarizeClusters(colors, centroids);
+  }
+
+  /**
+   * Run the selected algorithm to find cluster centers
+   */
+  private static findCentroids(colors: WeightedColor[], options: ColorClusteringOptions): LabColor[] {
+    switch (options.algorithm) {
+      case 'median-cut':
+        return medianCutCentroids(colors, options.clusterCount);
+      case 'octree':
+        return octreeCentroids(colors, options.clusterCount);
+      case 'kmeans':
+      default:
+        return kMeansCentroids(colors, options.clusterCount, options.seed);
+    }
+  }
+
+  /**
+   * Assign every color to its nearest center and compute frequency and spread
+   */
+  private static summarizeClusters(colors: WeightedColor[], centroids: LabColor[]): ColorCluster[] {
+    const members: WeightedColor[][] = centroids.map(() => []);
+    colors.forEach(color => {
+      members[nearestCentroid(color.lab, centroids).index].push(color);
+    });
+
+    const totalWeight = colors.reduce((sum, color) => sum + color.weight, 0);
+
+    return members
+      .filter(group => group.length > 0)
+      .map(group => {
+        const lab = weightedMeanLab(group);
+        const pixelCount = group.reduce((sum, color) => sum + color.weight, 0);
+        const spread = group.reduce(
+          (sum, color) => sum + ColorSpaceService.deltaE2000(color.lab, lab) * color.weight,
+          0
+        ) / pixelCount;
+
+        return {
+          lab,
+          rgb: ColorSpaceService.labToRgb(lab),
+          pixelCount,
+          frequency: pixelCount / totalWeight,
+          spread,
+        };
+      })
+      .sort((a, b) => b.pixelCount - a.pixelCount);
+  }
+}
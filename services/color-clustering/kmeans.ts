@@ -0,0 +1,85 @@
+import { ColorSpaceService, LabColor } from '../color-space';
+import { nearestCentroid, WeightedColor, weightedMeanLab } from './weighted-colors';
+
+const MAX_ITERATIONS = 25;
+const CONVERGENCE_DELTA_E = 0.5;
+
+/**
+ * Mulberry32 PRNG so that a given seed always produces the same clustering
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick an index with probability proportional to its weight
+ */
+function pickWeighted(weights: number[], random: () => number): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return 0;
+
+  let threshold = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    threshold -= weights[i];
+    if (threshold <= 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * k-means++ seeding: spread initial centroids apart in ΔE2000 distance
+ */
+function seedCentroids(colors: WeightedColor[], k: number, random: () => number): LabColor[] {
+  const centroids: LabColor[] = [colors[pickWeighted(colors.map(color => color.weight), random)].lab];
+  const distances = colors.map(color => ColorSpaceService.deltaE2000(color.lab, centroids[0]));
+
+  while (centroids.length < k) {
+    const weights = colors.map((color, i) => color.weight * distances[i] * distances[i]);
+    const next = colors[pickWeighted(weights, random)].lab;
+    centroids.push(next);
+
+    colors.forEach((color, i) => {
+      distances[i] = Math.min(distances[i], ColorSpaceService.deltaE2000(color.lab, next));
+    });
+  }
+
+  return centroids;
+}
+
+/**
+ * Weighted k-means in CIELAB with k-means++ seeding and ΔE2000 assignment
+ */
+export function kMeansCentroids(colors: WeightedColor[], k: number, seed: number): LabColor[] {
+  if (colors.length <= k) {
+    return colors.map(color => color.lab);
+  }
+
+  const random = createRandom(seed);
+  let centroids = seedCentroids(colors, k, random);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const members: WeightedColor[][] = centroids.map(() => []);
+    colors.forEach(color => {
+      members[nearestCentroid(color.lab, centroids).index].push(color);
+    });
+
+    const updated = centroids.map((centroid, i) =>
+      members[i].length > 0 ? weightedMeanLab(members[i]) : centroid
+    );
+    const movement = Math.max(
+      ...updated.map((centroid, i) => ColorSpaceService.deltaE2000(centroid, centroids[i]))
+    );
+    centroids = updated;
+
+    if (movement < CONVERGENCE_DELTA_E) break;
+  }
+
+  return centroids;
+}
@@ -0,0 +1,62 @@
+import { LabColor } from '../color-space';
+import { WeightedColor, weightedMeanLab } from './weighted-colors';
+
+interface ColorBox {
+  colors: WeightedColor[];
+  axis: number; // Lab axis with the widest range
+  range: number;
+}
+
+function createBox(colors: WeightedColor[]): ColorBox {
+  let axis = 0;
+  let range = -1;
+
+  for (let candidate = 0; candidate < 3; candidate++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const color of colors) {
+      min = Math.min(min, color.lab[candidate]);
+      max = Math.max(max, color.lab[candidate]);
+    }
+    if (max - min > range) {
+      range = max - min;
+      axis = candidate;
+    }
+  }
+
+  return { colors, axis, range };
+}
+
+/**
+ * Median cut in CIELAB: repeatedly split the widest box at its weighted median
+ */
+export function medianCutCentroids(colors: WeightedColor[], k: number): LabColor[] {
+  if (colors.length === 0) return [];
+
+  const boxes: ColorBox[] = [createBox(colors)];
+
+  while (boxes.length < k) {
+    let target = -1;
+    boxes.forEach((box, index) => {
+      if (box.colors.length > 1 && (target === -1 || box.range > boxes[target].range)) {
+        target = index;
+      }
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const sorted = [...box.colors].sort((a, b) => a.lab[box.axis] - b.lab[box.axis]);
+    const halfWeight = sorted.reduce((sum, color) => sum + color.weight, 0) / 2;
+
+    let split = 1;
+    let accumulated = sorted[0].weight;
+    while (split < sorted.length - 1 && accumulated + sorted[split].weight <= halfWeight) {
+      accumulated += sorted[split].weight;
+      split++;
+    }
+
+    boxes.splice(target, 1, createBox(sorted.slice(0, split)), createBox(sorted.slice(split)));
+  }
+
+  return boxes.map(box => weightedMeanLab(box.colors));
+}
@@ -0,0 +1,129 @@
+import { ColorSpaceService, LabColor } from '../color-space';
+import { WeightedColor } from './weighted-colors';
+
+const MAX_DEPTH = 6;
+// Octree reduction overshoots at coarse levels, so reduce to this many leaves
+// first and then merge the perceptually closest leaves down to k
+const INTERMEDIATE_LEAVES = 64;
+
+interface OctreeNode {
+  children: (OctreeNode | null)[];
+  isLeaf: boolean;
+  weight: number;
+  sum: [number, number, number]; // Weighted RGB sum
+}
+
+function createNode(isLeaf: boolean): OctreeNode {
+  return { children: new Array(8).fill(null), isLeaf, weight: 0, sum: [0, 0, 0] };
+}
+
+/**
+ * Octree quantization: bin colors by RGB bit planes, merge the lightest branches,
+ * then merge the closest remaining leaves by ΔE2000 until k colors remain
+ */
+export function octreeCentroids(colors: WeightedColor[], k: number): LabColor[] {
+  if (colors.length === 0) return [];
+
+  const leaves = reduceOctree(colors, Math.max(k, INTERMEDIATE_LEAVES));
+
+  while (leaves.length > k) {
+    let closest = { i: 0, j: 1, distance: Infinity };
+    for (let i = 0; i < leaves.length; i++) {
+      for (let j = i + 1; j < leaves.length; j++) {
+        const distance = ColorSpaceService.deltaE2000(leaves[i].lab, leaves[j].lab);
+        if (distance < closest.distance) {
+          closest = { i, j, distance };
+        }
+      }
+    }
+
+    const first = leaves[closest.i];
+    const second = leaves[closest.j];
+    const weight = first.weight + second.weight;
+    leaves[closest.i] = {
+      lab: first.lab.map((value, axis) => (value * first.weight + second.lab[axis] * second.weight) / weight) as LabColor,
+      weight,
+    };
+    leaves.splice(closest.j, 1);
+  }
+
+  return leaves.map(leaf => leaf.lab);
+}
+
+/**
+ * Build the octree and reduce it to at most maxLeaves weighted leaves
+ */
+function reduceOctree(colors: WeightedColor[], maxLeaves: number): { lab: LabColor; weight: number }[] {
+
+  const root = createNode(false);
+  const reducible: OctreeNode[][] = Array.from({ length: MAX_DEPTH }, () => []);
+  reducible[0].push(root);
+  let leafCount = 0;
+
+  for (const color of colors) {
+    const [r, g, b] = color.rgb.map(channel => Math.round(channel));
+    let node = root;
+
+    for (let level = 0; level < MAX_DEPTH; level++) {
+      const shift = 7 - level;
+      const index = (((r >> shift) & 1) << 2) | (((g >> shift) & 1) << 1) | ((b >> shift) & 1);
+      let child = node.children[index];
+      if (!child) {
+        const isLeaf = level === MAX_DEPTH - 1;
+        child = createNode(isLeaf);
+        node.children[index] = child;
+        if (isLeaf) leafCount++;
+        else reducible[level + 1].push(child);
+      }
+      node = child;
+    }
+
+    node.weight += color.weight;
+    node.sum[0] += color.rgb[0] * color.weight;
+    node.sum[1] += color.rgb[1] * color.weight;
+    node.sum[2] += color.rgb[2] * color.weight;
+  }
+
+  const subtreeWeight = (node: OctreeNode): number =>
+    node.isLeaf ? node.weight : node.children.reduce((sum, child) => sum + (child ? subtreeWeight(child) : 0), 0);
+
+  for (let level = MAX_DEPTH - 1; level >= 0 && leafCount > maxLeaves; level--) {
+    const candidates = reducible[level]
+      .map((node, order) => ({ node, order, weight: subtreeWeight(node) }))
+      .sort((a, b) => a.weight - b.weight || a.order - b.order);
+
+    for (const { node } of candidates) {
+      if (leafCount <= maxLeaves) break;
+
+      let mergedChildren = 0;
+      for (const child of node.children) {
+        if (!child) continue;
+        node.weight += child.weight;
+        node.sum[0] += child.sum[0];
+        node.sum[1] += child.sum[1];
+        node.sum[2] += child.sum[2];
+        mergedChildren++;
+      }
+      node.children.fill(null);
+      node.isLeaf = true;
+      leafCount -= mergedChildren - 1;
+    }
+  }
+
+  const leaves: { lab: LabColor; weight: number }[] = [];
+  const collect = (node: OctreeNode) => {
+    if (node.isLeaf) {
+      if (node.weight > 0) {
+        leaves.push({
+          lab: ColorSpaceService.rgbToLab(node.sum.map(value => value / node.weight)),
+          weight: node.weight,
+        });
+      }
+      return;
+    }
+    node.children.forEach(child => child && collect(child));
+  };
+  collect(root);
+
+  return leaves;
+}
@@ -0,0 +1,78 @@
+import { ColorSpaceService, LabColor, RgbColor } from '../color-space';
+
+export interface WeightedColor {
+  rgb: RgbColor;
+  lab: LabColor;
+  weight: number; // Number of pixels represented
+}
+
+// Pixels are pre-binned at 5 bits per channel before clustering
+const BIN_SHIFT = 3;
+
+/**
+ * Collapse raw pixels into weighted color bins, in a stable order
+ */
+export function buildWeightedColors(pixels: number[][]): WeightedColor[] {
+  const bins = new Map<number, { sum: [number, number, number]; weight: number }>();
+
+  for (const [r, g, b] of pixels) {
+    const key = ((r >> BIN_SHIFT) << 10) | ((g >> BIN_SHIFT) << 5) | (b >> BIN_SHIFT);
+    const bin = bins.get(key);
+    if (bin) {
+      bin.sum[0] += r;
+      bin.sum[1] += g;
+      bin.sum[2] += b;
+      bin.weight++;
+    } else {
+      bins.set(key, { sum: [r, g, b], weight: 1 });
+    }
+  }
+
+  return Array.from(bins.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, bin]) => {
+      const rgb: RgbColor = [
+        bin.sum[0] / bin.weight,
+        bin.sum[1] / bin.weight,
+        bin.sum[2] / bin.weight,
+      ];
+      return { rgb, lab: ColorSpaceService.rgbToLab(rgb), weight: bin.weight };
+    });
+}
+
+/**
+ * Weighted mean of colors in CIELAB
+ */
+export function weightedMeanLab(colors: WeightedColor[]): LabColor {
+  let l = 0;
+  let a = 0;
+  let b = 0;
+  let total = 0;
+
+  for (const color of colors) {
+    l += color.lab[0] * color.weight;
+    a += color.lab[1] * color.weight;
+    b += color.lab[2] * color.weight;
+    total += color.weight;
+  }
+
+  return total > 0 ? [l / total, a / total, b / total] : [0, 0, 0];
+}
+
+/**
+ * Index of the centroid closest to a color by ΔE2000
+ */
+export function nearestCentroid(lab: LabColor, centroids: LabColor[]): { index: number; distance: number } {
+  let index = 0;
+  let distance = Infinity;
+
+  centroids.forEach((centroid, candidate) => {
+    const candidateDistance = ColorSpaceService.deltaE2000(lab, centroid);
+    if (candidateDistance < distance) {
+      distance = candidateDistance;
+      index = candidate;
+    }
+  });
+
+  return { index, distance };
+}
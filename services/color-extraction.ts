@@ -1,9 +1,22 @@
-import { ColorExtractionOptions, ColorPalette, ExtractedColor } from '@/types/ai-analysis';
+import {
+  ColorExtractionOptions,
+  ColorPalette,
+  ExtractedColor,
+  ImageRegion,
+  PaletteRegion,
+  RegionPalette,
+} from '@/types/ai-analysis';
+import { DecodedImage, ImageBounds } from '@/types/image';
 import * as ImageManipulator from 'expo-image-manipulator';
 
+import { ColorClusteringService } from './color-clustering';
+import { ColorSpaceService } from './color-space';
+import { ImageDecodingService } from './image-decoding';
+import { PaletteMoodService } from './palette-mood';
+
 /**
  * Color Extraction Service
- * Extracts dominant colors from workspace photos using k-means clustering
+ * Extracts dominant colors from workspace photos using perceptual clustering in CIELAB
  */
 export class ColorExtractionService {
   private static readonly DEFAULT_OPTIONS: ColorExtractionOptions = {
@@ -11,8 +24,23 @@ export class ColorExtractionService {
     quality: 10,
     ignoreWhite: true,
     ignoreBlack: true,
+    algorithm: 'kmeans',
+    seed: 42,
+  };
+
+  private static readonly REGION_ORDER: PaletteRegion[] = ['walls', 'furniture', 'floor', 'accents'];
+
+  // Fallback split for a typical desk photo: walls on top, furniture in the middle, floor at the bottom
+  private static readonly SPATIAL_REGIONS: Record<Exclude<PaletteRegion, 'accents'>, ImageBounds> = {
+    walls: { x: 0, y: 0, width: 1, height: 0.4 },
+    furniture: { x: 0, y: 0.4, width: 1, height: 0.4 },
+    floor: { x: 0, y: 0.8, width: 1, height: 0.2 },
   };
 
+  // Without AI regions, accents are the saturated pixels anywhere in the image
+  private static readonly ACCENT_MIN_CHROMA = 30;
+  private static readonly MIN_REGION_PIXELS = 20;
+
   /**
    * Extract color palette from image
    */
@@ -20,33 +48,47 @@ export class ColorExtractionService {
     imageUri: string,
     options: Partial<ColorExtractionOptions> = {}
   ): Promise<ColorPalette> {
+    try {
+      // Step 1: Resize and decode the image for faster processing
+      const image = await this.loadAnalysisImage(imageUri);
+
+      return this.extractColorPaletteFromImage(image, options);
+    } catch (error) {
+      console.error('Color extraction failed:', error);
+      // Return fallback palette
+      return this.createFallbackPalette();
+    }
+  }
+
+  /**
+   * Extract color palette from an image already loaded with loadAnalysisImage
+   */
+  static extractColorPaletteFromImage(
+    image: DecodedImage,
+    options: Partial<ColorExtractionOptions> = {}
+  ): ColorPalette {
     const config = { ...this.DEFAULT_OPTIONS, ...options };
 
     try {
-      // Step 1: Resize image for faster processing
-      const resizedImage = await this.resizeImageForAnalysis(imageUri);
-      
-      // Step 2: Extract pixel data
-      const pixelData = await this.extractPixelData(resizedImage.uri);
+      // Step 2: Sample pixels from the decoded image
+      const pixelData = this.extractPixelData(image, config);
       
-      // Step 3: Extract dominant colors using k-means clustering
+      // Step 3: Extract dominant colors by clustering in CIELAB
       const dominantColors = this.extractDominantColors(pixelData, config);
       
       // Step 4: Convert to hex codes
       const hexColors = dominantColors.map(color => color.hex);
       
-      // Step 5: Determine mood based on color analysis
-      const mood = this.determineMood(dominantColors);
-      
-      // Step 6: Generate palette description
-      const description = this.generateDescription(dominantColors, mood);
+      // Step 5: Classify mood from warmth, saturation, contrast, value and hue families
+      const moodAnalysis = PaletteMoodService.analyze(dominantColors);
 
       return {
         id: `extracted_${Date.now()}`,
         name: 'Workspace Colors',
         colors: hexColors,
-        mood,
-        description,
+        mood: moodAnalysis.mood,
+        moodTags: moodAnalysis.tags,
+        description: moodAnalysis.description,
       };
     } catch (error) {
       console.error('Color extraction failed:', error);
@@ -55,13 +97,90 @@ export class ColorExtractionService {
     }
   }
 
+  /**
+   * Extract labeled sub-palettes for walls, furniture, floor and accents.
+   * AI-provided regions are used where available, with a spatial split as fallback.
+   */
+  static extractRegionPalettes(
+    image: DecodedImage,
+    regions: ImageRegion[] = [],
+    options: Partial<ColorExtractionOptions> = {}
+  ): RegionPalette[] {
+    // Walls are often white and furniture often black, so keep both extremes by default
+    const config = {
+      ...this.DEFAULT_OPTIONS,
+      maxColors: 3,
+      ignoreWhite: false,
+      ignoreBlack: false,
+      ...options,
+    };
+    const totalPixels = ImageDecodingService.samplePixels(image, {
+      step: config.quality,
+      minAlpha: 125,
+    }).length;
+    if (totalPixels === 0) return [];
+
+    const palettes: RegionPalette[] = [];
+
+    for (const region of this.REGION_ORDER) {
+      try {
+        const aiBounds = regions.filter(item => item.label === region).map(item => item.bounds);
+        const source: RegionPalette['source'] = aiBounds.length > 0 ? 'ai' : 'spatial';
+
+        let pixels: number[][];
+        if (aiBounds.length > 0) {
+          pixels = aiBounds.flatMap(bounds =>
+            ImageDecodingService.samplePixels(image, { step: config.quality, minAlpha: 125, bounds })
+          );
+        } else if (region === 'accents') {
+          pixels = ImageDecodingService.samplePixels(image, { step: config.quality, minAlpha: 125 })
+            .filter(pixel => ColorSpaceService.rgbToLch(pixel)[1] >= this.ACCENT_MIN_CHROMA);
+        } else {
+          pixels = ImageDecodingService.samplePixels(image, {
+            step: config.quality,
+            minAlpha: 125,
+            bounds: this.SPATIAL_REGIONS[region],
+          });
+        }
+
+        if (pixels.length < this.MIN_REGION_PIXELS) continue;
+
+        const colors = this.extractDominantColors(pixels, config);
+        if (colors.length === 0) continue;
+
+        palettes.push({
+          region,
+          colors: colors.map(color => color.hex),
+          coverage: Math.min(1, pixels.length / totalPixels),
+          source,
+        });
+      } catch (error) {
+        console.warn(`Region color extraction failed for ${region}:`, error);
+      }
+    }
+
+    return palettes;
+  }
+
+  /**
+   * Resize and decode an image into the RGBA pixels shared by local image analysis
+   */
+  static async loadAnalysisImage(imageUri: string): Promise<DecodedImage> {
+    const resizedImage = await this.resizeImageForAnalysis(imageUri);
+    if (!resizedImage.base64) {
+      throw new Error('Resized image did not include base64 data');
+    }
+
+    return ImageDecodingService.decodeBase64Image(resizedImage.base64);
+  }
+
   /**
    * Resize image to optimal size for color analysis
    */
   private static async resizeImageForAnalysis(imageUri: string) {
     return await ImageManipulator.manipulateAsync(
       imageUri,
-      [{ resize: { width: 200, height: 200 } }],
+      [{ resize: { width: 200 } }],
       { 
         compress: 0.8, 
         format: ImageManipulator.SaveFormat.JPEG,
@@ -71,52 +190,26 @@ export class ColorExtractionService {
   }
 
   /**
-   * Extract pixel data from base64 image using Canvas API simulation
-   */
-  private static async extractPixelData(imageUri: string): Promise<number[][]> {
-    try {
-      // For React Native, we'll use a simplified approach
-      // In a real implementation, you might use react-native-canvas or similar
-      // For now, we'll simulate pixel extraction with a mock implementation
-      return this.simulatePixelExtraction();
-    } catch (error) {
-      console.error('Pixel extraction failed:', error);
-      return this.simulatePixelExtraction();
-    }
-  }
-
-  /**
-   * Simulate pixel extraction (fallback for React Native limitations)
+   * Sample RGB pixels from the decoded image
    */
-  private static simulatePixelExtraction(): number[][] {
-    // Generate sample pixel data for demonstration
-    // In production, this would be replaced with actual canvas pixel extraction
-    const pixels: number[][] = [];
-    const sampleColors = [
-      [240, 240, 235], // Off-white
-      [200, 195, 185], // Light gray
-      [150, 145, 135], // Medium gray
-      [100, 95, 85],   // Dark gray
-      [180, 160, 140], // Warm beige
-      [120, 140, 160], // Cool blue-gray
-    ];
+  private static extractPixelData(
+    image: DecodedImage,
+    options: ColorExtractionOptions
+  ): number[][] {
+    const pixels = ImageDecodingService.samplePixels(image, {
+      step: options.quality,
+      minAlpha: 125,
+    });
 
-    // Generate 1000 sample pixels
-    for (let i = 0; i < 1000; i++) {
-      const randomColor = sampleColors[Math.floor(Math.random() * sampleColors.length)];
-      // Add some variation
-      const variation = [-10, -5, 0, 5, 10];
-      const variedColor = randomColor.map(channel => 
-        Math.max(0, Math.min(255, channel + variation[Math.floor(Math.random() * variation.length)]))
-      );
-      pixels.push(variedColor);
+    if (pixels.length === 0) {
+      throw new Error('No opaque pixels found in image');
     }
 
     return pixels;
   }
 
   /**
-   * Extract dominant colors using simplified k-means clustering
+   * Extract dominant colors using the configured clustering algorithm
    */
   private static extractDominantColors(
     pixels: number[][],
@@ -133,90 +226,27 @@ export class ColorExtractionService {
       return true;
     });
 
-    // Simple color clustering - group similar colors
-    const colorGroups = this.groupSimilarColors(filteredPixels);
-    
-    // Sort by frequency and take top colors
-    const sortedGroups = colorGroups
-      .sort((a, b) => b.pixels.length - a.pixels.length)
-      .slice(0, options.maxColors);
+    const clusters = ColorClusteringService.cluster(filteredPixels, {
+      algorithm: options.algorithm,
+      clusterCount: options.maxColors,
+      seed: options.seed,
+    });
 
     // Convert to ExtractedColor format
-    return sortedGroups.map(group => {
-      const avgColor = this.calculateAverageColor(group.pixels);
-      const [r, g, b] = avgColor;
+    return clusters.map(cluster => {
+      const [r, g, b] = cluster.rgb;
       
       return {
         hex: this.rgbToHex(r, g, b),
-        rgb: avgColor,
-        frequency: group.pixels.length / filteredPixels.length,
+        rgb: cluster.rgb,
+        lab: cluster.lab,
+        frequency: cluster.frequency,
+        spread: cluster.spread,
         luminance: this.calculateLuminance(r, g, b),
       };
     });
   }
 
-  /**
-   * Group similar colors together
-   */
-  private static groupSimilarColors(pixels: number[][]): Array<{ pixels: number[][]; centroid: number[] }> {
-    const groups: Array<{ pixels: number[][]; centroid: number[] }> = [];
-    const threshold = 30; // Color similarity threshold
-
-    for (const pixel of pixels) {
-      let foundGroup = false;
-      
-      for (const group of groups) {
-        const distance = this.calculateColorDistance(pixel, group.centroid);
-        if (distance < threshold) {
-          group.pixels.push(pixel);
-          group.centroid = this.calculateAverageColor(group.pixels);
-          foundGroup = true;
-          break;
-        }
-      }
-      
-      if (!foundGroup) {
-        groups.push({
-          pixels: [pixel],
-          centroid: [...pixel],
-        });
-      }
-    }
-
-    return groups;
-  }
-
-  /**
-   * Calculate Euclidean distance between two colors
-   */
-  private static calculateColorDistance(color1: number[], color2: number[]): number {
-    const [r1, g1, b1] = color1;
-    const [r2, g2, b2] = color2;
-    
-    return Math.sqrt(
-      Math.pow(r2 - r1, 2) + 
-      Math.pow(g2 - g1, 2) + 
-      Math.pow(b2 - b1, 2)
-    );
-  }
-
-  /**
-   * Calculate average color from array of pixels
-   */
-  private static calculateAverageColor(pixels: number[][]): [number, number, number] {
-    const sum = pixels.reduce(
-      (acc, pixel) => [acc[0] + pixel[0], acc[1] + pixel[1], acc[2] + pixel[2]],
-      [0, 0, 0]
-    );
-    
-    const count = pixels.length;
-    return [
-      Math.round(sum[0] / count),
-      Math.round(sum[1] / count),
-      Math.round(sum[2] / count),
-    ];
-  }
-
   /**
    * Calculate luminance of a color
    */
@@ -240,67 +270,6 @@ export class ColorExtractionService {
     }).join('').toUpperCase()}`;
   }
 
-  /**
-   * Determine mood based on color analysis
-   */
-  private static determineMood(colors: ExtractedColor[]): ColorPalette['mood'] {
-    if (colors.length === 0) return 'focus';
-
-    // Calculate average temperature and saturation
-    let warmColors = 0;
-    let coolColors = 0;
-    let totalSaturation = 0;
-    let totalLuminance = 0;
-
-    colors.forEach(color => {
-      const [r, g, b] = color.rgb;
-      
-      // Determine temperature (warm vs cool)
-      if (r > b) warmColors++;
-      else coolColors++;
-      
-      // Calculate saturation
-      const max = Math.max(r, g, b);
-      const min = Math.min(r, g, b);
-      const saturation = max === 0 ? 0 : (max - min) / max;
-      totalSaturation += saturation;
-      
-      totalLuminance += color.luminance;
-    });
-
-    const avgSaturation = totalSaturation / colors.length;
-    const avgLuminance = totalLuminance / colors.length;
-    const isWarm = warmColors > coolColors;
-
-    // Determine mood based on color characteristics
-    if (avgSaturation > 0.6 && avgLuminance > 0.5) {
-      return 'energizing';
-    } else if (avgSaturation > 0.4 && isWarm) {
-      return 'creativity';
-    } else if (avgLuminance < 0.3 || avgSaturation < 0.2) {
-      return 'focus';
-    } else {
-      return 'calm';
-    }
-  }
-
-  /**
-   * Generate description based on colors and mood
-   */
-  private static generateDescription(colors: ExtractedColor[], mood: ColorPalette['mood']): string {
-    const colorCount = colors.length;
-    const avgLuminance = colors.reduce((sum, c) => sum + c.luminance, 0) / colorCount;
-    
-    const descriptions = {
-      focus: `Neutral color scheme with ${colorCount} balanced tones that promote concentration and minimize distractions`,
-      creativity: `Inspiring palette of ${colorCount} warm colors that stimulate creative thinking and innovation`,
-      calm: `Soothing combination of ${colorCount} gentle colors that create a peaceful and relaxing atmosphere`,
-      energizing: `Vibrant selection of ${colorCount} bright colors that boost energy and motivation`,
-    };
-
-    return descriptions[mood];
-  }
-
   /**
    * Create fallback palette when extraction fails
    */
@@ -0,0 +1,249 @@
+import { ColorPalette, PaletteHarmony, SuggestedPalette } from '@/types/ai-analysis';
+import { ColorPreferenceId, QuizResponse } from '@/types/quiz';
+
+import { ColorSpaceService, LchColor } from './color-space';
+
+interface PreferenceProfile {
+  lightness: { light: number; mid: number; deep: number };
+  chroma: { base: number; accent: number };
+  fallbackHue: number; // Used when the room has no clear hue
+  hueBias?: { hue: number; strength: number }; // Pulls the anchor hue toward a family
+}
+
+const PREFERENCE_PROFILES: Record<ColorPreferenceId | 'default', PreferenceProfile> = {
+  'neutral-tones': {
+    lightness: { light: 93, mid: 78, deep: 52 },
+    chroma: { base: 6, accent: 18 },
+    fallbackHue: 75,
+  },
+  'bold-accents': {
+    lightness: { light: 92, mid: 60, deep: 38 },
+    chroma: { base: 14, accent: 55 },
+    fallbackHue: 35,
+  },
+  'natural-greens': {
+    lightness: { light: 92, mid: 68, deep: 45 },
+    chroma: { base: 12, accent: 32 },
+    fallbackHue: 150,
+    hueBias: { hue: 145, strength: 0.7 },
+  },
+  default: {
+    lightness: { light: 92, mid: 70, deep: 45 },
+    chroma: { base: 10, accent: 30 },
+    fallbackHue: 75,
+  },
+};
+
+// Colors below this LCh chroma read as neutral and don't define a hue
+const MIN_ANCHOR_CHROMA = 12;
+
+/**
+ * Color Harmony Service
+ * Proposes target palettes from the extracted room palette and the user's color preference
+ */
+export class ColorHarmonyService {
+  /**
+   * Generate complementary, analogous, triadic and 60-30-10 palettes
+   */
+  static generateHarmonies(
+    palette: ColorPalette,
+    colorPreference?: ColorPreferenceId
+  ): SuggestedPalette[] {
+    const profile = PREFERENCE_PROFILES[colorPreference ?? 'default'];
+    const anchor = this.findAnchor(palette, profile);
+    const hue = this.applyHueBias(anchor.hue, profile);
+    const anchorName = this.describeHue(hue);
+    const source = anchor.hex
+      ? `${anchor.hex}, the ${this.describeHue(anchor.hue)} that stands out most in your room`
+      : `a ${anchorName} base that suits your preference, since your room is mostly neutral`;
+
+    const harmonies: PaletteHarmony[] = ['complementary', 'analogous', 'triadic', '60-30-10'];
+
+    return harmonies.map(harmony => {
+      const lchColors = this.buildColors(harmony, hue, profile);
+      const mood = this.determineMood(harmony, colorPreference);
+
+      return {
+        id: `harmony_${harmony}_${palette.id}`,
+        name: this.getPaletteName(harmony),
+        colors: lchColors.map(color => ColorSpaceService.lchToHex(color)),
+        mood,
+        description: this.getDescription(harmony, anchorName),
+        harmony,
+        rationale: this.getRationale(harmony, source, colorPreference),
+        proportions: harmony === '60-30-10' ? [0.6, 0.3, 0.1] : undefined,
+      };
+    });
+  }
+
+  /**
+   * Read the color-preference answer from quiz responses
+   */
+  static getColorPreference(quizResponses: QuizResponse[]): ColorPreferenceId | undefined {
+    const answer = quizResponses.find(response => response.questionId === 'color-preference')
+      ?.selectedOptionIds[0];
+
+    return answer && answer in PREFERENCE_PROFILES && answer !== 'default'
+      ? (answer as ColorPreferenceId)
+      : undefined;
+  }
+
+  /**
+   * Pick the most prominent chromatic color as the harmony anchor
+   */
+  private static findAnchor(
+    palette: ColorPalette,
+    profile: PreferenceProfile
+  ): { hue: number; hex?: string } {
+    // Palette colors are ordered by prominence, so the first chromatic one wins
+    for (const hex of palette.colors) {
+      const rgb = ColorSpaceService.hexToRgb(hex);
+      if (!rgb) continue;
+
+      const [, chroma, hue] = ColorSpaceService.rgbToLch(rgb);
+      if (chroma >= MIN_ANCHOR_CHROMA) {
+        return { hue, hex: hex.toUpperCase() };
+      }
+    }
+
+    return { hue: profile.fallbackHue };
+  }
+
+  /**
+   * Rotate the anchor hue part of the way toward the preferred hue family
+   */
+  private static applyHueBias(hue: number, profile: PreferenceProfile): number {
+    if (!profile.hueBias) return hue;
+
+    let difference = profile.hueBias.hue - hue;
+    if (difference > 180) difference -= 360;
+    if (difference < -180) difference += 360;
+
+    return this.rotate(hue, difference * profile.hueBias.strength);
+  }
+
+  /**
+   * Build LCh colors for a harmony around the anchor hue
+   */
+  private static buildColors(
+    harmony: PaletteHarmony,
+    hue: number,
+    profile: PreferenceProfile
+  ): LchColor[] {
+    const { light, mid, deep } = profile.lightness;
+    const { base, accent } = profile.chroma;
+
+    switch (harmony) {
+      case 'complementary':
+        return [
+          [light, base, hue],
+          [mid, accent, hue],
+          [mid, accent, this.rotate(hue, 180)],
+          [deep, base, hue],
+        ];
+      case 'analogous':
+        return [
+          [light, base, hue],
+          [mid, accent, this.rotate(hue, -30)],
+          [mid, accent, hue],
+          [deep, accent, this.rotate(hue, 30)],
+        ];
+      case 'triadic':
+        return [
+          [light, base * 0.6, hue],
+          [mid, accent, hue],
+          [mid, accent, this.rotate(hue, 120)],
+          [mid, accent, this.rotate(hue, 240)],
+        ];
+      case '60-30-10':
+      default:
+        return [
+          [light, base * 0.6, hue],
+          [mid, base * 1.5, this.rotate(hue, 20)],
+          [deep + 10, accent * 1.2, this.rotate(hue, 180)],
+        ];
+    }
+  }
+
+  /**
+   * Mood each harmony tends to create, adjusted for the user's preference
+   */
+  private static determineMood(
+    harmony: PaletteHarmony,
+    colorPreference?: ColorPreferenceId
+  ): ColorPalette['mood'] {
+    switch (harmony) {
+      case 'complementary':
+        return colorPreference === 'bold-accents' ? 'energizing' : 'creativity';
+      case 'analogous':
+        return 'calm';
+      case 'triadic':
+        return colorPreference === 'bold-accents' ? 'energizing' : 'creativity';
+      case '60-30-10':
+      default:
+        if (colorPreference === 'natural-greens') return 'calm';
+        if (colorPreference === 'bold-accents') return 'creativity';
+        return 'focus';
+    }
+  }
+
+  private static getPaletteName(harmony: PaletteHarmony): string {
+    const names: Record<PaletteHarmony, string> = {
+      complementary: 'Complementary Contrast',
+      analogous: 'Analogous Flow',
+      triadic: 'Triadic Balance',
+      '60-30-10': 'Classic 60-30-10',
+    };
+    return names[harmony];
+  }
+
+  private static getDescription(harmony: PaletteHarmony, anchorName: string): string {
+    const descriptions: Record<PaletteHarmony, string> = {
+      complementary: `Soft ${anchorName} walls with an opposite-hue accent for lively contrast`,
+      analogous: `Neighboring hues around ${anchorName} for a cohesive, low-contrast room`,
+      triadic: `Three evenly spaced hues anchored by ${anchorName} for playful variety`,
+      '60-30-10': `A ${anchorName}-led dominant tone, a supporting shade and a small accent`,
+    };
+    return descriptions[harmony];
+  }
+
+  private static getRationale(
+    harmony: PaletteHarmony,
+    source: string,
+    colorPreference?: ColorPreferenceId
+  ): string {
+    const preferenceNotes: Record<ColorPreferenceId, string> = {
+      'neutral-tones': 'Chroma is kept low to match your preference for neutral tones.',
+      'bold-accents': 'Accents are saturated to deliver the bold contrast you asked for.',
+      'natural-greens': 'Hues are pulled toward green to echo your natural, plant-inspired taste.',
+    };
+
+    const harmonyNotes: Record<PaletteHarmony, string> = {
+      complementary: `Built on ${source}, paired with the hue opposite it on the color wheel. Use the accent sparingly on a feature wall or decor.`,
+      analogous: `Built on ${source} and its neighbors 30° either side, which blend naturally and keep visual noise low during long work sessions.`,
+      triadic: `Built on ${source} plus two hues spaced 120° apart. A pale base keeps the three hues from competing.`,
+      '60-30-10': `Built on ${source}: use the first color on about 60% of the room (walls), the second on 30% (furniture, textiles) and the accent on 10% (decor).`,
+    };
+
+    const note = colorPreference ? ` ${preferenceNotes[colorPreference]}` : '';
+    return `${harmonyNotes[harmony]}${note}`;
+  }
+
+  /**
+   * Plain-language name for an LCh hue angle
+   */
+  private static describeHue(hue: number): string {
+    if (hue < 15 || hue >= 345) return 'rose';
+    if (hue < 50) return 'red';
+    if (hue < 75) return 'orange';
+    if (hue < 105) return 'yellow';
+    if (hue < 165) return 'green';
+    if (hue < 215) return 'teal';
+    if (hue < 310) return 'blue';
+    return 'purple';
+  }
+
+  private static rotate(hue: number, degrees: number): number {
+    return (((hue + degrees) % 360) + 360) % 360;
+  }
+}
@@ -0,0 +1,215 @@
+export type RgbColor = [number, number, number];
+export type LabColor = [number, number, number];
+export type LchColor = [number, number, number]; // Lightness, chroma, hue in degrees
+
+// D65 reference white
+const REFERENCE_WHITE = { x: 0.95047, y: 1.0, z: 1.08883 };
+
+/**
+ * Color Space Service
+ * Conversions between sRGB, CIE XYZ and CIELAB, plus perceptual color difference
+ */
+export class ColorSpaceService {
+  /**
+   * Convert an sRGB channel (0-255) to linear light (0-1)
+   */
+  static srgbToLinear(channel: number): number {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  }
+
+  /**
+   * Convert linear light (0-1) to an sRGB channel (0-255, unclamped)
+   */
+  static linearToSrgb(value: number): number {
+    const c = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+    return c * 255;
+  }
+
+  /**
+   * Convert sRGB to CIELAB (D65)
+   */
+  static rgbToLab([r, g, b]: RgbColor | number[]): LabColor {
+    const lr = this.srgbToLinear(r);
+    const lg = this.srgbToLinear(g);
+    const lb = this.srgbToLinear(b);
+
+    const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / REFERENCE_WHITE.x;
+    const y = (lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175) / REFERENCE_WHITE.y;
+    const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / REFERENCE_WHITE.z;
+
+    const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+    const fx = f(x);
+    const fy = f(y);
+    const fz = f(z);
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+  }
+
+  /**
+   * Convert CIELAB (D65) to sRGB, clamped to the 0-255 gamut
+   */
+  static labToRgb([l, a, b]: LabColor | number[]): RgbColor {
+    const fy = (l + 16) / 116;
+    const fx = fy + a / 500;
+    const fz = fy - b / 200;
+
+    const inverse = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27));
+    const x = inverse(fx) * REFERENCE_WHITE.x;
+    const y = inverse(fy) * REFERENCE_WHITE.y;
+    const z = inverse(fz) * REFERENCE_WHITE.z;
+
+    const lr = x * 3.2404542 + y * -1.5371385 + z * -0.4985314;
+    const lg = x * -0.969266 + y * 1.8760108 + z * 0.041556;
+    const lb = x * 0.0556434 + y * -0.2040259 + z * 1.0572252;
+
+    return [lr, lg, lb].map(channel =>
+      Math.max(0, Math.min(255, Math.round(this.linearToSrgb(channel))))
+    ) as RgbColor;
+  }
+
+  /**
+   * Convert CIELAB to cylindrical LCh
+   */
+  static labToLch([l, a, b]: LabColor | number[]): LchColor {
+    return [l, Math.hypot(a, b), this.hueAngle(b, a)];
+  }
+
+  /**
+   * Convert cylindrical LCh to CIELAB
+   */
+  static lchToLab([l, c, h]: LchColor | number[]): LabColor {
+    const radians = this.toRadians(h);
+    return [l, c * Math.cos(radians), c * Math.sin(radians)];
+  }
+
+  /**
+   * Convert sRGB to LCh
+   */
+  static rgbToLch(rgb: RgbColor | number[]): LchColor {
+    return this.labToLch(this.rgbToLab(rgb));
+  }
+
+  /**
+   * Convert LCh to sRGB hex, reducing chroma until the color fits the sRGB gamut
+   */
+  static lchToHex([l, c, h]: LchColor | number[]): string {
+    let chroma = c;
+    for (let attempt = 0; attempt < 20 && chroma > 0; attempt++) {
+      if (this.isInGamut(this.lchToLab([l, chroma, h]))) break;
+      chroma *= 0.9;
+    }
+    return this.rgbToHex(this.labToRgb(this.lchToLab([l, chroma, h])));
+  }
+
+  /**
+   * CIEDE2000 color difference between two CIELAB colors
+   */
+  static deltaE2000(lab1: LabColor | number[], lab2: LabColor | number[]): number {
+    const [l1, a1, b1] = lab1;
+    const [l2, a2, b2] = lab2;
+
+    const c1 = Math.hypot(a1, b1);
+    const c2 = Math.hypot(a2, b2);
+    const meanC = (c1 + c2) / 2;
+    const meanC7 = Math.pow(meanC, 7);
+    const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7))));
+
+    const a1Prime = a1 * (1 + g);
+    const a2Prime = a2 * (1 + g);
+    const c1Prime = Math.hypot(a1Prime, b1);
+    const c2Prime = Math.hypot(a2Prime, b2);
+    const h1Prime = this.hueAngle(b1, a1Prime);
+    const h2Prime = this.hueAngle(b2, a2Prime);
+
+    const deltaL = l2 - l1;
+    const deltaC = c2Prime - c1Prime;
+
+    let deltaHue = 0;
+    if (c1Prime * c2Prime !== 0) {
+      deltaHue = h2Prime - h1Prime;
+      if (deltaHue > 180) deltaHue -= 360;
+      else if (deltaHue < -180) deltaHue += 360;
+    }
+    const deltaH = 2 * Math.sqrt(c1Prime * c2Prime) * Math.sin(this.toRadians(deltaHue / 2));
+
+    const meanL = (l1 + l2) / 2;
+    const meanCPrime = (c1Prime + c2Prime) / 2;
+
+    let meanH = h1Prime + h2Prime;
+    if (c1Prime * c2Prime !== 0) {
+      if (Math.abs(h1Prime - h2Prime) <= 180) meanH /= 2;
+      else if (h1Prime + h2Prime < 360) meanH = (meanH + 360) / 2;
+      else meanH = (meanH - 360) / 2;
+    }
+
+    const t =
+      1 -
+      0.17 * Math.cos(this.toRadians(meanH - 30)) +
+      0.24 * Math.cos(this.toRadians(2 * meanH)) +
+      0.32 * Math.cos(this.toRadians(3 * meanH + 6)) -
+      0.2 * Math.cos(this.toRadians(4 * meanH - 63));
+
+    const deltaTheta = 30 * Math.exp(-Math.pow((meanH - 275) / 25, 2));
+    const meanCPrime7 = Math.pow(meanCPrime, 7);
+    const rc = 2 * Math.sqrt(meanCPrime7 / (meanCPrime7 + Math.pow(25, 7)));
+    const meanL50 = Math.pow(meanL - 50, 2);
+    const sl = 1 + (0.015 * meanL50) / Math.sqrt(20 + meanL50);
+    const sc = 1 + 0.045 * meanCPrime;
+    const sh = 1 + 0.015 * meanCPrime * t;
+    const rt = -Math.sin(this.toRadians(2 * deltaTheta)) * rc;
+
+    const lTerm = deltaL / sl;
+    const cTerm = deltaC / sc;
+    const hTerm = deltaH / sh;
+
+    return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rt * cTerm * hTerm);
+  }
+
+  /**
+   * Convert RGB to uppercase hex
+   */
+  static rgbToHex([r, g, b]: RgbColor | number[]): string {
+    return `#${[r, g, b].map(x => {
+      const hex = Math.max(0, Math.min(255, Math.round(x))).toString(16);
+      return hex.length === 1 ? '0' + hex : hex;
+    }).join('').toUpperCase()}`;
+  }
+
+  /**
+   * Parse #RGB or #RRGGBB hex into RGB, returning null for invalid input
+   */
+  static hexToRgb(hex: string): RgbColor | null {
+    const value = hex.trim().replace(/^#/, '');
+    const expanded = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+    if (!/^[0-9a-fA-F]{6}$/.test(expanded)) {
+      return null;
+    }
+    return [
+      parseInt(expanded.slice(0, 2), 16),
+      parseInt(expanded.slice(2, 4), 16),
+      parseInt(expanded.slice(4, 6), 16),
+    ];
+  }
+
+  /**
+   * Whether a CIELAB color maps into sRGB without clipping
+   */
+  private static isInGamut(lab: LabColor): boolean {
+    const rgb = this.labToRgb(lab);
+    return this.deltaE2000(this.rgbToLab(rgb), lab) < 1;
+  }
+
+  /**
+   * Hue angle in degrees (0-360)
+   */
+  private static hueAngle(b: number, a: number): number {
+    if (a === 0 && b === 0) return 0;
+    const angle = (Math.atan2(b, a) * 180) / Math.PI;
+    return angle >= 0 ? angle : angle + 360;
+  }
+
+  private static toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+  }
+}
@@ -0,0 +1,99 @@
+import { AppState, NativeEventSubscription } from 'react-native';
+
+import { ConnectivityMonitor } from '@/types/connectivity';
+
+import { OpenAIClientService } from './openai-client';
+
+const PROBE_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 15000;
+
+/**
+ * Detects connectivity by probing the AI provider's endpoint, polling only while someone is listening.
+ * Any HTTP response counts, so a LAN or localhost server is reachable without internet access.
+ */
+class ProbeConnectivityMonitor implements ConnectivityMonitor {
+  private listeners = new Set<(isConnected: boolean) => void>();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private lastState: boolean | null = null;
+
+  constructor(private readonly getProbeUrl: () => Promise<string>) {}
+
+  async isConnected(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+    try {
+      await fetch(await this.getProbeUrl(), { method: 'HEAD', signal: controller.signal });
+      return true;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  subscribe(listener: (isConnected: boolean) => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.start();
+    } else if (this.lastState !== null) {
+      listener(this.lastState);
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  private start() {
+    this.pollTimer = setInterval(() => this.check(), POLL_INTERVAL_MS);
+    // Coming back to the app is a good moment to look again
+    this.appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') this.check();
+    });
+    this.check();
+  }
+
+  private stop() {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.appStateSubscription?.remove();
+    this.pollTimer = null;
+    this.appStateSubscription = null;
+    this.lastState = null;
+  }
+
+  private async check() {
+    const isConnected = await this.isConnected();
+    if (isConnected !== this.lastState && this.listeners.size > 0) {
+      this.lastState = isConnected;
+      this.listeners.forEach(listener => listener(isConnected));
+    }
+  }
+}
+
+/**
+ * Connectivity Service
+ * App-wide access to the active connectivity monitor
+ */
+export class ConnectivityService {
+  private static monitor: ConnectivityMonitor = new ProbeConnectivityMonitor(() => OpenAIClientService.getEndpointUrl());
+
+  /**
+   * Replace the connectivity source, e.g. with a stub that reports offline
+   */
+  static setMonitor(monitor: ConnectivityMonitor): void {
+    this.monitor = monitor;
+  }
+
+  static isConnected(): Promise<boolean> {
+    return this.monitor.isConnected();
+  }
+
+  static subscribe(listener: (isConnected: boolean) => void): () => void {
+    return this.monitor.subscribe(listener);
+  }
+}
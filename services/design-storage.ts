@@ -2,6 +2,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { WorkspaceAnalysisResult } from '@/types/ai-analysis';
 import { PhotoAsset } from '@/types/photo';
+import { DEFAULT_PROMPT_VARIANT } from '@/types/prompt';
 import { QuizResponse } from '@/types/quiz';
 import {
     createDesignId,
@@ -199,7 +200,7 @@ export class DesignStorageService {
    */
   static async updateDesign(
     id: string,
-    updates: Partial<Pick<SavedDesign, 'name' | 'isFavorite' | 'tags' | 'notes'>>
+    updates: Partial<Pick<SavedDesign, 'name' | 'isFavorite' | 'tags' | 'notes' | 'analysisResult' | 'conversation' | 'ergonomicChecks'>>
   ): Promise<StorageResult<SavedDesign>> {
     try {
       const allDesignsResult = await this.getAllSavedDesigns();
@@ -373,6 +374,7 @@ export class DesignStorageService {
     total: number;
     favorites: number;
     tags: { [tag: string]: number };
+    prompts: { [prompt: string]: number }; // Designs per analysis prompt revision, e.g. v2/control
     oldestDesign?: number;
     newestDesign?: number;
   }>> {
@@ -386,12 +388,14 @@ export class DesignStorageService {
             total: 0,
             favorites: 0,
             tags: {},
+            prompts: {},
           },
         };
       }
 
       const designs = allDesignsResult.data;
       const tagCounts: { [tag: string]: number } = {};
+      const promptCounts: { [prompt: string]: number } = {};
 
       // Count tags
       designs.forEach(design => {
@@ -400,10 +404,18 @@ export class DesignStorageService {
         });
       });
 
+      // Count prompt revisions, so results can be compared across them
+      designs.forEach(({ analysisResult }) => {
+        if (analysisResult.promptVersion === undefined) return;
+        const prompt = `v${analysisResult.promptVersion}/${analysisResult.promptVariant ?? DEFAULT_PROMPT_VARIANT}`;
+        promptCounts[prompt] = (promptCounts[prompt] || 0) + 1;
+      });
+
       const stats = {
         total: designs.length,
         favorites: designs.filter(d => d.isFavorite).length,
         tags: tagCounts,
+        prompts: promptCounts,
         oldestDesign: designs.length > 0 ? Math.min(...designs.map(d => d.createdAt)) : undefined,
         newestDesign: designs.length > 0 ? Math.max(...designs.map(d => d.createdAt)) : undefined,
       };
@@ -1,4 +1,8 @@
 import { ErgonomicInsight } from '@/types/ai-analysis';
+import { ErgonomicEvaluationItem, WorkspaceAnalysisResponse } from '@/types/workspace-analysis-schema';
+
+type ErgonomicCategory = ErgonomicInsight['category'];
+type ErgonomicStatus = ErgonomicInsight['status'];
 
 export interface ErgonomicAnalysisConfig {
   enableDetailedMetrics: boolean;
@@ -40,7 +44,7 @@ export class ErgonomicAnalysisService {
    * Analyze ergonomic factors from AI response data
    */
   static analyzeErgonomics(
-    analysisData: any,
+    analysisData: WorkspaceAnalysisResponse,
     config: ErgonomicAnalysisConfig = {
       enableDetailedMetrics: true,
       includePostureAnalysis: true,
@@ -50,24 +54,17 @@ export class ErgonomicAnalysisService {
     const insights: ErgonomicInsight[] = [];
     
     try {
-      // Process AI ergonomic evaluation if available
-      if (analysisData.ergonomic_evaluation && Array.isArray(analysisData.ergonomic_evaluation)) {
-        analysisData.ergonomic_evaluation.forEach((item: any) => {
-          const insight = this.processErgonomicItem(item, config);
-          if (insight) {
-            insights.push(insight);
-          }
-        });
-      }
+      // Process AI ergonomic evaluation
+      analysisData.ergonomic_evaluation.forEach(item => {
+        insights.push(this.processErgonomicItem(item, config));
+      });
       
       // Add enhanced analysis based on improvement priorities
-      if (analysisData.improvement_priorities && Array.isArray(analysisData.improvement_priorities)) {
-        const additionalInsights = this.extractInsightsFromPriorities(
-          analysisData.improvement_priorities,
-          config
-        );
-        insights.push(...additionalInsights);
-      }
+      const additionalInsights = this.extractInsightsFromPriorities(
+        analysisData.improvement_priorities,
+        config
+      );
+      insights.push(...additionalInsights);
       
       // Ensure we have at least basic ergonomic categories covered
       const coveredCategories = insights.map(i => i.category);
@@ -88,38 +85,46 @@ export class ErgonomicAnalysisService {
     }
   }
 
+  /**
+   * Turn a single AI evaluation item into an insight, e.g. for a one-category re-check
+   */
+  static analyzeItem(
+    item: ErgonomicEvaluationItem,
+    config: ErgonomicAnalysisConfig = {
+      enableDetailedMetrics: true,
+      includePostureAnalysis: true,
+      strictnessLevel: 'standard'
+    }
+  ): ErgonomicInsight {
+    return this.processErgonomicItem(item, config);
+  }
+
   /**
    * Process individual ergonomic evaluation item
    */
   private static processErgonomicItem(
-    item: any,
+    item: ErgonomicEvaluationItem,
     config: ErgonomicAnalysisConfig
-  ): ErgonomicInsight | null {
-    try {
-      const category = this.normalizeCategory(item.category);
-      if (!category) return null;
-      
-      const status = this.normalizeStatus(item.status, config.strictnessLevel);
-      const title = this.generateTitle(category, status);
-      const description = item.observation || item.description || 'Assessment in progress';
-      const recommendation = this.enhanceRecommendation(
-        item.recommendation,
-        category,
-        status,
-        config
-      );
-      
-      return {
-        category,
-        status,
-        title,
-        description,
-        recommendation
-      };
-    } catch (error) {
-      console.error('Failed to process ergonomic item:', error);
-      return null;
-    }
+  ): ErgonomicInsight {
+    const { category } = item;
+    const status = this.normalizeStatus(item.status, config.strictnessLevel);
+    const title = this.generateTitle(category, status);
+    const description = item.observation.trim() || 'Assessment in progress';
+    const recommendation = this.enhanceRecommendation(
+      item.recommendation.trim(),
+      category,
+      status,
+      config
+    );
+    
+    return {
+      category,
+      status,
+      title,
+      description,
+      recommendation,
+      photoIndex: item.photo - 1
+    };
   }
 
   /**
@@ -152,7 +157,7 @@ export class ErgonomicAnalysisService {
     const lowerImprovement = improvement.toLowerCase();
     
     // Map improvement text to categories
-    const categoryMappings: Record<string, string> = {
+    const categoryMappings: Record<string, ErgonomicCategory> = {
       'ergonomic': 'chair-posture',
       'posture': 'chair-posture',
       'chair': 'chair-posture',
@@ -168,7 +173,7 @@ export class ErgonomicAnalysisService {
       'storage': 'organization'
     };
     
-    let detectedCategory: string | null = null;
+    let detectedCategory: ErgonomicCategory | null = null;
     
     for (const [keyword, category] of Object.entries(categoryMappings)) {
       if (lowerImprovement.includes(keyword)) {
@@ -179,55 +184,25 @@ export class ErgonomicAnalysisService {
     
     if (!detectedCategory) return null;
     
-    const status = priority === 0 ? 'poor' : priority === 1 ? 'needs-improvement' : 'needs-improvement';
+    const status: ErgonomicStatus = priority === 0 ? 'poor' : 'needs-improvement';
     
     return {
-      category: detectedCategory as any,
-      status: status as any,
-      title: this.generateTitle(detectedCategory as any, status as any),
+      category: detectedCategory,
+      status,
+      title: this.generateTitle(detectedCategory, status),
       description: improvement,
-      recommendation: this.generateRecommendation(detectedCategory as any, status as any, config)
-    };
-  }
-
-  /**
-   * Normalize category names
-   */
-  private static normalizeCategory(category: string): string | null {
-    const categoryMap: Record<string, string> = {
-      'desk-height': 'desk-height',
-      'desk_height': 'desk-height',
-      'deskheight': 'desk-height',
-      'chair-posture': 'chair-posture',
-      'chair_posture': 'chair-posture',
-      'chairposture': 'chair-posture',
-      'chair': 'chair-posture',
-      'posture': 'chair-posture',
-      'lighting': 'lighting',
-      'light': 'lighting',
-      'illumination': 'lighting',
-      'screen-position': 'screen-position',
-      'screen_position': 'screen-position',
-      'screenposition': 'screen-position',
-      'monitor': 'screen-position',
-      'display': 'screen-position',
-      'organization': 'organization',
-      'organisation': 'organization',
-      'clutter': 'organization',
-      'storage': 'organization'
+      recommendation: this.generateRecommendation(detectedCategory, status, config)
     };
-    
-    return categoryMap[category.toLowerCase()] || null;
   }
 
   /**
    * Normalize status based on strictness level
    */
   private static normalizeStatus(
-    status: string,
+    status: ErgonomicStatus,
     strictness: 'lenient' | 'standard' | 'strict'
-  ): 'good' | 'needs-improvement' | 'poor' {
-    const statusMap: Record<string, Record<string, string>> = {
+  ): ErgonomicStatus {
+    const statusMap: Record<string, Record<string, ErgonomicStatus>> = {
       lenient: {
         'good': 'good',
         'ok': 'good',
@@ -259,7 +234,7 @@ export class ErgonomicAnalysisService {
       }
     };
     
-    return (statusMap[strictness][status.toLowerCase()] || 'needs-improvement') as any;
+    return statusMap[strictness][status] || 'needs-improvement';
   }
 
   /**
@@ -267,15 +242,15 @@ export class ErgonomicAnalysisService {
    */
   private static enhanceRecommendation(
     baseRecommendation: string | undefined,
-    category: string,
-    status: string,
+    category: ErgonomicCategory,
+    status: ErgonomicStatus,
     config: ErgonomicAnalysisConfig
   ): string | undefined {
     if (baseRecommendation && baseRecommendation.length > 20) {
       return baseRecommendation;
     }
     
-    return this.generateRecommendation(category as any, status as any, config);
+    return this.generateRecommendation(category, status, config);
   }
 
   /**
@@ -0,0 +1,150 @@
+import {
+  AnalysisProgressCallback,
+  ErgonomicCheck,
+  ErgonomicInsight,
+  isAIAnalysisError,
+  LightingAnalysis
+} from '@/types/ai-analysis';
+import { AIUsage } from '@/types/ai-usage';
+import { PhotoAsset } from '@/types/photo';
+import { SavedDesign, StorageResult } from '@/types/storage';
+import { ERGONOMIC_CHECK_FORMAT, ErgonomicCheckResponse } from '@/types/workspace-analysis-schema';
+
+import { AIImageProcessingService } from './ai-image-processing';
+import { AIPromptService } from './ai-prompts';
+import { AIResponseParserService } from './ai-response-parser';
+import { ColorExtractionService } from './color-extraction';
+import { DesignStorageService } from './design-storage';
+import { ErgonomicAnalysisService } from './ergonomic-analysis';
+import { LightingAnalysisService } from './lighting-analysis';
+import { OpenAIClientService } from './openai-client';
+import { UsageTrackingService } from './usage-tracking';
+
+// Older checks are dropped from the design's history past this many
+const MAX_CHECKS_PER_DESIGN = 20;
+
+/**
+ * Ergonomic Check Service
+ * Re-checks one ergonomic category of a saved design against a new photo, instead of re-running the full analysis.
+ * A check is a single smaller AI call, so it counts toward its own daily limit rather than the analysis limit.
+ */
+export class ErgonomicCheckService {
+  /**
+   * Re-assess one category from a new photo, replace that insight in the saved design and record how its status changed
+   */
+  static async checkCategory(
+    designId: string,
+    category: ErgonomicInsight['category'],
+    photo: PhotoAsset,
+    note?: string,
+    onProgress?: AnalysisProgressCallback,
+    signal?: AbortSignal
+  ): Promise<StorageResult<SavedDesign>> {
+    try {
+      onProgress?.('Checking photo...', 0);
+      const imageValidation = await AIImageProcessingService.validateImageForAI(photo.uri);
+      if (!imageValidation.isValid) {
+        return { success: false, error: `Image validation failed: ${imageValidation.error}` };
+      }
+
+      // Work from the stored design, which may have changed since the caller loaded it
+      const designResult = await DesignStorageService.getDesignById(designId);
+      if (!designResult.success || !designResult.data) {
+        return { success: false, error: designResult.error };
+      }
+      const design = designResult.data;
+
+      const previous = design.analysisResult.ergonomicInsights.find(insight => insight.category === category);
+      const prompt = await AIPromptService.getErgonomicCheckPrompt(category, previous, note);
+
+      const quota = await UsageTrackingService.recordCategoryCheck();
+      if (!quota.success) {
+        return { success: false, error: quota.error };
+      }
+
+      onProgress?.('Re-checking this area...', 20);
+      let usage: AIUsage | undefined;
+      let aiContent: string;
+      try {
+        aiContent = await OpenAIClientService.analyzeImageWithPrompt(
+          [{
+            base64: await AIImageProcessingService.convertImageToBase64(photo.uri),
+            mimeType: 'image/jpeg',
+            width: photo.width,
+            height: photo.height,
+          }],
+          prompt.text,
+          ERGONOMIC_CHECK_FORMAT,
+          signal,
+          callUsage => { usage = callUsage; }
+        );
+      } catch (error) {
+        // No answer came back, so the check doesn't count
+        await UsageTrackingService.refundCategoryCheck();
+        throw error;
+      }
+
+      let response: ErgonomicCheckResponse;
+      try {
+        response = AIResponseParserService.parseErgonomicCheckResponse(aiContent);
+      } catch (error) {
+        console.error('Invalid ergonomic check response:', error);
+        return { success: false, error: 'The AI response didn\'t match the expected format. Please try again.' };
+      }
+
+      onProgress?.('Updating your design...', 80);
+      // A check sends one photo, so there is no photo to attribute the insight to
+      const { photoIndex: _photoIndex, ...checked } = ErgonomicAnalysisService.analyzeItem({ ...response, category, photo: 1 });
+      let insight: ErgonomicInsight = checked;
+
+      // Lighting is grounded in measurements from the photo, as in the full analysis
+      let lightingAnalysis: LightingAnalysis | undefined;
+      if (category === 'lighting') {
+        lightingAnalysis = await this.analyzeLighting(photo.uri);
+        if (lightingAnalysis) {
+          insight = LightingAnalysisService.applyToInsights([insight], lightingAnalysis)[0];
+        }
+      }
+
+      const check: ErgonomicCheck = {
+        id: `check_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        category,
+        previousStatus: previous?.status,
+        newStatus: insight.status,
+        changeSummary: response.change_summary.trim(),
+        note: note?.trim() || undefined,
+        usage,
+        checkedAt: Date.now(),
+      };
+
+      return DesignStorageService.updateDesign(design.id, {
+        analysisResult: {
+          ...design.analysisResult,
+          ergonomicInsights: previous
+            ? design.analysisResult.ergonomicInsights.map(item => item === previous ? insight : item)
+            : [...design.analysisResult.ergonomicInsights, insight],
+          lightingAnalysis: lightingAnalysis ?? design.analysisResult.lightingAnalysis,
+        },
+        ergonomicChecks: [check, ...(design.ergonomicChecks ?? [])].slice(0, MAX_CHECKS_PER_DESIGN),
+      });
+    } catch (error) {
+      console.error('Ergonomic check failed:', error);
+      return {
+        success: false,
+        error: isAIAnalysisError(error) ? error.message : 'Failed to re-check this area. Please try again.',
+      };
+    }
+  }
+
+  /**
+   * Measure lighting from the new photo, or undefined if it can't be decoded
+   */
+  private static async analyzeLighting(imageUri: string): Promise<LightingAnalysis | undefined> {
+    try {
+      return LightingAnalysisService.analyzeImage(await ColorExtractionService.loadAnalysisImage(imageUri));
+    } catch (error) {
+      console.error('Failed to analyze lighting:', error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { DecodedImage, PixelSamplingOptions } from '@/types/image';
+
+import { JpegDecoder } from './jpeg-decoder';
+import { PngDecoder } from './png-decoder';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_LOOKUP = (() => {
+  const lookup = new Int16Array(128).fill(-1);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  // Accept URL-safe variants too
+  lookup['-'.charCodeAt(0)] = 62;
+  lookup['_'.charCodeAt(0)] = 63;
+  return lookup;
+})();
+
+/**
+ * Image Decoding Service
+ * Decodes base64 JPEG/PNG images into RGBA pixels without native dependencies
+ */
+export class ImageDecodingService {
+  /**
+   * Decode a base64 string (optionally a data URI) into an RGBA image
+   */
+  static decodeBase64Image(base64: string): DecodedImage {
+    return this.decodeImage(this.base64ToBytes(base64));
+  }
+
+  /**
+   * Decode raw image bytes, detecting the format from the file signature
+   */
+  static decodeImage(bytes: Uint8Array): DecodedImage {
+    if (JpegDecoder.isJpeg(bytes)) {
+      return JpegDecoder.decode(bytes);
+    }
+    if (PngDecoder.isPng(bytes)) {
+      return PngDecoder.decode(bytes);
+    }
+    throw new Error('Unsupported image format: expected JPEG or PNG');
+  }
+
+  /**
+   * Sample RGB pixels on a fixed grid so the same image always yields the same samples,
+   * optionally limited to a region
+   */
+  static samplePixels(
+    image: DecodedImage,
+    options: PixelSamplingOptions = { step: 1, minAlpha: 125 }
+  ): number[][] {
+    const step = Math.max(1, Math.floor(options.step));
+    const pixelCount = image.width * image.height;
+    const pixels: number[][] = [];
+
+    if (options.bounds) {
+      const { x, y, width, height } = options.bounds;
+      const left = Math.max(0, Math.floor(x * image.width));
+      const top = Math.max(0, Math.floor(y * image.height));
+      const right = Math.min(image.width, Math.ceil((x + width) * image.width));
+      const bottom = Math.min(image.height, Math.ceil((y + height) * image.height));
+
+      for (let row = top; row < bottom; row++) {
+        for (let column = left; column < right; column++) {
+          // Stay on the same grid as full-image sampling
+          const index = row * image.width + column;
+          if (index % step !== 0) continue;
+          const offset = index * 4;
+          if (image.data[offset + 3] < options.minAlpha) continue;
+          pixels.push([image.data[offset], image.data[offset + 1], image.data[offset + 2]]);
+        }
+      }
+
+      return pixels;
+    }
+
+    for (let index = 0; index < pixelCount; index += step) {
+      const offset = index * 4;
+      if (image.data[offset + 3] < options.minAlpha) continue;
+      pixels.push([image.data[offset], image.data[offset + 1], image.data[offset + 2]]);
+    }
+
+    return pixels;
+  }
+
+  /**
+   * Convert base64 text to bytes
+   */
+  static base64ToBytes(base64: string): Uint8Array {
+    const payload = base64.startsWith('data:') ? base64.slice(base64.indexOf(',') + 1) : base64;
+    const output = new Uint8Array(Math.floor((payload.length * 3) / 4));
+    let length = 0;
+    let buffer = 0;
+    let bits = 0;
+
+    for (let i = 0; i < payload.length; i++) {
+      const code = payload.charCodeAt(i);
+      if (code === 61) break; // '=' padding
+      const value = code < 128 ? BASE64_LOOKUP[code] : -1;
+      if (value < 0) continue; // Skip whitespace and line breaks
+
+      buffer = ((buffer << 6) | value) & 0xffffff;
+      bits += 6;
+      if (bits >= 8) {
+        bits -= 8;
+        output[length++] = (buffer >> bits) & 0xff;
+      }
+    }
+
+    return output.subarray(0, length);
+  }
+}
+
+export { JpegDecoder } from './jpeg-decoder';
+export { PngDecoder } from './png-decoder';
+export { PngEncoder } from './png-encoder';
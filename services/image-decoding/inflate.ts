@@ -0,0 +1,314 @@
+/**
+ * Inflate
+ * Pure TypeScript zlib/DEFLATE (RFC 1950/1951) decompressor used by the PNG decoder
+ */
+
+const MAX_BITS = 15;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+  35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+  3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+  7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+/**
+ * Build a canonical Huffman decoding table from code lengths
+ */
+function buildTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let len = 1; len < MAX_BITS; len++) {
+    offsets[len + 1] = offsets[len] + counts[len];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+
+  return { counts, symbols };
+}
+
+const FIXED_LITERAL_TABLE = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return buildTable(lengths);
+})();
+
+const FIXED_DISTANCE_TABLE = buildTable(new Uint8Array(30).fill(5));
+
+/**
+ * Growable output buffer for decompressed bytes
+ */
+class OutputBuffer {
+  private buffer: Uint8Array;
+  length = 0;
+
+  constructor(initialSize: number) {
+    this.buffer = new Uint8Array(Math.max(initialSize, 1024));
+  }
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  push(byte: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  copyBack(distance: number, length: number): void {
+    if (distance > this.length) {
+      throw new Error('Invalid DEFLATE stream: distance too far back');
+    }
+    this.ensure(length);
+    for (let i = 0; i < length; i++) {
+      this.buffer[this.length] = this.buffer[this.length - distance];
+      this.length++;
+    }
+  }
+
+  append(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * LSB-first bit reader over a byte array
+ */
+class BitReader {
+  private position: number;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array, offset: number) {
+    this.position = offset;
+  }
+
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.data.length) {
+        throw new Error('Invalid DEFLATE stream: unexpected end of data');
+      }
+      this.bitBuffer |= this.data[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  alignToByte(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  readBytes(count: number): Uint8Array {
+    if (this.position + count > this.data.length) {
+      throw new Error('Invalid DEFLATE stream: stored block overruns input');
+    }
+    const bytes = this.data.subarray(this.position, this.position + count);
+    this.position += count;
+    return bytes;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let len = 1; len <= MAX_BITS; len++) {
+      code |= this.bits(1);
+      const count = table.counts[len];
+      if (code - count < first) {
+        return table.symbols[index + (code - first)];
+      }
+      index += count;
+      first += count;
+      first <<= 1;
+      code <<= 1;
+    }
+
+    throw new Error('Invalid DEFLATE stream: bad Huffman code');
+  }
+}
+
+/**
+ * Read the dynamic Huffman tables of a type 2 block
+ */
+function readDynamicTables(reader: BitReader): [HuffmanTable, HuffmanTable] {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthTable = buildTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let index = 0;
+  while (index < lengths.length) {
+    const symbol = reader.decode(codeLengthTable);
+
+    if (symbol < 16) {
+      lengths[index++] = symbol;
+      continue;
+    }
+
+    let repeatValue = 0;
+    let repeatCount: number;
+    if (symbol === 16) {
+      if (index === 0) {
+        throw new Error('Invalid DEFLATE stream: repeat with no previous length');
+      }
+      repeatValue = lengths[index - 1];
+      repeatCount = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeatCount = 3 + reader.bits(3);
+    } else {
+      repeatCount = 11 + reader.bits(7);
+    }
+
+    if (index + repeatCount > lengths.length) {
+      throw new Error('Invalid DEFLATE stream: too many code lengths');
+    }
+    lengths.fill(repeatValue, index, index + repeatCount);
+    index += repeatCount;
+  }
+
+  return [
+    buildTable(lengths.subarray(0, literalCount)),
+    buildTable(lengths.subarray(literalCount)),
+  ];
+}
+
+/**
+ * Decode a compressed block's literal/length and distance symbols
+ */
+function inflateBlock(
+  reader: BitReader,
+  output: OutputBuffer,
+  literalTable: HuffmanTable,
+  distanceTable: HuffmanTable
+): void {
+  for (;;) {
+    const symbol = reader.decode(literalTable);
+
+    if (symbol < 256) {
+      output.push(symbol);
+      continue;
+    }
+    if (symbol === 256) {
+      return;
+    }
+
+    const lengthIndex = symbol - 257;
+    if (lengthIndex >= LENGTH_BASE.length) {
+      throw new Error('Invalid DEFLATE stream: bad length symbol');
+    }
+    const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+
+    const distanceSymbol = reader.decode(distanceTable);
+    if (distanceSymbol >= DISTANCE_BASE.length) {
+      throw new Error('Invalid DEFLATE stream: bad distance symbol');
+    }
+    const distance = DISTANCE_BASE[distanceSymbol] + reader.bits(DISTANCE_EXTRA[distanceSymbol]);
+
+    output.copyBack(distance, length);
+  }
+}
+
+/**
+ * Decompress a raw DEFLATE stream starting at the given offset
+ */
+export function inflateRaw(data: Uint8Array, offset = 0, sizeHint = data.length * 4): Uint8Array {
+  const reader = new BitReader(data, offset);
+  const output = new OutputBuffer(sizeHint);
+
+  let isFinal = 0;
+  while (!isFinal) {
+    isFinal = reader.bits(1);
+    const blockType = reader.bits(2);
+
+    if (blockType === 0) {
+      reader.alignToByte();
+      const header = reader.readBytes(4);
+      const length = header[0] | (header[1] << 8);
+      const inverted = header[2] | (header[3] << 8);
+      if ((length ^ 0xffff) !== inverted) {
+        throw new Error('Invalid DEFLATE stream: stored block length mismatch');
+      }
+      output.append(reader.readBytes(length));
+    } else if (blockType === 1) {
+      inflateBlock(reader, output, FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE);
+    } else if (blockType === 2) {
+      const [literalTable, distanceTable] = readDynamicTables(reader);
+      inflateBlock(reader, output, literalTable, distanceTable);
+    } else {
+      throw new Error('Invalid DEFLATE stream: reserved block type');
+    }
+  }
+
+  return output.toUint8Array();
+}
+
+/**
+ * Decompress a zlib-wrapped DEFLATE stream (as used by PNG IDAT chunks)
+ */
+export function inflate(data: Uint8Array, sizeHint?: number): Uint8Array {
+  if (data.length < 2) {
+    throw new Error('Invalid zlib stream: header missing');
+  }
+
+  const cmf = data[0];
+  const flags = data[1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flags) % 31 !== 0) {
+    throw new Error('Invalid zlib stream: unsupported header');
+  }
+  if (flags & 0x20) {
+    throw new Error('Invalid zlib stream: preset dictionaries are not supported');
+  }
+
+  return inflateRaw(data, 2, sizeHint);
+}
@@ -0,0 +1,594 @@
+import { DecodedImage } from '@/types/image';
+
+// Maps zig-zag coefficient order to natural (row-major) block order
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// IDCT basis: IDCT_TABLE[x * 8 + u] = C(u) * cos((2x + 1) * u * PI / 16) / 2
+const IDCT_TABLE = (() => {
+  const table = new Float32Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      const c = u === 0 ? Math.SQRT1_2 : 1;
+      table[x * 8 + u] = (c * Math.cos(((2 * x + 1) * u * Math.PI) / 16)) / 2;
+    }
+  }
+  return table;
+})();
+
+interface HuffmanTable {
+  maxCode: Int32Array; // indexed by code length 1-16, -1 when no codes of that length
+  valueOffset: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantizationTableId: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  pixels: Uint8Array; // blocksPerLine * 8 by blocksPerColumn * 8 samples
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  predictor: number;
+}
+
+interface JpegFrame {
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: JpegComponent[];
+}
+
+/**
+ * MSB-first reader over JPEG entropy-coded data, handling byte stuffing and markers
+ */
+class EntropyReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+  markerHit = false;
+
+  constructor(private readonly data: Uint8Array, public position: number) {}
+
+  readBit(): number {
+    if (this.bitCount === 0) {
+      this.fill();
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  receiveExtend(length: number): number {
+    if (length === 0) return 0;
+    const value = this.receive(length);
+    return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (length <= 16 && code > table.maxCode[length]) {
+      code = (code << 1) | this.readBit();
+      length++;
+    }
+    if (length > 16) {
+      throw new Error('Invalid JPEG: bad Huffman code');
+    }
+    return table.values[table.valueOffset[length] + code - table.minCode[length]];
+  }
+
+  /**
+   * Discard buffered bits and skip past the next RSTn marker
+   */
+  resetAtRestartMarker(): void {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    this.markerHit = false;
+
+    while (this.position + 1 < this.data.length) {
+      if (this.data[this.position] === 0xff) {
+        const marker = this.data[this.position + 1];
+        if (marker >= 0xd0 && marker <= 0xd7) {
+          this.position += 2;
+          return;
+        }
+        if (marker !== 0x00 && marker !== 0xff) {
+          return;
+        }
+      }
+      this.position++;
+    }
+  }
+
+  /**
+   * Move to the first marker after the entropy-coded segment
+   */
+  skipToMarker(): void {
+    while (this.position + 1 < this.data.length) {
+      if (this.data[this.position] === 0xff) {
+        const marker = this.data[this.position + 1];
+        if (marker !== 0x00 && !(marker >= 0xd0 && marker <= 0xd7) && marker !== 0xff) {
+          return;
+        }
+      }
+      this.position++;
+    }
+  }
+
+  private fill(): void {
+    if (this.markerHit || this.position >= this.data.length) {
+      // Past the end of the segment: feed zeros, as decoders conventionally do
+      this.bitBuffer = 0;
+      this.bitCount = 8;
+      return;
+    }
+
+    const byte = this.data[this.position];
+    if (byte === 0xff) {
+      const next = this.data[this.position + 1];
+      if (next === 0x00) {
+        this.position += 2;
+      } else {
+        this.markerHit = true;
+        this.bitBuffer = 0;
+        this.bitCount = 8;
+        return;
+      }
+    } else {
+      this.position++;
+    }
+
+    this.bitBuffer = byte;
+    this.bitCount = 8;
+  }
+}
+
+/**
+ * JPEG Decoder
+ * Decodes baseline (sequential, Huffman-coded) JPEG files into RGBA pixels
+ */
+export class JpegDecoder {
+  /**
+   * Check whether bytes start with the JPEG SOI marker
+   */
+  static isJpeg(bytes: Uint8Array): boolean {
+    return bytes[0] === 0xff && bytes[1] === 0xd8;
+  }
+
+  /**
+   * Decode JPEG bytes into an RGBA image
+   */
+  static decode(bytes: Uint8Array): DecodedImage {
+    if (!this.isJpeg(bytes)) {
+      throw new Error('Not a JPEG file');
+    }
+
+    const quantizationTables: Uint16Array[] = [];
+    const dcTables: HuffmanTable[] = [];
+    const acTables: HuffmanTable[] = [];
+    let frame: JpegFrame | null = null;
+    let restartInterval = 0;
+    let adobeTransform: number | null = null;
+    let offset = 2;
+
+    while (offset < bytes.length) {
+      if (bytes[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        // Fill byte before a marker
+        offset++;
+        continue;
+      }
+      offset += 2;
+
+      if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+        continue;
+      }
+      if (marker === 0xd9) {
+        break;
+      }
+
+      const length = (bytes[offset] << 8) | bytes[offset + 1];
+      const segment = bytes.subarray(offset + 2, offset + length);
+
+      switch (marker) {
+        case 0xdb:
+          this.readQuantizationTables(segment, quantizationTables);
+          break;
+        case 0xc4:
+          this.readHuffmanTables(segment, dcTables, acTables);
+          break;
+        case 0xc0:
+        case 0xc1:
+          frame = this.readFrame(segment);
+          break;
+        case 0xc2:
+        case 0xc3:
+        case 0xc5:
+        case 0xc6:
+        case 0xc7:
+        case 0xc9:
+        case 0xca:
+        case 0xcb:
+        case 0xcd:
+        case 0xce:
+        case 0xcf:
+          throw new Error('Unsupported JPEG: only baseline encoding is supported');
+        case 0xdd:
+          restartInterval = (segment[0] << 8) | segment[1];
+          break;
+        case 0xee:
+          if (segment.length >= 12 && String.fromCharCode(...segment.subarray(0, 5)) === 'Adobe') {
+            adobeTransform = segment[11];
+          }
+          break;
+        case 0xda: {
+          if (!frame) {
+            throw new Error('Invalid JPEG: scan before frame header');
+          }
+          offset = this.readScan(bytes, offset, segment, frame, dcTables, acTables, quantizationTables, restartInterval);
+          continue;
+        }
+        default:
+          // APPn, COM and other segments are not needed for decoding
+          break;
+      }
+
+      offset += length;
+    }
+
+    if (!frame) {
+      throw new Error('Invalid JPEG: missing frame header');
+    }
+
+    return {
+      width: frame.width,
+      height: frame.height,
+      format: 'jpeg',
+      data: this.toRgba(frame, adobeTransform),
+    };
+  }
+
+  /**
+   * Read DQT segment (8- or 16-bit precision tables, stored in zig-zag order)
+   */
+  private static readQuantizationTables(segment: Uint8Array, tables: Uint16Array[]): void {
+    let position = 0;
+    while (position < segment.length) {
+      const precision = segment[position] >> 4;
+      const id = segment[position] & 0x0f;
+      position++;
+
+      const table = new Uint16Array(64);
+      for (let i = 0; i < 64; i++) {
+        if (precision === 0) {
+          table[i] = segment[position++];
+        } else {
+          table[i] = (segment[position] << 8) | segment[position + 1];
+          position += 2;
+        }
+      }
+      tables[id] = table;
+    }
+  }
+
+  /**
+   * Read DHT segment into canonical decoding tables
+   */
+  private static readHuffmanTables(
+    segment: Uint8Array,
+    dcTables: HuffmanTable[],
+    acTables: HuffmanTable[]
+  ): void {
+    let position = 0;
+    while (position < segment.length) {
+      const tableClass = segment[position] >> 4;
+      const id = segment[position] & 0x0f;
+      position++;
+
+      const counts = segment.subarray(position, position + 16);
+      position += 16;
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      const values = segment.slice(position, position + total);
+      position += total;
+
+      const maxCode = new Int32Array(18).fill(-1);
+      const minCode = new Int32Array(17);
+      const valueOffset = new Int32Array(17);
+      let code = 0;
+      let index = 0;
+      for (let length = 1; length <= 16; length++) {
+        const count = counts[length - 1];
+        valueOffset[length] = index;
+        minCode[length] = code;
+        code += count;
+        index += count;
+        maxCode[length] = count > 0 ? code - 1 : -1;
+        code <<= 1;
+      }
+
+      const table: HuffmanTable = { maxCode, minCode, valueOffset, values };
+      if (tableClass === 0) {
+        dcTables[id] = table;
+      } else {
+        acTables[id] = table;
+      }
+    }
+  }
+
+  /**
+   * Read SOF0/SOF1 frame header and allocate component planes
+   */
+  private static readFrame(segment: Uint8Array): JpegFrame {
+    const height = (segment[1] << 8) | segment[2];
+    const width = (segment[3] << 8) | segment[4];
+    const componentCount = segment[5];
+
+    if (width === 0 || height === 0) {
+      throw new Error('Unsupported JPEG: missing image dimensions');
+    }
+    if (componentCount !== 1 && componentCount !== 3) {
+      throw new Error(`Unsupported JPEG: ${componentCount} color components`);
+    }
+
+    const components: JpegComponent[] = [];
+    for (let i = 0; i < componentCount; i++) {
+      const base = 6 + i * 3;
+      components.push({
+        id: segment[base],
+        h: segment[base + 1] >> 4,
+        v: segment[base + 1] & 0x0f,
+        quantizationTableId: segment[base + 2],
+        blocksPerLine: 0,
+        blocksPerColumn: 0,
+        pixels: new Uint8Array(0),
+        predictor: 0,
+      });
+    }
+
+    const maxH = Math.max(...components.map(component => component.h));
+    const maxV = Math.max(...components.map(component => component.v));
+    const mcusPerLine = Math.ceil(width / (8 * maxH));
+    const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+    for (const component of components) {
+      component.blocksPerLine = mcusPerLine * component.h;
+      component.blocksPerColumn = mcusPerColumn * component.v;
+      component.pixels = new Uint8Array(component.blocksPerLine * 8 * component.blocksPerColumn * 8);
+    }
+
+    return { width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+  }
+
+  /**
+   * Decode one SOS scan; returns the offset of the marker that follows it
+   */
+  private static readScan(
+    bytes: Uint8Array,
+    offset: number,
+    segment: Uint8Array,
+    frame: JpegFrame,
+    dcTables: HuffmanTable[],
+    acTables: HuffmanTable[],
+    quantizationTables: Uint16Array[],
+    restartInterval: number
+  ): number {
+    const length = (bytes[offset] << 8) | bytes[offset + 1];
+    const scanComponentCount = segment[0];
+    const scanComponents: JpegComponent[] = [];
+
+    for (let i = 0; i < scanComponentCount; i++) {
+      const id = segment[1 + i * 2];
+      const tables = segment[2 + i * 2];
+      const component = frame.components.find(candidate => candidate.id === id);
+      if (!component) {
+        throw new Error('Invalid JPEG: scan references unknown component');
+      }
+      component.dcTable = dcTables[tables >> 4];
+      component.acTable = acTables[tables & 0x0f];
+      component.predictor = 0;
+      if (!component.dcTable || !component.acTable) {
+        throw new Error('Invalid JPEG: missing Huffman table');
+      }
+      scanComponents.push(component);
+    }
+
+    const reader = new EntropyReader(bytes, offset + length);
+    const coefficients = new Float32Array(64);
+
+    const decodeAndStore = (component: JpegComponent, blockRow: number, blockColumn: number) => {
+      const quantization = quantizationTables[component.quantizationTableId];
+      if (!quantization) {
+        throw new Error('Invalid JPEG: missing quantization table');
+      }
+      this.decodeBlock(reader, component, quantization, coefficients);
+      this.inverseDct(coefficients, component, blockRow, blockColumn);
+    };
+
+    let mcuCount = 0;
+    const handleRestart = () => {
+      mcuCount++;
+      if (restartInterval > 0 && mcuCount % restartInterval === 0) {
+        reader.resetAtRestartMarker();
+        scanComponents.forEach(component => {
+          component.predictor = 0;
+        });
+      }
+    };
+
+    if (scanComponents.length === 1) {
+      // Non-interleaved scan: blocks cover only the component's own extent
+      const component = scanComponents[0];
+      const componentWidth = Math.ceil((frame.width * component.h) / frame.maxH);
+      const componentHeight = Math.ceil((frame.height * component.v) / frame.maxV);
+      const blocksWide = Math.ceil(componentWidth / 8);
+      const blocksHigh = Math.ceil(componentHeight / 8);
+
+      for (let blockRow = 0; blockRow < blocksHigh; blockRow++) {
+        for (let blockColumn = 0; blockColumn < blocksWide; blockColumn++) {
+          decodeAndStore(component, blockRow, blockColumn);
+          handleRestart();
+        }
+      }
+    } else {
+      for (let mcuRow = 0; mcuRow < frame.mcusPerColumn; mcuRow++) {
+        for (let mcuColumn = 0; mcuColumn < frame.mcusPerLine; mcuColumn++) {
+          for (const component of scanComponents) {
+            for (let v = 0; v < component.v; v++) {
+              for (let h = 0; h < component.h; h++) {
+                decodeAndStore(component, mcuRow * component.v + v, mcuColumn * component.h + h);
+              }
+            }
+          }
+          handleRestart();
+        }
+      }
+    }
+
+    reader.skipToMarker();
+    return reader.position;
+  }
+
+  /**
+   * Entropy-decode and dequantize one 8x8 block into natural order
+   */
+  private static decodeBlock(
+    reader: EntropyReader,
+    component: JpegComponent,
+    quantization: Uint16Array,
+    coefficients: Float32Array
+  ): void {
+    coefficients.fill(0);
+
+    const dcLength = reader.decode(component.dcTable!);
+    component.predictor += reader.receiveExtend(dcLength);
+    coefficients[0] = component.predictor * quantization[0];
+
+    let k = 1;
+    while (k < 64) {
+      const symbol = reader.decode(component.acTable!);
+      const size = symbol & 0x0f;
+      const run = symbol >> 4;
+
+      if (size === 0) {
+        if (run === 15) {
+          k += 16;
+          continue;
+        }
+        break; // End of block
+      }
+
+      k += run;
+      if (k > 63) break;
+      coefficients[ZIGZAG[k]] = reader.receiveExtend(size) * quantization[k];
+      k++;
+    }
+  }
+
+  /**
+   * Separable floating-point inverse DCT, written straight into the component plane
+   */
+  private static inverseDct(
+    coefficients: Float32Array,
+    component: JpegComponent,
+    blockRow: number,
+    blockColumn: number
+  ): void {
+    const temp = new Float32Array(64);
+
+    // Rows
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let u = 0; u < 8; u++) {
+          sum += IDCT_TABLE[x * 8 + u] * coefficients[y * 8 + u];
+        }
+        temp[y * 8 + x] = sum;
+      }
+    }
+
+    // Columns
+    const stride = component.blocksPerLine * 8;
+    const base = blockRow * 8 * stride + blockColumn * 8;
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        let sum = 0;
+        for (let v = 0; v < 8; v++) {
+          sum += IDCT_TABLE[y * 8 + v] * temp[v * 8 + x];
+        }
+        const value = Math.round(sum + 128);
+        component.pixels[base + y * stride + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+      }
+    }
+  }
+
+  /**
+   * Upsample component planes and convert YCbCr (or RGB/grayscale) to RGBA
+   */
+  private static toRgba(frame: JpegFrame, adobeTransform: number | null): Uint8Array {
+    const { width, height, components, maxH, maxV } = frame;
+    const output = new Uint8Array(width * height * 4);
+    // Adobe transform 0, or component ids spelling 'RGB', mark untransformed RGB data
+    const isRgb = components.length === 3 && (
+      adobeTransform === 0 ||
+      (components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42)
+    );
+
+    const sampleAt = (component: JpegComponent, x: number, y: number): number => {
+      const sx = Math.floor((x * component.h) / maxH);
+      const sy = Math.floor((y * component.v) / maxV);
+      return component.pixels[sy * component.blocksPerLine * 8 + sx];
+    };
+
+    const clamp = (value: number): number => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const target = (y * width + x) * 4;
+
+        if (components.length === 1) {
+          const gray = sampleAt(components[0], x, y);
+          output[target] = gray;
+          output[target + 1] = gray;
+          output[target + 2] = gray;
+        } else if (isRgb) {
+          output[target] = sampleAt(components[0], x, y);
+          output[target + 1] = sampleAt(components[1], x, y);
+          output[target + 2] = sampleAt(components[2], x, y);
+        } else {
+          const luma = sampleAt(components[0], x, y);
+          const cb = sampleAt(components[1], x, y) - 128;
+          const cr = sampleAt(components[2], x, y) - 128;
+          output[target] = clamp(luma + 1.402 * cr);
+          output[target + 1] = clamp(luma - 0.344136 * cb - 0.714136 * cr);
+          output[target + 2] = clamp(luma + 1.772 * cb);
+        }
+        output[target + 3] = 255;
+      }
+    }
+
+    return output;
+  }
+}
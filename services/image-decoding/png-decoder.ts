@@ -0,0 +1,308 @@
+import { DecodedImage } from '@/types/image';
+
+import { inflate } from './inflate';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  3: 1, // Palette index
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+
+// Adam7 passes: [xStart, yStart, xStep, yStep]
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+interface PngPalette {
+  colors: Uint8Array | null; // RGB triples
+  alpha: Uint8Array | null; // tRNS entries for palette images
+  transparentGray: number | null;
+  transparentRgb: [number, number, number] | null;
+}
+
+/**
+ * PNG Decoder
+ * Decodes PNG files (all standard color types and bit depths) into RGBA pixels
+ */
+export class PngDecoder {
+  /**
+   * Check whether bytes start with the PNG signature
+   */
+  static isPng(bytes: Uint8Array): boolean {
+    return PNG_SIGNATURE.every((value, index) => bytes[index] === value);
+  }
+
+  /**
+   * Decode PNG bytes into an RGBA image
+   */
+  static decode(bytes: Uint8Array): DecodedImage {
+    if (!this.isPng(bytes)) {
+      throw new Error('Not a PNG file');
+    }
+
+    let header: PngHeader | null = null;
+    const palette: PngPalette = { colors: null, alpha: null, transparentGray: null, transparentRgb: null };
+    const dataChunks: Uint8Array[] = [];
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 8 <= bytes.length) {
+      const length = this.readUint32(bytes, offset);
+      const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+      const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+      offset += 12 + length; // length + type + data + CRC
+
+      if (type === 'IHDR') {
+        header = {
+          width: this.readUint32(chunk, 0),
+          height: this.readUint32(chunk, 4),
+          bitDepth: chunk[8],
+          colorType: chunk[9],
+          interlace: chunk[12],
+        };
+      } else if (type === 'PLTE') {
+        palette.colors = chunk;
+      } else if (type === 'tRNS') {
+        if (header?.colorType === 3) {
+          palette.alpha = chunk;
+        } else if (header?.colorType === 0) {
+          palette.transparentGray = (chunk[0] << 8) | chunk[1];
+        } else if (header?.colorType === 2) {
+          palette.transparentRgb = [
+            (chunk[0] << 8) | chunk[1],
+            (chunk[2] << 8) | chunk[3],
+            (chunk[4] << 8) | chunk[5],
+          ];
+        }
+      } else if (type === 'IDAT') {
+        dataChunks.push(chunk);
+      } else if (type === 'IEND') {
+        break;
+      }
+    }
+
+    if (!header) {
+      throw new Error('Invalid PNG: missing IHDR chunk');
+    }
+    if (!(header.colorType in CHANNELS_BY_COLOR_TYPE)) {
+      throw new Error(`Unsupported PNG color type: ${header.colorType}`);
+    }
+    if (header.colorType === 3 && !palette.colors) {
+      throw new Error('Invalid PNG: palette image without PLTE chunk');
+    }
+    if (dataChunks.length === 0) {
+      throw new Error('Invalid PNG: missing image data');
+    }
+
+    const compressed = this.concat(dataChunks);
+    const channels = CHANNELS_BY_COLOR_TYPE[header.colorType];
+    const bitsPerPixel = channels * header.bitDepth;
+    const expectedSize = header.height * (1 + Math.ceil((header.width * bitsPerPixel) / 8));
+    const raw = inflate(compressed, expectedSize);
+
+    const output = new Uint8Array(header.width * header.height * 4);
+
+    if (header.interlace === 1) {
+      let position = 0;
+      for (const [xStart, yStart, xStep, yStep] of ADAM7_PASSES) {
+        const passWidth = Math.ceil((header.width - xStart) / xStep);
+        const passHeight = Math.ceil((header.height - yStart) / yStep);
+        if (passWidth <= 0 || passHeight <= 0) continue;
+
+        const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+        const pass = this.unfilter(raw, position, passWidth, passHeight, rowBytes, bitsPerPixel);
+        position += passHeight * (rowBytes + 1);
+
+        this.writePixels(pass, passWidth, passHeight, rowBytes, header, palette, (x, y) =>
+          ((yStart + y * yStep) * header!.width + xStart + x * xStep) * 4, output);
+      }
+    } else {
+      const rowBytes = Math.ceil((header.width * bitsPerPixel) / 8);
+      const pixels = this.unfilter(raw, 0, header.width, header.height, rowBytes, bitsPerPixel);
+      this.writePixels(pixels, header.width, header.height, rowBytes, header, palette, (x, y) =>
+        (y * header!.width + x) * 4, output);
+    }
+
+    return {
+      width: header.width,
+      height: header.height,
+      format: 'png',
+      data: output,
+    };
+  }
+
+  /**
+   * Reverse PNG scanline filters (None, Sub, Up, Average, Paeth)
+   */
+  private static unfilter(
+    raw: Uint8Array,
+    offset: number,
+    width: number,
+    height: number,
+    rowBytes: number,
+    bitsPerPixel: number
+  ): Uint8Array {
+    const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+    const output = new Uint8Array(rowBytes * height);
+
+    for (let y = 0; y < height; y++) {
+      const filterType = raw[offset + y * (rowBytes + 1)];
+      const source = offset + y * (rowBytes + 1) + 1;
+      const row = y * rowBytes;
+      const previousRow = row - rowBytes;
+
+      if (source + rowBytes > raw.length) {
+        throw new Error('Invalid PNG: image data is truncated');
+      }
+
+      for (let x = 0; x < rowBytes; x++) {
+        const value = raw[source + x];
+        const left = x >= bytesPerPixel ? output[row + x - bytesPerPixel] : 0;
+        const up = y > 0 ? output[previousRow + x] : 0;
+        const upLeft = y > 0 && x >= bytesPerPixel ? output[previousRow + x - bytesPerPixel] : 0;
+
+        switch (filterType) {
+          case 0:
+            output[row + x] = value;
+            break;
+          case 1:
+            output[row + x] = (value + left) & 0xff;
+            break;
+          case 2:
+            output[row + x] = (value + up) & 0xff;
+            break;
+          case 3:
+            output[row + x] = (value + ((left + up) >> 1)) & 0xff;
+            break;
+          case 4:
+            output[row + x] = (value + this.paeth(left, up, upLeft)) & 0xff;
+            break;
+          default:
+            throw new Error(`Invalid PNG: unknown filter type ${filterType}`);
+        }
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Paeth predictor from the PNG specification
+   */
+  private static paeth(left: number, up: number, upLeft: number): number {
+    const estimate = left + up - upLeft;
+    const distanceLeft = Math.abs(estimate - left);
+    const distanceUp = Math.abs(estimate - up);
+    const distanceUpLeft = Math.abs(estimate - upLeft);
+
+    if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+    if (distanceUp <= distanceUpLeft) return up;
+    return upLeft;
+  }
+
+  /**
+   * Convert unfiltered scanlines to 8-bit RGBA
+   */
+  private static writePixels(
+    pixels: Uint8Array,
+    width: number,
+    height: number,
+    rowBytes: number,
+    header: PngHeader,
+    palette: PngPalette,
+    targetIndex: (x: number, y: number) => number,
+    output: Uint8Array
+  ): void {
+    const { bitDepth, colorType } = header;
+    const channels = CHANNELS_BY_COLOR_TYPE[colorType];
+    const maxValue = (1 << bitDepth) - 1;
+
+    // Reads the raw (unscaled) value of a sample
+    const readSample = (row: number, sampleIndex: number): number => {
+      if (bitDepth === 8) return pixels[row + sampleIndex];
+      if (bitDepth === 16) return (pixels[row + sampleIndex * 2] << 8) | pixels[row + sampleIndex * 2 + 1];
+
+      const bitOffset = sampleIndex * bitDepth;
+      const byte = pixels[row + (bitOffset >> 3)];
+      const shift = 8 - bitDepth - (bitOffset & 7);
+      return (byte >> shift) & maxValue;
+    };
+
+    const scale = (value: number): number =>
+      bitDepth === 8 ? value : Math.round((value * 255) / maxValue);
+
+    for (let y = 0; y < height; y++) {
+      const row = y * rowBytes;
+
+      for (let x = 0; x < width; x++) {
+        const target = targetIndex(x, y);
+        const sample = x * channels;
+
+        if (colorType === 3) {
+          const index = readSample(row, sample);
+          output[target] = palette.colors![index * 3] ?? 0;
+          output[target + 1] = palette.colors![index * 3 + 1] ?? 0;
+          output[target + 2] = palette.colors![index * 3 + 2] ?? 0;
+          output[target + 3] = palette.alpha && index < palette.alpha.length ? palette.alpha[index] : 255;
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = readSample(row, sample);
+          const value = scale(gray);
+          output[target] = value;
+          output[target + 1] = value;
+          output[target + 2] = value;
+          if (colorType === 4) {
+            output[target + 3] = scale(readSample(row, sample + 1));
+          } else {
+            output[target + 3] = palette.transparentGray === gray ? 0 : 255;
+          }
+        } else {
+          const r = readSample(row, sample);
+          const g = readSample(row, sample + 1);
+          const b = readSample(row, sample + 2);
+          output[target] = scale(r);
+          output[target + 1] = scale(g);
+          output[target + 2] = scale(b);
+          if (colorType === 6) {
+            output[target + 3] = scale(readSample(row, sample + 3));
+          } else {
+            const transparent = palette.transparentRgb;
+            output[target + 3] =
+              transparent && transparent[0] === r && transparent[1] === g && transparent[2] === b ? 0 : 255;
+          }
+        }
+      }
+    }
+  }
+
+  private static readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+  }
+
+  private static concat(chunks: Uint8Array[]): Uint8Array {
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,130 @@
+import { DecodedImage } from '@/types/image';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Largest payload of a stored (uncompressed) deflate block
+const MAX_STORED_BLOCK = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * PNG encoder for RGBA images.
+ * Uses stored deflate blocks: larger files, but fast and dependency-free for on-device previews.
+ */
+export class PngEncoder {
+  /**
+   * Encode an RGBA image as an 8-bit truecolor-with-alpha PNG
+   */
+  static encode(image: DecodedImage): Uint8Array {
+    const { width, height, data } = image;
+    if (data.length < width * height * 4) {
+      throw new Error('Image data is smaller than width x height x 4');
+    }
+
+    // Each scanline is prefixed with filter type 0 (None)
+    const stride = width * 4;
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+      raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 8; // Bit depth
+    header[9] = 6; // Color type: RGBA
+    header[10] = 0; // Compression
+    header[11] = 0; // Filter method
+    header[12] = 0; // No interlace
+
+    return this.concat([
+      new Uint8Array(PNG_SIGNATURE),
+      this.chunk('IHDR', header),
+      this.chunk('IDAT', this.zlibStore(raw)),
+      this.chunk('IEND', new Uint8Array(0)),
+    ]);
+  }
+
+  /**
+   * Wrap data in a zlib stream made of stored deflate blocks
+   */
+  private static zlibStore(data: Uint8Array): Uint8Array {
+    const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+    const output = new Uint8Array(2 + blockCount * 5 + data.length + 4);
+    output[0] = 0x78; // Deflate, 32K window
+    output[1] = 0x01; // No preset dictionary, fastest compression level
+
+    let offset = 2;
+    for (let block = 0; block < blockCount; block++) {
+      const start = block * MAX_STORED_BLOCK;
+      const length = Math.min(MAX_STORED_BLOCK, data.length - start);
+      output[offset++] = block === blockCount - 1 ? 1 : 0; // BFINAL, BTYPE 00
+      output[offset++] = length & 0xff;
+      output[offset++] = length >>> 8;
+      output[offset++] = ~length & 0xff;
+      output[offset++] = (~length >>> 8) & 0xff;
+      output.set(data.subarray(start, start + length), offset);
+      offset += length;
+    }
+
+    new DataView(output.buffer).setUint32(offset, this.adler32(data));
+    return output;
+  }
+
+  private static chunk(type: string, data: Uint8Array): Uint8Array {
+    const output = new Uint8Array(12 + data.length);
+    const view = new DataView(output.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+      output[4 + i] = type.charCodeAt(i);
+    }
+    output.set(data, 8);
+    view.setUint32(8 + data.length, this.crc32(output.subarray(4, 8 + data.length)));
+    return output;
+  }
+
+  private static crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static adler32(data: Uint8Array): number {
+    let a = 1;
+    let b = 0;
+    // Reduce modulo 65521 every 5552 bytes, the largest run that can't overflow
+    for (let start = 0; start < data.length; start += 5552) {
+      const end = Math.min(start + 5552, data.length);
+      for (let i = start; i < end; i++) {
+        a += data[i];
+        b += a;
+      }
+      a %= 65521;
+      b %= 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+}
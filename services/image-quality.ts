@@ -0,0 +1,222 @@
+import { DecodedImage } from '@/types/image';
+import { IMAGE_QUALITY_THRESHOLDS, ImageQualityIssue, ImageQualityReport, PhotoAsset } from '@/types/photo';
+
+// Channel value at or beyond which a pixel counts as clipped
+const CLIPPED_CHANNEL = 250;
+
+// Edges weaker than this gradient magnitude are noise rather than lines
+const MIN_EDGE_MAGNITUDE = 120;
+
+// Tilt is searched for within this many degrees of level, in 1 degree bins
+const MAX_TILT_DEGREES = 20;
+
+// Share of edge strength the dominant direction needs before a tilt is reported
+const MIN_TILT_SUPPORT = 0.2;
+
+/**
+ * Image Quality Service
+ * Scores sharpness, exposure, resolution and tilt locally, so unusable photos are caught before they cost an analysis
+ */
+export class ImageQualityService {
+  /**
+   * Score the decoded analysis image; the original photo's size is used for the resolution check
+   */
+  static assessImage(image: DecodedImage, photo: Pick<PhotoAsset, 'width' | 'height'>): ImageQualityReport {
+    const luma = this.toLuma(image);
+    const brightness = luma.reduce((sum, value) => sum + value, 0) / Math.max(1, luma.length) / 255;
+    const highlightClipping = this.getHighlightClipping(image);
+    const sharpness = this.getLaplacianVariance(luma, image.width, image.height);
+    const tiltDegrees = this.estimateTilt(luma, image.width, image.height);
+
+    return {
+      sharpness,
+      brightness,
+      highlightClipping,
+      tiltDegrees,
+      issues: this.getIssues({ sharpness, brightness, highlightClipping, tiltDegrees }, photo),
+    };
+  }
+
+  /**
+   * Turn scores into actionable issues, most serious first
+   */
+  private static getIssues(
+    scores: Omit<ImageQualityReport, 'issues'>,
+    photo: Pick<PhotoAsset, 'width' | 'height'>
+  ): ImageQualityIssue[] {
+    const issues: ImageQualityIssue[] = [];
+    const shortSide = Math.min(photo.width, photo.height);
+
+    if (shortSide < IMAGE_QUALITY_THRESHOLDS.MIN_SHORT_SIDE_ERROR) {
+      issues.push({
+        type: 'low-resolution',
+        severity: 'error',
+        message: `Resolution is too low (${photo.width}x${photo.height}). Use a photo at least ${IMAGE_QUALITY_THRESHOLDS.MIN_SHORT_SIDE_WARNING} pixels on its shorter side.`,
+      });
+    } else if (shortSide < IMAGE_QUALITY_THRESHOLDS.MIN_SHORT_SIDE_WARNING) {
+      issues.push({
+        type: 'low-resolution',
+        severity: 'warning',
+        message: `Low resolution (${photo.width}x${photo.height}); small details may be missed. Use the camera's full resolution if you can.`,
+      });
+    }
+
+    // A dark photo also measures as soft, so only judge sharpness once exposure is usable
+    const isTooDark = scores.brightness < IMAGE_QUALITY_THRESHOLDS.DARK_ERROR;
+    const isTooBright = scores.brightness > IMAGE_QUALITY_THRESHOLDS.BRIGHT_ERROR;
+
+    if (isTooDark) {
+      issues.push({
+        type: 'too-dark',
+        severity: 'error',
+        message: 'Photo is too dark to analyze. Turn on the lights or open the blinds and retake it.',
+      });
+    } else if (scores.brightness < IMAGE_QUALITY_THRESHOLDS.DARK_WARNING) {
+      issues.push({
+        type: 'too-dark',
+        severity: 'warning',
+        message: 'Photo is quite dark, so some details may be missed. More light will help.',
+      });
+    }
+
+    if (isTooBright) {
+      issues.push({
+        type: 'too-bright',
+        severity: 'error',
+        message: 'Photo is washed out. Avoid pointing the camera at a window or bright light and retake it.',
+      });
+    } else if (scores.highlightClipping > IMAGE_QUALITY_THRESHOLDS.HIGHLIGHT_WARNING) {
+      issues.push({
+        type: 'blown-highlights',
+        severity: 'warning',
+        message: 'Parts of the photo are blown out, likely by a window or lamp. Try shooting from another angle.',
+      });
+    }
+
+    if (!isTooDark && !isTooBright) {
+      if (scores.sharpness < IMAGE_QUALITY_THRESHOLDS.BLUR_ERROR) {
+        issues.push({
+          type: 'blurry',
+          severity: 'error',
+          message: 'Photo is too blurry to analyze. Hold the phone steady, tap to focus and retake it.',
+        });
+      } else if (scores.sharpness < IMAGE_QUALITY_THRESHOLDS.BLUR_WARNING) {
+        issues.push({
+          type: 'blurry',
+          severity: 'warning',
+          message: 'Photo looks slightly soft. A sharper photo gives more accurate results.',
+        });
+      }
+    }
+
+    if (scores.tiltDegrees !== undefined && Math.abs(scores.tiltDegrees) >= IMAGE_QUALITY_THRESHOLDS.TILT_WARNING_DEGREES) {
+      issues.push({
+        type: 'tilted',
+        severity: 'warning',
+        message: `Photo is tilted about ${Math.round(Math.abs(scores.tiltDegrees))}°. Hold the phone level so desk and screen heights can be judged.`,
+      });
+    }
+
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  }
+
+  /**
+   * Rec. 601 luma per pixel, 0-255
+   */
+  private static toLuma(image: DecodedImage): Float32Array {
+    const luma = new Float32Array(image.width * image.height);
+    for (let index = 0; index < luma.length; index++) {
+      const offset = index * 4;
+      luma[index] = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+    }
+    return luma;
+  }
+
+  private static getHighlightClipping(image: DecodedImage): number {
+    const pixelCount = image.width * image.height;
+    let clipped = 0;
+    for (let index = 0; index < pixelCount; index++) {
+      const offset = index * 4;
+      if (Math.max(image.data[offset], image.data[offset + 1], image.data[offset + 2]) >= CLIPPED_CHANNEL) {
+        clipped++;
+      }
+    }
+    return pixelCount > 0 ? clipped / pixelCount : 0;
+  }
+
+  /**
+   * Variance of the 4-neighbour Laplacian; blur removes the fine detail it responds to
+   */
+  private static getLaplacianVariance(luma: Float32Array, width: number, height: number): number {
+    let sum = 0;
+    let sumOfSquares = 0;
+    let count = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const index = y * width + x;
+        const laplacian = luma[index - 1] + luma[index + 1] + luma[index - width] + luma[index + width] - 4 * luma[index];
+        sum += laplacian;
+        sumOfSquares += laplacian * laplacian;
+        count++;
+      }
+    }
+
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumOfSquares / count - mean * mean;
+  }
+
+  /**
+   * Roll away from level in degrees, from the dominant direction of strong edges near horizontal or vertical.
+   * Perspective bends receding lines, but a level camera keeps most walls, shelves and screen edges near an axis.
+   */
+  private static estimateTilt(luma: Float32Array, width: number, height: number): number | undefined {
+    const bins = new Float64Array(MAX_TILT_DEGREES * 2 + 1);
+    let totalWeight = 0;
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const index = y * width + x;
+        // Sobel gradients
+        const gx = luma[index - width + 1] + 2 * luma[index + 1] + luma[index + width + 1]
+          - luma[index - width - 1] - 2 * luma[index - 1] - luma[index + width - 1];
+        const gy = luma[index + width - 1] + 2 * luma[index + width] + luma[index + width + 1]
+          - luma[index - width - 1] - 2 * luma[index - width] - luma[index - width + 1];
+        const magnitude = Math.hypot(gx, gy);
+        if (magnitude < MIN_EDGE_MAGNITUDE) continue;
+
+        totalWeight += magnitude;
+
+        // Angle from the nearest axis, in (-45, 45]
+        const angle = (Math.atan2(gy, gx) * 180) / Math.PI;
+        const deviation = ((((angle + 45) % 90) + 90) % 90) - 45;
+        if (Math.abs(deviation) > MAX_TILT_DEGREES) continue;
+        bins[Math.round(deviation) + MAX_TILT_DEGREES] += magnitude;
+      }
+    }
+
+    if (totalWeight === 0) return undefined;
+
+    // Smooth over neighbouring bins and take the strongest direction
+    let peak = 0;
+    let peakWeight = 0;
+    for (let bin = 0; bin < bins.length; bin++) {
+      const weight = (bins[bin - 1] ?? 0) + bins[bin] + (bins[bin + 1] ?? 0);
+      if (weight > peakWeight) {
+        peak = bin;
+        peakWeight = weight;
+      }
+    }
+    if (peakWeight / totalWeight < MIN_TILT_SUPPORT) return undefined;
+
+    // Refine with the weighted mean around the peak
+    let weightedSum = 0;
+    let weight = 0;
+    for (let bin = Math.max(0, peak - 2); bin <= Math.min(bins.length - 1, peak + 2); bin++) {
+      weightedSum += (bin - MAX_TILT_DEGREES) * bins[bin];
+      weight += bins[bin];
+    }
+    return weight > 0 ? weightedSum / weight : undefined;
+  }
+}
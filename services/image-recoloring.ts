@@ -0,0 +1,235 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+
+import {
+  ColorPalette,
+  RecolorMapping,
+  RecolorPreview,
+  RegionPalette,
+} from '@/types/ai-analysis';
+import { DecodedImage } from '@/types/image';
+import { StorageResult } from '@/types/storage';
+
+import { ColorExtractionService } from './color-extraction';
+import { ColorSpaceService, LabColor } from './color-space';
+import { ImageDecodingService, PngEncoder } from './image-decoding';
+
+export interface RecolorAnchor {
+  lab: LabColor;
+  mapping?: { source: LabColor; target: LabColor };
+}
+
+// Pixels farther than this (CIELAB distance) from a mapped cluster keep their color
+const RECOLOR_RADIUS = 25;
+// How much of the pixel's own chroma variation survives the remap, keeping texture visible
+const CHROMA_DETAIL = 0.5;
+// Furniture that already matches the walls is left alone so the two don't merge
+const MIN_SOURCE_SEPARATION = 10;
+
+/**
+ * Image Recoloring Service
+ * Applies a target palette to the photo's wall and furniture colors for a before/after preview
+ */
+export class ImageRecoloringService {
+  private static readonly PREVIEW_DIRECTORY_NAME = 'recolor-previews';
+  private static readonly PREVIEW_WIDTH = 480;
+
+  /**
+   * Recolor the photo with a target palette and write the preview to the cache directory
+   */
+  static async generatePreview(
+    photoUri: string,
+    targetPalette: ColorPalette,
+    regionPalettes?: RegionPalette[]
+  ): Promise<StorageResult<RecolorPreview>> {
+    try {
+      // Find clusters on the same resized image color extraction uses
+      const analysisImage = await ColorExtractionService.loadAnalysisImage(photoUri);
+      const regions = regionPalettes && regionPalettes.length > 0
+        ? regionPalettes
+        : ColorExtractionService.extractRegionPalettes(analysisImage);
+      const overall = ColorExtractionService.extractColorPaletteFromImage(analysisImage);
+
+      const mappings = this.buildMappings(regions, targetPalette);
+      if (mappings.length === 0) {
+        return { success: false, error: 'No wall or furniture colors found to recolor' };
+      }
+
+      const anchors = this.buildAnchors(mappings, [
+        ...regions.flatMap(region => region.colors),
+        ...overall.colors,
+      ]);
+
+      const previewImage = await this.loadPreviewImage(photoUri);
+      const recolored = this.recolorImage(previewImage, anchors);
+
+      const previewDir = new Directory(Paths.cache, this.PREVIEW_DIRECTORY_NAME);
+      if (!previewDir.exists) {
+        previewDir.create();
+      }
+      this.deletePreviews(previewDir, targetPalette.id);
+
+      // Timestamped names keep the image cache from showing a stale preview
+      const createdAt = Date.now();
+      const file = new File(previewDir, `${this.getFilePrefix(targetPalette.id)}${createdAt}.png`);
+      file.write(PngEncoder.encode(recolored));
+
+      return {
+        success: true,
+        data: {
+          paletteId: targetPalette.id,
+          uri: file.uri,
+          width: recolored.width,
+          height: recolored.height,
+          mappings,
+          createdAt,
+        },
+      };
+    } catch (error) {
+      console.error('Failed to generate recolor preview:', error);
+      return { success: false, error: 'Failed to generate recolor preview' };
+    }
+  }
+
+  /**
+   * Recolor RGBA pixels, moving each mapped cluster to its target while keeping shading
+   */
+  static recolorImage(image: DecodedImage, anchors: RecolorAnchor[]): DecodedImage {
+    const output = new Uint8Array(image.data);
+    const pixelCount = image.width * image.height;
+
+    for (let index = 0; index < pixelCount; index++) {
+      const offset = index * 4;
+      const lab = ColorSpaceService.rgbToLab([
+        image.data[offset],
+        image.data[offset + 1],
+        image.data[offset + 2],
+      ]);
+
+      let nearest: RecolorAnchor | undefined;
+      let nearestDistance = Infinity;
+      for (const anchor of anchors) {
+        const dl = lab[0] - anchor.lab[0];
+        const da = lab[1] - anchor.lab[1];
+        const db = lab[2] - anchor.lab[2];
+        const distance = dl * dl + da * da + db * db;
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = anchor;
+        }
+      }
+
+      if (!nearest?.mapping) continue;
+      const distance = Math.sqrt(nearestDistance);
+      if (distance >= RECOLOR_RADIUS) continue;
+
+      // Fade the effect toward the edge of the cluster to avoid hard seams
+      const strength = 1 - (distance / RECOLOR_RADIUS) ** 2;
+      const { source, target } = nearest.mapping;
+      const remapped: LabColor = [
+        lab[0] + (target[0] - source[0]),
+        target[1] + (lab[1] - source[1]) * CHROMA_DETAIL,
+        target[2] + (lab[2] - source[2]) * CHROMA_DETAIL,
+      ];
+
+      const rgb = ColorSpaceService.labToRgb([
+        lab[0] + (remapped[0] - lab[0]) * strength,
+        lab[1] + (remapped[1] - lab[1]) * strength,
+        lab[2] + (remapped[2] - lab[2]) * strength,
+      ]);
+      output[offset] = rgb[0];
+      output[offset + 1] = rgb[1];
+      output[offset + 2] = rgb[2];
+    }
+
+    return { ...image, data: output };
+  }
+
+  /**
+   * Pair the dominant wall and furniture clusters with target palette colors
+   */
+  private static buildMappings(
+    regions: RegionPalette[],
+    targetPalette: ColorPalette
+  ): RecolorMapping[] {
+    const targets = targetPalette.colors.filter(color => ColorSpaceService.hexToRgb(color) !== null);
+    if (targets.length === 0) return [];
+
+    const mappings: RecolorMapping[] = [];
+    const wallSource = regions.find(region => region.region === 'walls')?.colors[0];
+    const furnitureSource = regions.find(region => region.region === 'furniture')?.colors[0];
+
+    // The first palette color is the dominant one, so it goes on the walls
+    if (wallSource) {
+      mappings.push({ region: 'walls', source: wallSource, target: targets[0] });
+    }
+
+    if (furnitureSource) {
+      const tooCloseToWalls = wallSource !== undefined &&
+        ColorSpaceService.deltaE2000(this.hexToLab(wallSource), this.hexToLab(furnitureSource)) <
+          MIN_SOURCE_SEPARATION;
+      if (!tooCloseToWalls) {
+        mappings.push({ region: 'furniture', source: furnitureSource, target: targets[1] ?? targets[0] });
+      }
+    }
+
+    return mappings;
+  }
+
+  /**
+   * Mapped clusters plus every other photo color, so unrelated objects keep their color
+   */
+  private static buildAnchors(mappings: RecolorMapping[], photoColors: string[]): RecolorAnchor[] {
+    const anchors: RecolorAnchor[] = mappings.map(mapping => {
+      const source = this.hexToLab(mapping.source);
+      return { lab: source, mapping: { source, target: this.hexToLab(mapping.target) } };
+    });
+
+    const mappedSources = new Set(mappings.map(mapping => mapping.source.toUpperCase()));
+    for (const color of photoColors) {
+      if (mappedSources.has(color.toUpperCase()) || !ColorSpaceService.hexToRgb(color)) continue;
+      anchors.push({ lab: this.hexToLab(color) });
+    }
+
+    return anchors;
+  }
+
+  /**
+   * Resize the photo to preview size and decode it
+   */
+  private static async loadPreviewImage(photoUri: string): Promise<DecodedImage> {
+    const resized = await ImageManipulator.manipulateAsync(
+      photoUri,
+      [{ resize: { width: this.PREVIEW_WIDTH } }],
+      {
+        format: ImageManipulator.SaveFormat.PNG,
+        base64: true,
+      }
+    );
+    if (!resized.base64) {
+      throw new Error('Resized image did not include base64 data');
+    }
+
+    return ImageDecodingService.decodeBase64Image(resized.base64);
+  }
+
+  /**
+   * Remove earlier previews for the same palette
+   */
+  private static deletePreviews(directory: Directory, paletteId: string): void {
+    const prefix = this.getFilePrefix(paletteId);
+    for (const entry of directory.list()) {
+      if (entry instanceof File && entry.name.startsWith(prefix)) {
+        entry.delete();
+      }
+    }
+  }
+
+  private static getFilePrefix(paletteId: string): string {
+    return `preview_${paletteId.replace(/[^a-zA-Z0-9_-]/g, '_')}_`;
+  }
+
+  private static hexToLab(hex: string): LabColor {
+    return ColorSpaceService.rgbToLab(ColorSpaceService.hexToRgb(hex) ?? [0, 0, 0]);
+  }
+}
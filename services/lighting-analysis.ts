@@ -0,0 +1,304 @@
+import {
+  ColorTemperatureBand,
+  ErgonomicInsight,
+  ExposureRegion,
+  InsightMeasurement,
+  LightingAnalysis,
+} from '@/types/ai-analysis';
+import { DecodedImage } from '@/types/image';
+
+import { ColorSpaceService } from './color-space';
+
+// Channel values at or beyond these are treated as clipped
+const OVEREXPOSED_CHANNEL = 250;
+const UNDEREXPOSED_CHANNEL = 12;
+
+// Auto-exposure pulls most scenes toward middle gray, so lux is scaled from it
+const MIDDLE_GRAY_LUMINANCE = 0.18;
+const REFERENCE_LUX = 500;
+
+// Recommended task lighting for desk work (EN 12464-1)
+const LUX_THRESHOLDS = {
+  good: 500,
+  needsImprovement: 300,
+} as const;
+
+// Comfortable range for focused work; outside it light reads as too orange or too blue
+const COMFORTABLE_CCT = { min: 2700, max: 6500 } as const;
+
+const GRID_SIZE = 3;
+const REGION_MIN_COVERAGE = 0.25;
+
+const STATUS_RANK: Record<ErgonomicInsight['status'], number> = {
+  good: 0,
+  'needs-improvement': 1,
+  poor: 2,
+};
+
+/**
+ * Lighting Analysis Service
+ * Estimates brightness, color temperature and exposure from the resized analysis image
+ */
+export class LightingAnalysisService {
+  /**
+   * Measure lighting conditions from decoded RGBA pixels
+   */
+  static analyzeImage(image: DecodedImage): LightingAnalysis {
+    const pixelCount = image.width * image.height;
+    const cellWidth = image.width / GRID_SIZE;
+    const cellHeight = image.height / GRID_SIZE;
+    const cells = Array.from({ length: GRID_SIZE * GRID_SIZE }, () => ({
+      total: 0,
+      overexposed: 0,
+      underexposed: 0,
+    }));
+
+    let luminanceSum = 0;
+    let overexposed = 0;
+    let underexposed = 0;
+    const neutralSum = [0, 0, 0];
+    let neutralCount = 0;
+    const fallbackSum = [0, 0, 0];
+
+    for (let index = 0; index < pixelCount; index++) {
+      const offset = index * 4;
+      const r = image.data[offset];
+      const g = image.data[offset + 1];
+      const b = image.data[offset + 2];
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+
+      const linear = [r, g, b].map(channel => ColorSpaceService.srgbToLinear(channel));
+      const luminance = 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+      luminanceSum += luminance;
+
+      const column = Math.min(GRID_SIZE - 1, Math.floor((index % image.width) / cellWidth));
+      const row = Math.min(GRID_SIZE - 1, Math.floor(Math.floor(index / image.width) / cellHeight));
+      const cell = cells[row * GRID_SIZE + column];
+      cell.total++;
+
+      if (max >= OVEREXPOSED_CHANNEL) {
+        overexposed++;
+        cell.overexposed++;
+        continue;
+      }
+      if (max <= UNDEREXPOSED_CHANNEL) {
+        underexposed++;
+        cell.underexposed++;
+        continue;
+      }
+
+      // Near-neutral surfaces reflect the light's color rather than their own
+      if (max > 0 && (max - min) / max < 0.3) {
+        linear.forEach((value, channel) => (neutralSum[channel] += value));
+        neutralCount++;
+      }
+      linear.forEach((value, channel) => (fallbackSum[channel] += value));
+    }
+
+    const meanLuminance = pixelCount > 0 ? luminanceSum / pixelCount : 0;
+    const estimatedLux = this.estimateLux(meanLuminance);
+    const colorTemperature = neutralCount >= pixelCount * 0.01
+      ? this.estimateColorTemperature(neutralSum)
+      : this.estimateColorTemperature(fallbackSum);
+    const overexposedRatio = pixelCount > 0 ? overexposed / pixelCount : 0;
+    const underexposedRatio = pixelCount > 0 ? underexposed / pixelCount : 0;
+
+    const regions: ExposureRegion[] = [];
+    cells.forEach((cell, index) => {
+      if (cell.total === 0) return;
+      const row = Math.floor(index / GRID_SIZE);
+      const column = index % GRID_SIZE;
+      const overCoverage = cell.overexposed / cell.total;
+      const underCoverage = cell.underexposed / cell.total;
+
+      if (overCoverage >= REGION_MIN_COVERAGE) {
+        regions.push({ row, column, type: 'overexposed', coverage: overCoverage });
+      }
+      if (underCoverage >= REGION_MIN_COVERAGE) {
+        regions.push({ row, column, type: 'underexposed', coverage: underCoverage });
+      }
+    });
+    regions.sort((a, b) => b.coverage - a.coverage);
+
+    return {
+      meanLuminance,
+      estimatedLux,
+      colorTemperature,
+      temperatureBand: this.getTemperatureBand(colorTemperature),
+      overexposedRatio,
+      underexposedRatio,
+      regions,
+      status: this.determineStatus(estimatedLux, colorTemperature, overexposedRatio, underexposedRatio),
+    };
+  }
+
+  /**
+   * Merge measurements into the lighting insight, adding one if the AI didn't return it
+   */
+  static applyToInsights(
+    insights: ErgonomicInsight[],
+    analysis: LightingAnalysis
+  ): ErgonomicInsight[] {
+    const measurements = this.getMeasurements(analysis);
+    const summary = this.describeMeasurements(analysis);
+    const recommendation = this.generateRecommendation(analysis);
+    const existing = insights.find(insight => insight.category === 'lighting');
+
+    if (!existing) {
+      return [
+        ...insights,
+        {
+          category: 'lighting',
+          status: analysis.status,
+          title: 'Lighting Conditions',
+          description: summary,
+          recommendation: recommendation ?? 'Your lighting looks comfortable for desk work.',
+          measurements,
+        },
+      ];
+    }
+
+    return insights.map(insight =>
+      insight === existing
+        ? {
+            ...insight,
+            status: STATUS_RANK[analysis.status] > STATUS_RANK[insight.status]
+              ? analysis.status
+              : insight.status,
+            description: `${insight.description} ${summary}`,
+            recommendation: recommendation ?? insight.recommendation,
+            measurements,
+          }
+        : insight
+    );
+  }
+
+  /**
+   * Rough illuminance from relative scene luminance
+   */
+  private static estimateLux(meanLuminance: number): number {
+    const lux = (REFERENCE_LUX * meanLuminance) / MIDDLE_GRAY_LUMINANCE;
+    return Math.round(Math.max(5, Math.min(2000, lux)) / 10) * 10;
+  }
+
+  /**
+   * Correlated color temperature from summed linear RGB using McCamy's approximation
+   */
+  private static estimateColorTemperature([r, g, b]: number[]): number {
+    const x = r * 0.4124564 + g * 0.3575761 + b * 0.1804375;
+    const y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+    const z = r * 0.0193339 + g * 0.119192 + b * 0.9503041;
+    const sum = x + y + z;
+    if (sum <= 0) return 5000;
+
+    const chromaX = x / sum;
+    const chromaY = y / sum;
+    const n = (chromaX - 0.332) / (0.1858 - chromaY);
+    const cct = 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+
+    return Math.round(Math.max(1500, Math.min(10000, cct)) / 50) * 50;
+  }
+
+  private static getTemperatureBand(colorTemperature: number): ColorTemperatureBand {
+    if (colorTemperature < 3500) return 'warm';
+    if (colorTemperature <= 5000) return 'neutral';
+    return 'cool';
+  }
+
+  private static determineStatus(
+    estimatedLux: number,
+    colorTemperature: number,
+    overexposedRatio: number,
+    underexposedRatio: number
+  ): ErgonomicInsight['status'] {
+    let rank = estimatedLux >= LUX_THRESHOLDS.good
+      ? STATUS_RANK.good
+      : estimatedLux >= LUX_THRESHOLDS.needsImprovement
+        ? STATUS_RANK['needs-improvement']
+        : STATUS_RANK.poor;
+
+    if (overexposedRatio > 0.3) rank = STATUS_RANK.poor;
+    else if (overexposedRatio > 0.12) rank = Math.max(rank, STATUS_RANK['needs-improvement']);
+
+    if (underexposedRatio > 0.35) rank = Math.max(rank, STATUS_RANK['needs-improvement']);
+
+    if (colorTemperature < COMFORTABLE_CCT.min || colorTemperature > COMFORTABLE_CCT.max) {
+      rank = Math.max(rank, STATUS_RANK['needs-improvement']);
+    }
+
+    return rank === STATUS_RANK.poor ? 'poor' : rank === STATUS_RANK['needs-improvement'] ? 'needs-improvement' : 'good';
+  }
+
+  private static getMeasurements(analysis: LightingAnalysis): InsightMeasurement[] {
+    return [
+      { label: 'Brightness', value: analysis.estimatedLux, unit: 'lux' },
+      { label: 'Color temperature', value: analysis.colorTemperature, unit: 'K' },
+      { label: 'Overexposed', value: Math.round(analysis.overexposedRatio * 100), unit: '%' },
+      { label: 'Underexposed', value: Math.round(analysis.underexposedRatio * 100), unit: '%' },
+    ];
+  }
+
+  private static describeMeasurements(analysis: LightingAnalysis): string {
+    const sentences = [
+      `Measured from your photo: about ${analysis.estimatedLux} lux with ${analysis.colorTemperature}K ${analysis.temperatureBand} light.`,
+    ];
+
+    const bright = this.describeRegions(analysis.regions, 'overexposed');
+    if (analysis.overexposedRatio >= 0.05) {
+      sentences.push(
+        `Bright highlights cover ${Math.round(analysis.overexposedRatio * 100)}% of the frame${bright ? `, mostly at the ${bright}` : ''}.`
+      );
+    }
+
+    const dark = this.describeRegions(analysis.regions, 'underexposed');
+    if (analysis.underexposedRatio >= 0.1) {
+      sentences.push(
+        `Dark shadows cover ${Math.round(analysis.underexposedRatio * 100)}% of the frame${dark ? `, mostly at the ${dark}` : ''}.`
+      );
+    }
+
+    return sentences.join(' ');
+  }
+
+  private static generateRecommendation(analysis: LightingAnalysis): string | undefined {
+    const actions: string[] = [];
+
+    if (analysis.estimatedLux < LUX_THRESHOLDS.good) {
+      actions.push('Add a desk lamp or brighter overhead light to reach about 500 lux at your work surface');
+    }
+    if (analysis.overexposedRatio > 0.12) {
+      const bright = this.describeRegions(analysis.regions, 'overexposed');
+      actions.push(`Diffuse or reposition the light source causing glare${bright ? ` at the ${bright}` : ''}`);
+    }
+    if (analysis.underexposedRatio > 0.35) {
+      actions.push('Brighten dark corners to reduce the contrast your eyes adjust to');
+    }
+    if (analysis.colorTemperature < COMFORTABLE_CCT.min) {
+      actions.push('Switch to 4000-5000K bulbs for focused daytime work');
+    } else if (analysis.colorTemperature > COMFORTABLE_CCT.max) {
+      actions.push('Use warmer 3000-4000K bulbs, especially in the evening');
+    }
+
+    return actions.length > 0 ? `${actions.join('. ')}.` : undefined;
+  }
+
+  /**
+   * Plain-language location of the regions of one exposure type
+   */
+  private static describeRegions(
+    regions: ExposureRegion[],
+    type: ExposureRegion['type']
+  ): string | undefined {
+    const rowNames = ['top', 'middle', 'bottom'];
+    const columnNames = ['left', 'center', 'right'];
+    const names = regions
+      .filter(region => region.type === type)
+      .slice(0, 2)
+      .map(({ row, column }) =>
+        row === 1 && column === 1 ? 'center' : `${rowNames[row]} ${columnNames[column]}`
+      );
+
+    return names.length > 0 ? names.join(' and ') : undefined;
+  }
+}
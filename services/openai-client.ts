@@ -1,5 +1,36 @@
-import { AI_CONFIG, AIAnalysisError } from '@/types/ai-analysis';
-import OpenAI from 'openai';
+import { APIConnectionError, APIConnectionTimeoutError, APIError, APIUserAbortError } from 'openai';
+
+import {
+  AI_CONFIG,
+  AIAnalysisError,
+  AIAnalysisErrorCode,
+  isAIAnalysisError,
+  RETRYABLE_ERROR_CODES
+} from '@/types/ai-analysis';
+import {
+  AI_PROVIDERS,
+  AIChatMessage,
+  AIFixture,
+  AIGenerationOptions,
+  AIProvider,
+  AIProviderId,
+  AIProviderSettings,
+  AIReplayMode,
+  AIVisionImage,
+  DEFAULT_SYNTHETIC_OPTIONS,
+  isAIProviderId,
+  isAIReplayMode,
+  SYNTHETIC_EDGE_CASES,
+  SyntheticResponseOptions,
+} from '@/types/ai-provider';
+import { AISpendSummary, AITokenUsage, AIUsage } from '@/types/ai-usage';
+import { StructuredOutputFormat } from '@/types/json-schema';
+import { StorageResult } from '@/types/storage';
+
+import { createAIProvider, RecordingProvider, ReplayProvider, SyntheticProvider } from './ai-providers';
+import { AIUsageService } from './ai-usage';
+import { CircuitBreaker } from './circuit-breaker';
+import { StorageService } from './storage';
 
 // Configuration for the secure API proxy
 const API_CONFIG = {
@@ -8,6 +39,33 @@ const API_CONFIG = {
   CACHE_DURATION: 5 * 60 * 1000, // 5 minutes
 };
 
+// Per-environment provider selection; Expo only inlines EXPO_PUBLIC_ variables accessed directly
+const PROVIDER_ENV = {
+  PROVIDER: process.env.EXPO_PUBLIC_AI_PROVIDER,
+  MODEL: process.env.EXPO_PUBLIC_AI_MODEL,
+  BASE_URL: process.env.EXPO_PUBLIC_AI_BASE_URL,
+  API_KEY: process.env.EXPO_PUBLIC_AI_API_KEY,
+  REPLAY_MODE: process.env.EXPO_PUBLIC_AI_REPLAY_MODE,
+  SYNTHETIC_EDGE_CASE: process.env.EXPO_PUBLIC_AI_SYNTHETIC_EDGE_CASE,
+  SYNTHETIC_SEED: process.env.EXPO_PUBLIC_AI_SYNTHETIC_SEED,
+};
+
+// Where the OpenAI SDK sends requests when no base URL is set
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Failures that suggest the provider itself is down, as opposed to a problem with the request
+const OUTAGE_ERROR_CODES: readonly AIAnalysisErrorCode[] = ['SERVER_ERROR', 'TIMEOUT_ERROR'];
+
+// TypeError messages fetch uses when a request can't reach the server (React Native, browsers)
+const FETCH_FAILURE_MESSAGES = ['Network request failed', 'Failed to fetch'];
+
+// Replay setup chosen at runtime, e.g. by a test harness
+interface ReplayOverride {
+  mode: AIReplayMode;
+  synthetic: SyntheticResponseOptions;
+  fixtures?: AIFixture[];
+}
+
 interface CachedApiKey {
   key: string;
   timestamp: number;
@@ -15,11 +73,15 @@ interface CachedApiKey {
 
 /**
  * OpenAI Client Service
- * Manages OpenAI client initialization and API interactions through secure proxy
+ * Routes AI requests to the selected provider; OpenAI keys come through the secure proxy
  */
 export class OpenAIClientService {
-  private static openai: OpenAI | null = null;
+  private static provider: AIProvider | null = null;
+  private static providerCacheKey: string | null = null;
+  private static activeSettings: AIProviderSettings | null = null;
   private static cachedApiKey: CachedApiKey | null = null;
+  private static replayOverride: ReplayOverride | null = null;
+  private static circuitBreakers = new Map<AIProviderId, CircuitBreaker>();
 
   /**
    * Fetch API key from secure proxy
@@ -35,127 +97,537 @@ export class OpenAIClientService {
 
     const accessToken = API_CONFIG.ACCESS_TOKEN;
     if (!accessToken) {
-      throw new Error('Access token not found. Please set EXPO_PUBLIC_WARDROPE_SECURE_TOKEN in your environment.');
+      throw this.createError('INVALID_API_KEY', 'Access token not found. Please set EXPO_PUBLIC_WARDROPE_SECURE_TOKEN in your environment.');
     }
 
+    let response: Response;
     try {
-      const response = await fetch(API_CONFIG.PROXY_URL, {
+      response = await fetch(API_CONFIG.PROXY_URL, {
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
       });
+    } catch (error) {
+      console.error('Failed to fetch API key from proxy:', error);
+      throw this.createError(
+        'NETWORK_ERROR',
+        'Unable to connect to secure proxy. Please check your internet connection.',
+        error instanceof Error ? error.message : undefined
+      );
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Proxy API error (${response.status}): ${errorData.message || 'Failed to fetch API key'}`);
-      }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const details = `Proxy API error (${response.status}): ${errorData.message || 'Failed to fetch API key'}`;
+      console.error('Failed to fetch API key from proxy:', details);
+      throw response.status >= 500
+        ? this.createError('SERVER_ERROR', 'The secure proxy is unavailable. Please try again later.', details, {
+            status: response.status,
+          })
+        : this.createError('INVALID_API_KEY', 'Authentication failed. Please check your access token configuration.', details, {
+            status: response.status,
+          });
+    }
 
-      const data = await response.json();
-      if (!data.key) {
-        throw new Error('Invalid response from proxy: missing API key');
-      }
+    const data = await response.json();
+    if (!data.key) {
+      throw this.createError('API_ERROR', 'Invalid response from proxy: missing API key');
+    }
 
-      // Cache the API key
-      this.cachedApiKey = {
-        key: data.key,
-        timestamp: Date.now(),
-      };
+    // Cache the API key
+    this.cachedApiKey = {
+      key: data.key,
+      timestamp: Date.now(),
+    };
 
-      return data.key;
-    } catch (error) {
-      console.error('Failed to fetch API key from proxy:', error);
-      throw new Error(`Proxy connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return data.key;
+  }
+
+  /**
+   * Provider selection from environment variables, used when no runtime setting is saved
+   */
+  static getDefaultProviderSettings(): AIProviderSettings {
+    const provider = isAIProviderId(PROVIDER_ENV.PROVIDER) ? PROVIDER_ENV.PROVIDER : 'openai';
+    return {
+      provider,
+      model: PROVIDER_ENV.MODEL || AI_PROVIDERS[provider].defaultModel,
+      baseUrl: PROVIDER_ENV.BASE_URL || undefined,
+    };
+  }
+
+  /**
+   * Active provider selection: the saved setting if there is one, otherwise the environment default
+   */
+  static async getProviderSettings(): Promise<AIProviderSettings> {
+    const preferences = await StorageService.getUserPreferences();
+    const saved = preferences.data?.aiProvider;
+
+    this.activeSettings = saved && isAIProviderId(saved.provider)
+      ? { ...saved, model: saved.model || AI_PROVIDERS[saved.provider].defaultModel }
+      : this.getDefaultProviderSettings();
+
+    return this.activeSettings;
+  }
+
+  /**
+   * Save a runtime provider selection, or pass null to fall back to the environment default
+   */
+  static async setProviderSettings(
+    settings: AIProviderSettings | null
+  ): Promise<StorageResult<AIProviderSettings>> {
+    const result = await StorageService.updateUserPreferences({ aiProvider: settings ?? undefined });
+    if (!result.success) {
+      return { success: false, error: result.error };
     }
+
+    this.provider = null;
+    this.providerCacheKey = null;
+    return { success: true, data: await this.getProviderSettings() };
   }
 
   /**
-   * Initialize and get OpenAI client
+   * Get the adapter for the active provider, recreating it when the selection changes
    */
-  static async getClient(): Promise<OpenAI> {
-    if (!this.openai) {
-      const apiKey = await this.fetchApiKeyFromProxy();
-      
-      this.openai = new OpenAI({
-        apiKey,
-        dangerouslyAllowBrowser: true, // Required for React Native/Expo
-      });
+  static async getProvider(): Promise<{ provider: AIProvider; settings: AIProviderSettings }> {
+    const settings = await this.getProviderSettings();
+    const replayMode = this.getReplayMode();
+    const cacheKey = `${settings.provider}|${settings.baseUrl ?? ''}|${replayMode}`;
+
+    if (!this.provider || this.providerCacheKey !== cacheKey) {
+      this.provider = await this.createProvider(settings, replayMode);
+      this.providerCacheKey = cacheKey;
+    }
+
+    return { provider: this.provider, settings };
+  }
+
+  /**
+   * Create the adapter for a provider selection, wrapped or replaced according to the replay mode
+   */
+  private static async createProvider(
+    settings: AIProviderSettings,
+    replayMode: AIReplayMode
+  ): Promise<AIProvider> {
+    const synthetic = this.getSyntheticOptions();
+
+    switch (replayMode) {
+      case 'synthetic':
+        return new SyntheticProvider(settings.provider, synthetic);
+      case 'replay':
+        return new ReplayProvider(settings.provider, {
+          fixtures: this.replayOverride?.fixtures,
+          chunkSize: synthetic.chunkSize,
+        });
+      case 'record':
+        return new RecordingProvider(createAIProvider(settings, await this.getApiKey(settings.provider)));
+      case 'live':
+      default:
+        return createAIProvider(settings, await this.getApiKey(settings.provider));
     }
+  }
+
+  /**
+   * How AI calls are served: the runtime override if set, otherwise EXPO_PUBLIC_AI_REPLAY_MODE, otherwise live
+   */
+  static getReplayMode(): AIReplayMode {
+    if (this.replayOverride) {
+      return this.replayOverride.mode;
+    }
+    return isAIReplayMode(PROVIDER_ENV.REPLAY_MODE) ? PROVIDER_ENV.REPLAY_MODE : 'live';
+  }
+
+  /**
+   * Switch replay mode at runtime, optionally with synthetic response options and fixtures to replay;
+   * pass null to go back to the environment setting
+   */
+  static setReplayMode(
+    mode: AIReplayMode | null,
+    options: { synthetic?: Partial<SyntheticResponseOptions>; fixtures?: AIFixture[] } = {}
+  ): void {
+    this.replayOverride = mode
+      ? {
+          mode,
+          synthetic: { ...this.getEnvironmentSyntheticOptions(), ...options.synthetic },
+          fixtures: options.fixtures,
+        }
+      : null;
+    this.provider = null;
+    this.providerCacheKey = null;
+  }
+
+  /**
+   * Whether AI calls go over the network; replayed and synthetic responses don't
+   */
+  static requiresNetwork(): boolean {
+    const mode = this.getReplayMode();
+    return mode === 'live' || mode === 'record';
+  }
+
+  /**
+   * Base URL the active provider's requests go to, e.g. for checking it can be reached
+   */
+  static async getEndpointUrl(): Promise<string> {
+    const settings = await this.getProviderSettings();
+    return settings.baseUrl || AI_PROVIDERS[settings.provider].defaultBaseUrl || OPENAI_DEFAULT_BASE_URL;
+  }
 
-    return this.openai;
+  private static getSyntheticOptions(): SyntheticResponseOptions {
+    return this.replayOverride?.synthetic ?? this.getEnvironmentSyntheticOptions();
+  }
+
+  private static getEnvironmentSyntheticOptions(): SyntheticResponseOptions {
+    const edgeCase = SYNTHETIC_EDGE_CASES.find(value => value === PROVIDER_ENV.SYNTHETIC_EDGE_CASE);
+    const seed = Number(PROVIDER_ENV.SYNTHETIC_SEED);
+
+    return {
+      ...DEFAULT_SYNTHETIC_OPTIONS,
+      edgeCase: edgeCase ?? DEFAULT_SYNTHETIC_OPTIONS.edgeCase,
+      seed: PROVIDER_ENV.SYNTHETIC_SEED && Number.isFinite(seed) ? seed : DEFAULT_SYNTHETIC_OPTIONS.seed,
+    };
   }
 
   /**
-   * Call OpenAI Vision API with image and prompt
+   * Call the active provider's vision model with one or more images and a prompt, optionally constrained to a schema
    */
   static async analyzeImageWithPrompt(
-    imageBase64: string,
-    prompt: string
+    images: AIVisionImage[],
+    prompt: string,
+    responseFormat?: StructuredOutputFormat,
+    signal?: AbortSignal,
+    onUsage?: (usage: AIUsage) => void
+  ): Promise<string> {
+    return this.callProvider(signal, 'AI provider call failed:', (provider, settings, attemptSignal) =>
+      this.trackUsage(settings, images, onUsage, reportTokens => provider.analyzeImage({
+        model: settings.model,
+        maxTokens: AI_CONFIG.MAX_TOKENS,
+        temperature: AI_CONFIG.TEMPERATURE,
+        prompt,
+        images,
+        responseFormat,
+        signal: attemptSignal,
+        onUsage: reportTokens,
+      }))
+    );
+  }
+
+  /**
+   * Same as analyzeImageWithPrompt, but reports the response text accumulated so far as it streams in
+   */
+  static async streamImageWithPrompt(
+    images: AIVisionImage[],
+    prompt: string,
+    responseFormat: StructuredOutputFormat | undefined,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+    onUsage?: (usage: AIUsage) => void
+  ): Promise<string> {
+    let text = '';
+    return this.callProvider(signal, 'AI provider stream failed:', (provider, settings, attemptSignal) =>
+      this.trackUsage(settings, images, onUsage, reportTokens => provider.streamImageAnalysis(
+        {
+          model: settings.model,
+          maxTokens: AI_CONFIG.MAX_TOKENS,
+          temperature: AI_CONFIG.TEMPERATURE,
+          prompt,
+          images,
+          responseFormat,
+          signal: attemptSignal,
+          onUsage: reportTokens,
+        },
+        delta => {
+          text += delta;
+          onText(text);
+        }
+      ))
+    );
+  }
+
+  /**
+   * Send a text conversation to the active provider
+   */
+  static async chat(
+    messages: AIChatMessage[],
+    options: Partial<Omit<AIGenerationOptions, 'model' | 'onUsage'>> & { onUsage?: (usage: AIUsage) => void } = {}
   ): Promise<string> {
-    const client = await this.getClient();
+    return this.callProvider(options.signal, 'AI provider chat failed:', (provider, settings, attemptSignal) =>
+      this.trackUsage(settings, [], options.onUsage, reportTokens => provider.chat({
+        model: settings.model,
+        maxTokens: options.maxTokens ?? AI_CONFIG.MAX_TOKENS,
+        temperature: options.temperature ?? AI_CONFIG.TEMPERATURE,
+        responseFormat: options.responseFormat,
+        signal: attemptSignal,
+        onUsage: reportTokens,
+        messages,
+      }))
+    );
+  }
 
+  /**
+   * Make a call to the active provider through its circuit breaker, mapping failures to analysis errors.
+   * While the provider keeps failing with outages, calls fail fast with SERVICE_UNAVAILABLE instead of waiting on it.
+   * Each call is aborted with TIMEOUT_ERROR once it runs longer than AI_CONFIG.TIMEOUT_MS.
+   */
+  private static async callProvider<T>(
+    signal: AbortSignal | undefined,
+    logMessage: string,
+    call: (provider: AIProvider, settings: AIProviderSettings, attemptSignal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const attempt = this.createAttemptSignal(signal);
+    let breaker: CircuitBreaker | undefined;
     try {
-      const response = await client.chat.completions.create({
-        model: AI_CONFIG.MODEL,
-        max_tokens: AI_CONFIG.MAX_TOKENS,
-        temperature: AI_CONFIG.TEMPERATURE,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt,
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:image/jpeg;base64,${imageBase64}`,
-                  detail: 'high',
-                },
-              },
-            ],
-          },
-        ],
-      });
+      const { provider, settings } = await this.getProvider();
 
-      const aiContent = response.choices[0]?.message?.content;
-      if (!aiContent) {
-        throw new Error('No response from AI analysis');
+      const circuit = this.getCircuitBreaker(settings.provider);
+      if (!circuit.tryAcquire()) {
+        throw this.createError(
+          'SERVICE_UNAVAILABLE',
+          `${AI_PROVIDERS[settings.provider].label} is having problems right now. Please try again in a minute.`,
+          undefined,
+          { retryAfterMs: circuit.getRetryAfterMs() }
+        );
       }
+      breaker = circuit;
 
-      return aiContent;
+      const result = await call(provider, settings, attempt.signal);
+      breaker.recordSuccess();
+      return result;
     } catch (error) {
-      console.error('OpenAI API call failed:', error);
-      
-      if (error instanceof Error) {
-        // Handle specific OpenAI errors
-        if (error.message.includes('rate limit')) {
-          throw this.createError('RATE_LIMIT_ERROR', 'API rate limit exceeded. Please try again later.');
-        } else if (error.message.includes('invalid_api_key')) {
-          throw this.createError('INVALID_API_KEY', 'Invalid OpenAI API key.');
-        } else if (error.message.includes('insufficient_quota')) {
-          throw this.createError('QUOTA_EXCEEDED', 'OpenAI API quota exceeded.');
-        } else if (error.message.includes('timeout')) {
-          throw this.createError('TIMEOUT_ERROR', 'Request timed out. Please try again.');
-        } else if (error.message.includes('network') || error.message.includes('fetch')) {
-          throw this.createError('NETWORK_ERROR', 'Network error. Please check your connection.');
-        } else if (error.message.includes('Proxy connection failed')) {
-          throw this.createError('NETWORK_ERROR', 'Unable to connect to secure proxy. Please check your internet connection.');
-        } else if (error.message.includes('Proxy API error')) {
-          throw this.createError('INVALID_API_KEY', 'Authentication failed. Please check your access token configuration.');
+      let analysisError: AIAnalysisError;
+      if (attempt.hasTimedOut()) {
+        console.error(logMessage, `No response within ${AI_CONFIG.TIMEOUT_MS}ms`);
+        analysisError = this.createError('TIMEOUT_ERROR', 'Request timed out. Please try again.');
+      } else {
+        analysisError = this.toAnalysisError(error, signal, logMessage);
+      }
+
+      if (analysisError.code === 'CANCELLED') {
+        breaker?.release();
+      } else if (OUTAGE_ERROR_CODES.includes(analysisError.code)) {
+        breaker?.recordFailure();
+      } else {
+        // Any other answer, even an error, means the provider is up
+        breaker?.recordSuccess();
+      }
+      throw analysisError;
+    } finally {
+      attempt.dispose();
+    }
+  }
+
+  /**
+   * Signal for one provider call: aborts when the caller's signal does, or once the call times out
+   */
+  private static createAttemptSignal(signal: AbortSignal | undefined): {
+    signal: AbortSignal;
+    hasTimedOut: () => boolean;
+    dispose: () => void;
+  } {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort);
+    }
+
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, AI_CONFIG.TIMEOUT_MS);
+
+    return {
+      signal: controller.signal,
+      // A cancellation that came first stays a cancellation
+      hasTimedOut: () => timedOut && !signal?.aborted,
+      dispose: () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+
+  private static getCircuitBreaker(provider: AIProviderId): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(provider);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: AI_CONFIG.CIRCUIT_FAILURE_THRESHOLD,
+        cooldownMs: AI_CONFIG.CIRCUIT_COOLDOWN_MS,
+      });
+      this.circuitBreakers.set(provider, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Make a provider call, then price the tokens it reported and add them to the spend ledger.
+   * Calls that fail after being billed, e.g. with an empty reply, are recorded too.
+   */
+  private static async trackUsage(
+    settings: AIProviderSettings,
+    images: AIVisionImage[],
+    onUsage: ((usage: AIUsage) => void) | undefined,
+    call: (reportTokens: (tokens: AITokenUsage) => void) => Promise<string>
+  ): Promise<string> {
+    let tokens: AITokenUsage | undefined;
+    try {
+      return await call(reported => {
+        tokens = reported;
+      });
+    } finally {
+      if (tokens) {
+        const usage = await AIUsageService.createUsage(settings.provider, settings.model, tokens, images);
+        const recorded = await AIUsageService.recordUsage(usage);
+        if (!recorded.success) {
+          console.warn('AI usage was not recorded:', recorded.error);
         }
+        onUsage?.(usage);
       }
-      
-      throw this.createError('API_ERROR', `OpenAI API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Validate proxy configuration
+   * List models offered by the active provider
+   */
+  static async listModels(): Promise<string[]> {
+    try {
+      const { provider } = await this.getProvider();
+      return await provider.listModels();
+    } catch (error) {
+      throw this.toAnalysisError(error, undefined, 'Failed to list AI models:');
+    }
+  }
+
+  /**
+   * Map a provider failure to an analysis error by SDK error class and HTTP status; aborted requests become cancellations
+   */
+  private static toAnalysisError(
+    error: unknown,
+    signal: AbortSignal | undefined,
+    logMessage: string
+  ): AIAnalysisError {
+    if (signal?.aborted || error instanceof APIUserAbortError) {
+      return this.createError('CANCELLED', 'Analysis cancelled.');
+    }
+    if (isAIAnalysisError(error)) {
+      return error;
+    }
+    console.error(logMessage, error);
+
+    const details = error instanceof Error ? error.message : undefined;
+
+    // The request never got an HTTP response
+    if (error instanceof APIConnectionTimeoutError) {
+      return this.createError('TIMEOUT_ERROR', 'Request timed out. Please try again.', details);
+    }
+    if (
+      error instanceof APIConnectionError
+      || (error instanceof TypeError && FETCH_FAILURE_MESSAGES.includes(error.message))
+    ) {
+      return this.createError('NETWORK_ERROR', 'Network error. Please check your connection.', details);
+    }
+
+    const status = error instanceof APIError
+      ? error.status
+      : typeof error === 'object' && error !== null && 'status' in error
+        ? Number((error as { status: unknown }).status)
+        : undefined;
+    if (status === undefined || !Number.isFinite(status)) {
+      return this.createError('API_ERROR', `AI provider error: ${details ?? 'Unknown error'}`, details);
+    }
+
+    const extra = { status, retryAfterMs: this.getRetryAfterMs(error) };
+    if (status === 401 || status === 403) {
+      return this.createError('INVALID_API_KEY', 'Invalid API key for the selected AI provider.', details, extra);
+    }
+    if (status === 402 || (error instanceof APIError && error.code === 'insufficient_quota')) {
+      return this.createError('QUOTA_EXCEEDED', 'AI provider quota exceeded. Check your plan and billing details.', details, extra);
+    }
+    if (status === 429) {
+      return this.createError('RATE_LIMIT_ERROR', 'API rate limit exceeded. Please try again later.', details, extra);
+    }
+    if (status === 408) {
+      return this.createError('TIMEOUT_ERROR', 'Request timed out. Please try again.', details, extra);
+    }
+    if (status >= 500) {
+      return this.createError('SERVER_ERROR', 'The AI provider is having problems. Please try again shortly.', details, extra);
+    }
+    return this.createError('INVALID_REQUEST', `The AI provider rejected the request: ${details ?? `HTTP ${status}`}`, details, extra);
+  }
+
+  /**
+   * Delay a failed response asked for in its Retry-After (or OpenAI's retry-after-ms) header, if any
+   */
+  private static getRetryAfterMs(error: unknown): number | undefined {
+    const headers = typeof error === 'object' && error !== null && 'headers' in error
+      ? (error as { headers: unknown }).headers
+      : undefined;
+    if (!(headers instanceof Headers)) return undefined;
+
+    const milliseconds = Number(headers.get('retry-after-ms') ?? NaN);
+    if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+      return milliseconds;
+    }
+
+    // Either a number of seconds or an HTTP date
+    const retryAfter = headers.get('retry-after');
+    if (!retryAfter) return undefined;
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    return Number.isFinite(delay) ? Math.max(0, delay) : undefined;
+  }
+
+  /**
+   * API key for a provider: OpenAI keys come from the proxy, others from the environment
+   */
+  private static async getApiKey(provider: AIProviderId): Promise<string> {
+    if (provider === 'openai') {
+      return this.fetchApiKeyFromProxy();
+    }
+
+    const apiKey = PROVIDER_ENV.API_KEY ?? '';
+    if (!apiKey && AI_PROVIDERS[provider].requiresApiKey) {
+      throw this.createError(
+        'INVALID_API_KEY',
+        `${AI_PROVIDERS[provider].label} API key is not configured. Please set EXPO_PUBLIC_AI_API_KEY in your environment.`
+      );
+    }
+    return apiKey;
+  }
+
+  /**
+   * Validate configuration for the active provider
    */
   static validateConfiguration(): { isValid: boolean; error?: string } {
+    // Replayed and synthetic responses need no credentials
+    if (!this.requiresNetwork()) {
+      return { isValid: true };
+    }
+
+    const settings = this.activeSettings ?? this.getDefaultProviderSettings();
+    const info = AI_PROVIDERS[settings.provider];
+
+    if (settings.provider !== 'openai') {
+      if (info.requiresApiKey && !PROVIDER_ENV.API_KEY) {
+        return {
+          isValid: false,
+          error: `${info.label} API key is not configured. Please add EXPO_PUBLIC_AI_API_KEY to your environment variables.`,
+        };
+      }
+
+      if (!settings.baseUrl && !info.defaultBaseUrl) {
+        return {
+          isValid: false,
+          error: `${info.label} base URL is not configured.`,
+        };
+      }
+
+      return { isValid: true };
+    }
+
     const accessToken = API_CONFIG.ACCESS_TOKEN;
     
     if (!accessToken) {
@@ -180,52 +652,49 @@ export class OpenAIClientService {
    */
   static async testConnection(): Promise<{ isConnected: boolean; error?: string }> {
     try {
-      // Test proxy connection first
-      await this.fetchApiKeyFromProxy();
-      
-      // Then test OpenAI connection
-      const client = await this.getClient();
-      await client.models.list();
+      // Creating the provider also verifies the proxy for OpenAI
+      const { provider } = await this.getProvider();
+      await provider.listModels();
       
       return { isConnected: true };
     } catch (error) {
       console.error('Connection test failed:', error);
       return {
         isConnected: false,
-        error: error instanceof Error ? error.message : 'Connection test failed'
+        error: isAIAnalysisError(error) || error instanceof Error ? error.message : 'Connection test failed'
       };
     }
   }
 
   /**
-   * Get API usage information (if available)
+   * Estimated spend today and this month, from the usage recorded for each call
    */
   static async getUsageInfo(): Promise<{
     available: boolean;
-    usage?: any;
+    usage?: AISpendSummary;
     error?: string;
   }> {
-    // Note: OpenAI doesn't provide usage info through the standard API
-    // This is a placeholder for future implementation
-    return {
-      available: false,
-      error: 'Usage information not available through OpenAI API'
-    };
+    const result = await AIUsageService.getSpendSummary();
+    return result.success
+      ? { available: true, usage: result.data }
+      : { available: false, error: result.error };
   }
 
   /**
    * Create AI analysis error
    */
   private static createError(
-    code: AIAnalysisError['code'],
+    code: AIAnalysisErrorCode,
     message: string,
-    details?: string
+    details?: string,
+    extra: Pick<AIAnalysisError, 'status' | 'retryAfterMs'> = {}
   ): AIAnalysisError {
     return {
       code,
       message,
       details,
-      retryable: ['NETWORK_ERROR', 'TIMEOUT_ERROR', 'API_ERROR', 'RATE_LIMIT_ERROR'].includes(code),
+      retryable: RETRYABLE_ERROR_CODES.includes(code),
+      ...extra,
     };
   }
 
@@ -233,8 +702,10 @@ export class OpenAIClientService {
    * Reset client and cache (useful for testing or configuration changes)
    */
   static resetClient(): void {
-    this.openai = null;
+    this.provider = null;
+    this.providerCacheKey = null;
     this.cachedApiKey = null;
+    this.circuitBreakers.clear();
   }
 
   /**
@@ -0,0 +1,95 @@
+import { ColorPalette } from '@/types/ai-analysis';
+import {
+  PAINT_CATALOG,
+  PaintColor,
+  PaintMatch,
+  PaintMatchOptions,
+  SwatchPaintMatches,
+} from '@/types/paint';
+
+import { ColorSpaceService, LabColor } from './color-space';
+
+const DEFAULT_OPTIONS: PaintMatchOptions = {
+  limit: 3,
+};
+
+/**
+ * Paint Matching Service
+ * Finds the closest real paint colors in the bundled catalog by CIEDE2000
+ */
+export class PaintMatchingService {
+  private static catalogLab: Map<string, LabColor> | null = null;
+
+  /**
+   * Top paint matches for every swatch in a palette
+   */
+  static matchPalette(
+    palette: ColorPalette,
+    options: Partial<PaintMatchOptions> = {}
+  ): SwatchPaintMatches[] {
+    return palette.colors
+      .filter(swatch => ColorSpaceService.hexToRgb(swatch) !== null)
+      .map(swatch => ({
+        swatch,
+        matches: this.matchColor(swatch, options),
+      }));
+  }
+
+  /**
+   * Top paint matches for a single hex color, closest first
+   */
+  static matchColor(hex: string, options: Partial<PaintMatchOptions> = {}): PaintMatch[] {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const rgb = ColorSpaceService.hexToRgb(hex);
+    if (!rgb || opts.limit <= 0) return [];
+
+    const lab = ColorSpaceService.rgbToLab(rgb);
+    const catalogLab = this.getCatalogLab();
+
+    return this.filterCatalog(opts)
+      .map(paint => ({
+        paint,
+        deltaE: ColorSpaceService.deltaE2000(lab, catalogLab.get(paint.id)!),
+      }))
+      .sort((a, b) => a.deltaE - b.deltaE)
+      .slice(0, opts.limit);
+  }
+
+  /**
+   * Catalog entries that pass the brand and finish filters
+   */
+  static filterCatalog(options: Partial<PaintMatchOptions> = {}): PaintColor[] {
+    const { brands, finishes } = options;
+
+    return PAINT_CATALOG.filter(paint => {
+      if (brands?.length && !brands.includes(paint.brand)) return false;
+      if (finishes?.length && !paint.finishes.some(finish => finishes.includes(finish))) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Describe how close a match is in plain language
+   */
+  static describeMatch(deltaE: number): string {
+    if (deltaE < 2) return 'Near-exact match';
+    if (deltaE < 5) return 'Close match';
+    if (deltaE < 10) return 'Similar';
+    return 'Loose match';
+  }
+
+  /**
+   * CIELAB values for the catalog, computed once
+   */
+  private static getCatalogLab(): Map<string, LabColor> {
+    if (!this.catalogLab) {
+      this.catalogLab = new Map(
+        PAINT_CATALOG.map(paint => [
+          paint.id,
+          ColorSpaceService.rgbToLab(ColorSpaceService.hexToRgb(paint.hex) ?? [0, 0, 0]),
+        ])
+      );
+    }
+    return this.catalogLab;
+  }
+}
@@ -0,0 +1,279 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { ColorPalette, PaletteExportFile, PaletteExportFormat } from '@/types/ai-analysis';
+import { StorageResult } from '@/types/storage';
+
+import { ColorSpaceService, RgbColor } from './color-space';
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const PALETTE_EXPORT_FORMATS: Record<PaletteExportFormat, ExportFormatInfo> = {
+  ase: { label: 'Adobe Swatch Exchange', extension: 'ase', mimeType: 'application/octet-stream' },
+  gpl: { label: 'GIMP Palette', extension: 'gpl', mimeType: 'text/plain' },
+  css: { label: 'CSS Variables', extension: 'css', mimeType: 'text/css' },
+  tailwind: { label: 'Tailwind Config', extension: 'json', mimeType: 'application/json' },
+  svg: { label: 'SVG Swatch Sheet', extension: 'svg', mimeType: 'image/svg+xml' },
+};
+
+// ASE block types and color type from the Adobe Swatch Exchange spec
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR_ENTRY = 0x0001;
+const ASE_COLOR_TYPE_GLOBAL = 0;
+
+const SVG_SWATCH_WIDTH = 120;
+const SVG_SWATCH_HEIGHT = 160;
+const SVG_LABEL_HEIGHT = 40;
+const SVG_TITLE_HEIGHT = 48;
+
+/**
+ * Palette Export Service
+ * Serializes palettes to design tool formats and writes them to shareable files
+ */
+export class PaletteExportService {
+  private static readonly EXPORT_DIRECTORY_NAME = 'palette-exports';
+
+  /**
+   * Serialize a palette and write it to the export directory
+   */
+  static async exportPalette(
+    palette: ColorPalette,
+    format: PaletteExportFormat
+  ): Promise<StorageResult<PaletteExportFile>> {
+    try {
+      const colors = this.getValidColors(palette);
+      if (colors.length === 0) {
+        return { success: false, error: 'Palette has no valid colors to export' };
+      }
+
+      const exportDir = new Directory(Paths.cache, this.EXPORT_DIRECTORY_NAME);
+      if (!exportDir.exists) {
+        exportDir.create();
+      }
+
+      const { extension, mimeType } = PALETTE_EXPORT_FORMATS[format];
+      const fileName = `${this.slugify(palette.name)}.${extension}`;
+      const file = new File(exportDir, fileName);
+      if (file.exists) {
+        file.delete();
+      }
+
+      file.write(this.serialize(palette, format));
+
+      console.log(`Palette exported as ${format}:`, file.uri);
+      return {
+        success: true,
+        data: { format, fileName, uri: file.uri, mimeType },
+      };
+    } catch (error) {
+      console.error('Failed to export palette:', error);
+      return { success: false, error: 'Failed to export palette' };
+    }
+  }
+
+  /**
+   * Export a palette and open the system share sheet for the file
+   */
+  static async sharePalette(
+    palette: ColorPalette,
+    format: PaletteExportFormat
+  ): Promise<StorageResult<PaletteExportFile>> {
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        return { success: false, error: 'Sharing is not available on this device' };
+      }
+
+      const result = await this.exportPalette(palette, format);
+      if (!result.success || !result.data) {
+        return result;
+      }
+
+      // Shared as a file on both platforms, so binary formats like ASE arrive intact
+      await Sharing.shareAsync(result.data.uri, {
+        mimeType: result.data.mimeType,
+        dialogTitle: `${palette.name} (${PALETTE_EXPORT_FORMATS[format].label})`,
+      });
+
+      return result;
+    } catch (error) {
+      console.error('Failed to share palette:', error);
+      return { success: false, error: 'Failed to share palette' };
+    }
+  }
+
+  /**
+   * Serialize a palette without writing it to disk
+   */
+  static serialize(palette: ColorPalette, format: PaletteExportFormat): string | Uint8Array {
+    switch (format) {
+      case 'ase':
+        return this.toAse(palette);
+      case 'gpl':
+        return this.toGpl(palette);
+      case 'css':
+        return this.toCssVariables(palette);
+      case 'tailwind':
+        return this.toTailwindJson(palette);
+      case 'svg':
+        return this.toSvg(palette);
+    }
+  }
+
+  /**
+   * Adobe Swatch Exchange (binary, big-endian) with the palette as one group
+   */
+  static toAse(palette: ColorPalette): Uint8Array {
+    const colors = this.getValidColors(palette);
+    const blocks: Uint8Array[] = [
+      this.aseBlock(ASE_GROUP_START, this.aseName(palette.name)),
+      ...colors.map(({ hex, rgb }) => {
+        const body = new DataView(new ArrayBuffer(4 + 12 + 2));
+        // Color model is a space-padded four-character code
+        'RGB '.split('').forEach((char, i) => body.setUint8(i, char.charCodeAt(0)));
+        rgb.forEach((channel, i) => body.setFloat32(4 + i * 4, channel / 255));
+        body.setUint16(16, ASE_COLOR_TYPE_GLOBAL);
+        return this.aseBlock(ASE_COLOR_ENTRY, this.aseName(hex), new Uint8Array(body.buffer));
+      }),
+      this.aseBlock(ASE_GROUP_END),
+    ];
+
+    const header = new DataView(new ArrayBuffer(12));
+    'ASEF'.split('').forEach((char, i) => header.setUint8(i, char.charCodeAt(0)));
+    header.setUint16(4, 1); // Version 1.0
+    header.setUint16(6, 0);
+    header.setUint32(8, blocks.length);
+
+    return this.concatBytes([new Uint8Array(header.buffer), ...blocks]);
+  }
+
+  /**
+   * GIMP palette (.gpl), also read by Inkscape and Krita
+   */
+  static toGpl(palette: ColorPalette): string {
+    const colors = this.getValidColors(palette);
+    const lines = [
+      'GIMP Palette',
+      `Name: ${palette.name.replace(/[\r\n]+/g, ' ')}`,
+      `Columns: ${colors.length}`,
+      '#',
+      ...colors.map(({ hex, rgb }) =>
+        `${rgb.map(channel => String(channel).padStart(3, ' ')).join(' ')}\t${hex}`
+      ),
+    ];
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * CSS custom properties on :root
+   */
+  static toCssVariables(palette: ColorPalette): string {
+    const slug = this.slugify(palette.name);
+    const declarations = this.getValidColors(palette).map(
+      ({ hex }, index) => `  --${slug}-${index + 1}: ${hex};`
+    );
+    return `/* ${palette.name.replace(/\*\//g, '')} */\n:root {\n${declarations.join('\n')}\n}\n`;
+  }
+
+  /**
+   * Tailwind theme extension, usable as e.g. bg-{palette}-1
+   */
+  static toTailwindJson(palette: ColorPalette): string {
+    const colors = this.getValidColors(palette);
+    const shades: Record<string, string> = { DEFAULT: colors[0]?.hex ?? '#000000' };
+    colors.forEach(({ hex }, index) => {
+      shades[String(index + 1)] = hex;
+    });
+
+    return `${JSON.stringify(
+      { theme: { extend: { colors: { [this.slugify(palette.name)]: shades } } } },
+      null,
+      2
+    )}\n`;
+  }
+
+  /**
+   * SVG sheet with one labeled swatch per color
+   */
+  static toSvg(palette: ColorPalette): string {
+    const colors = this.getValidColors(palette);
+    const width = Math.max(1, colors.length) * SVG_SWATCH_WIDTH;
+    const height = SVG_TITLE_HEIGHT + SVG_SWATCH_HEIGHT + SVG_LABEL_HEIGHT;
+
+    const swatches = colors.map(({ hex }, index) => {
+      const x = index * SVG_SWATCH_WIDTH;
+      return [
+        `  <rect x="${x}" y="${SVG_TITLE_HEIGHT}" width="${SVG_SWATCH_WIDTH}" height="${SVG_SWATCH_HEIGHT}" fill="${hex}"/>`,
+        `  <text x="${x + SVG_SWATCH_WIDTH / 2}" y="${SVG_TITLE_HEIGHT + SVG_SWATCH_HEIGHT + 26}" text-anchor="middle" font-family="monospace" font-size="14" fill="#333333">${hex}</text>`,
+      ].join('\n');
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `  <rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+      `  <text x="16" y="32" font-family="sans-serif" font-size="20" font-weight="bold" fill="#333333">${this.escapeXml(palette.name)}</text>`,
+      ...swatches,
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Normalized hex and RGB for every parseable palette color
+   */
+  private static getValidColors(palette: ColorPalette): { hex: string; rgb: RgbColor }[] {
+    return palette.colors.flatMap(color => {
+      const rgb = ColorSpaceService.hexToRgb(color);
+      return rgb ? [{ hex: ColorSpaceService.rgbToHex(rgb), rgb }] : [];
+    });
+  }
+
+  /**
+   * ASE block: type, byte length, then body
+   */
+  private static aseBlock(type: number, ...parts: Uint8Array[]): Uint8Array {
+    const body = this.concatBytes(parts);
+    const header = new DataView(new ArrayBuffer(6));
+    header.setUint16(0, type);
+    header.setUint32(2, body.length);
+    return this.concatBytes([new Uint8Array(header.buffer), body]);
+  }
+
+  /**
+   * ASE name: UTF-16 code unit count (with terminator) followed by null-terminated UTF-16BE
+   */
+  private static aseName(name: string): Uint8Array {
+    const view = new DataView(new ArrayBuffer(2 + (name.length + 1) * 2));
+    view.setUint16(0, name.length + 1);
+    for (let i = 0; i < name.length; i++) {
+      view.setUint16(2 + i * 2, name.charCodeAt(i));
+    }
+    return new Uint8Array(view.buffer);
+  }
+
+  private static concatBytes(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  }
+
+  private static slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'palette';
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
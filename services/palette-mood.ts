@@ -0,0 +1,334 @@
+import { MoodTag, PaletteMood } from '@/types/ai-analysis';
+
+import { ColorSpaceService, LchColor } from './color-space';
+
+export interface MoodColorInput {
+  rgb: number[];
+  frequency: number; // Relative share of the palette; normalized internally
+}
+
+export interface PaletteMoodFeatures {
+  warmth: number; // -1 (cool) to 1 (warm)
+  saturation: number; // 0-1
+  contrast: number; // Lightness range of prominent colors, 0-1
+  meanLightness: number; // 0-1
+  lightShare: number; // Share of light colors, 0-1
+  darkShare: number; // Share of dark colors, 0-1
+  hueFamilies: Partial<Record<HueFamily, number>>; // Share of chromatic colors per family
+}
+
+export interface PaletteMoodAnalysis {
+  mood: PaletteMood;
+  tags: MoodTag[];
+  features: PaletteMoodFeatures;
+  description: string;
+}
+
+export type HueFamily = 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+interface WeightedLch {
+  hex: string;
+  lch: LchColor;
+  weight: number;
+}
+
+// Colors below this LCh chroma count as neutral
+const NEUTRAL_CHROMA = 8;
+const MAX_TAGS = 3;
+// Tags must score at least this, and be close to the strongest tag
+const MIN_TAG_SCORE = 0.35;
+const TAG_SCORE_RATIO = 0.8;
+
+const COOL_FAMILIES: HueFamily[] = ['green', 'teal', 'blue'];
+
+/**
+ * Palette Mood Service
+ * Scores palettes on warmth, saturation, contrast, value and hue families to produce weighted mood tags
+ */
+export class PaletteMoodService {
+  /**
+   * Classify a palette of weighted colors
+   */
+  static analyze(colors: MoodColorInput[]): PaletteMoodAnalysis {
+    const weighted = this.toWeightedLch(colors);
+    const features = this.extractFeatures(weighted);
+
+    if (weighted.length === 0) {
+      return {
+        mood: 'focus',
+        tags: [],
+        features,
+        description: 'Neutral color scheme that keeps attention on your work',
+      };
+    }
+
+    const scores = this.scoreMoods(features, weighted);
+    const ranked = (Object.keys(scores) as PaletteMood[]).sort((a, b) => scores[b] - scores[a]);
+    const topScore = scores[ranked[0]];
+    const selected = ranked
+      .filter((mood, index) =>
+        index === 0 || (scores[mood] >= MIN_TAG_SCORE && scores[mood] >= topScore * TAG_SCORE_RATIO)
+      )
+      .slice(0, MAX_TAGS);
+    const total = selected.reduce((sum, mood) => sum + scores[mood], 0) || 1;
+
+    const tags: MoodTag[] = selected.map(mood => {
+      const drivingColors = this.findDrivingColors(mood, weighted);
+      return {
+        mood,
+        weight: scores[mood] / total,
+        explanation: this.explain(mood, drivingColors, features),
+        drivingColors: drivingColors.map(color => color.hex),
+      };
+    });
+
+    return {
+      mood: tags[0].mood,
+      tags,
+      features,
+      description: this.describe(features, tags, weighted.length),
+    };
+  }
+
+  /**
+   * Classify plain hex colors, treating them as equally prominent
+   */
+  static analyzeHexColors(hexColors: string[]): PaletteMoodAnalysis {
+    return this.analyze(
+      hexColors.flatMap(hex => {
+        const rgb = ColorSpaceService.hexToRgb(hex);
+        return rgb ? [{ rgb, frequency: 1 }] : [];
+      })
+    );
+  }
+
+  private static toWeightedLch(colors: MoodColorInput[]): WeightedLch[] {
+    const total = colors.reduce((sum, color) => sum + Math.max(0, color.frequency), 0);
+
+    return colors.map(color => ({
+      hex: ColorSpaceService.rgbToHex(color.rgb),
+      lch: ColorSpaceService.rgbToLch(color.rgb),
+      weight: total > 0 ? Math.max(0, color.frequency) / total : 1 / colors.length,
+    }));
+  }
+
+  private static extractFeatures(colors: WeightedLch[]): PaletteMoodFeatures {
+    const features: PaletteMoodFeatures = {
+      warmth: 0,
+      saturation: 0,
+      contrast: 0,
+      meanLightness: 0,
+      lightShare: 0,
+      darkShare: 0,
+      hueFamilies: {},
+    };
+
+    const prominentLightness: number[] = [];
+
+    for (const { lch, weight } of colors) {
+      const [lightness, chroma, hue] = lch;
+
+      features.warmth += weight * this.colorWarmth(lch);
+      features.saturation += weight * Math.min(1, chroma / 60);
+      features.meanLightness += (weight * lightness) / 100;
+      if (lightness > 75) features.lightShare += weight;
+      if (lightness < 35) features.darkShare += weight;
+      if (weight >= 0.05) prominentLightness.push(lightness);
+
+      if (chroma >= NEUTRAL_CHROMA) {
+        const family = this.hueFamily(hue);
+        features.hueFamilies[family] = (features.hueFamilies[family] ?? 0) + weight;
+      }
+    }
+
+    if (prominentLightness.length > 1) {
+      features.contrast = (Math.max(...prominentLightness) - Math.min(...prominentLightness)) / 100;
+    }
+
+    return features;
+  }
+
+  private static scoreMoods(
+    features: PaletteMoodFeatures,
+    colors: WeightedLch[]
+  ): Record<PaletteMood, number> {
+    const { warmth, saturation, contrast, meanLightness, lightShare, darkShare, hueFamilies } = features;
+
+    const warm = Math.max(0, warmth);
+    const familyCount = Object.values(hueFamilies).filter(share => (share ?? 0) >= 0.08).length;
+    const diversity = Math.min(1, Math.max(0, familyCount - 1) / 3);
+    const coolShare = COOL_FAMILIES.reduce((sum, family) => sum + (hueFamilies[family] ?? 0), 0);
+    const coolness = Math.min(1, Math.max(0, -warmth) + coolShare * 0.5);
+    const midContrast = Math.max(0, 1 - Math.abs(contrast - 0.45) / 0.45);
+    const midValue = Math.max(0, 1 - Math.abs(meanLightness - 0.45) / 0.45);
+    const earthShare = colors.reduce(
+      (sum, color) => sum + (this.isEarthTone(color.lch) ? color.weight : 0),
+      0
+    );
+
+    return {
+      focus: 0.45 * (1 - saturation) + 0.25 * (1 - Math.abs(warmth)) + 0.3 * midContrast,
+      calm: 0.35 * (1 - contrast) + 0.25 * coolness + 0.2 * lightShare + 0.2 * (1 - saturation),
+      energizing: 0.45 * saturation + 0.3 * contrast + 0.25 * warm,
+      creativity: 0.5 * diversity + 0.3 * saturation + 0.2 * midContrast,
+      cozy: 0.45 * warm + 0.3 * midValue + 0.25 * (1 - saturation),
+      fresh: 0.4 * lightShare + 0.4 * Math.min(1, coolShare * 1.5) + 0.2 * saturation,
+      sophisticated: 0.4 * darkShare + 0.3 * (1 - saturation) + 0.3 * contrast,
+      playful: 0.4 * saturation + 0.35 * diversity + 0.25 * lightShare,
+      grounded: 0.5 * Math.min(1, earthShare * 1.5) + 0.25 * midValue + 0.25 * (1 - saturation),
+    };
+  }
+
+  /**
+   * The colors that best embody a mood, most prominent first
+   */
+  private static findDrivingColors(mood: PaletteMood, colors: WeightedLch[]): WeightedLch[] {
+    const scored = colors
+      .map(color => ({ color, score: this.colorMoodScore(mood, color.lch) }))
+      .sort((a, b) => b.score * Math.sqrt(b.color.weight) - a.score * Math.sqrt(a.color.weight));
+
+    const matching = scored.filter(item => item.score > 0.3).slice(0, 2);
+    return (matching.length > 0 ? matching : scored.slice(0, 1)).map(item => item.color);
+  }
+
+  /**
+   * How strongly a single color expresses a mood (0-1)
+   */
+  private static colorMoodScore(mood: PaletteMood, lch: LchColor): number {
+    const [lightness, chroma, hue] = lch;
+    const saturation = Math.min(1, chroma / 60);
+    const warmth = this.colorWarmth(lch);
+    const isCool = chroma >= NEUTRAL_CHROMA && COOL_FAMILIES.includes(this.hueFamily(hue));
+
+    switch (mood) {
+      case 'focus':
+        return 1 - saturation;
+      case 'calm':
+        return (isCool ? 0.6 : 0) + (lightness > 75 && saturation < 0.4 ? 0.4 : 0);
+      case 'energizing':
+        return saturation * (warmth > 0 ? 1 : 0.6);
+      case 'creativity':
+        return saturation;
+      case 'cozy':
+        return Math.max(0, warmth);
+      case 'fresh':
+        return (lightness / 100) * (isCool ? 1 : 0.3);
+      case 'sophisticated':
+        return (1 - lightness / 100) * (1 - saturation * 0.5);
+      case 'playful':
+        return saturation * (lightness / 100);
+      case 'grounded':
+        return this.isEarthTone(lch) ? 1 : 0;
+    }
+  }
+
+  private static explain(
+    mood: PaletteMood,
+    drivingColors: WeightedLch[],
+    features: PaletteMoodFeatures
+  ): string {
+    const list = drivingColors
+      .map(color => `${this.describeColor(color.lch)} (${color.hex})`)
+      .join(' and ');
+    const familyCount = Object.values(features.hueFamilies).filter(share => (share ?? 0) >= 0.08).length;
+
+    switch (mood) {
+      case 'focus':
+        return `Muted tones like ${list} keep visual noise low so attention stays on your work.`;
+      case 'calm':
+        return `Soft ${list} with gentle contrast feel restful.`;
+      case 'energizing':
+        return `Saturated ${list}${features.contrast > 0.5 ? ', plus strong light-dark contrast,' : ''} add energy.`;
+      case 'creativity':
+        return `A mix of ${Math.max(familyCount, 1)} hue ${familyCount === 1 ? 'family' : 'families'}, led by ${list}, keeps the space stimulating.`;
+      case 'cozy':
+        return `Warm ${list} make the space feel inviting.`;
+      case 'fresh':
+        return `Light, airy ${list} feel clean and open.`;
+      case 'sophisticated':
+        return `Deep, restrained ${list} read as refined.`;
+      case 'playful':
+        return `Colors like ${list} feel lighthearted and fun.`;
+      case 'grounded':
+        return `Earthy ${list} feel natural and stable.`;
+    }
+  }
+
+  private static describe(features: PaletteMoodFeatures, tags: MoodTag[], colorCount: number): string {
+    const temperature = features.warmth > 0.2 ? 'Warm' : features.warmth < -0.2 ? 'Cool' : 'Balanced';
+    const contrast = features.contrast > 0.6 ? ' high-contrast' : features.contrast < 0.25 ? ' low-contrast' : '';
+    const [primary, secondary] = tags;
+    const adjectives: Record<PaletteMood, string> = {
+      focus: 'focused',
+      creativity: 'creative',
+      calm: 'calm',
+      energizing: 'energizing',
+      cozy: 'cozy',
+      fresh: 'fresh',
+      sophisticated: 'sophisticated',
+      playful: 'playful',
+      grounded: 'grounded',
+    };
+
+    let description = `${temperature}${contrast} palette of ${colorCount} ${colorCount === 1 ? 'color' : 'colors'} that feels mostly ${adjectives[primary.mood]}`;
+    if (secondary) {
+      const adjective = adjectives[secondary.mood];
+      description += ` with ${/^[aeiou]/.test(adjective) ? 'an' : 'a'} ${adjective} edge`;
+    }
+
+    if (features.lightShare > 0.5) description += '; light tones dominate';
+    else if (features.darkShare > 0.5) description += '; dark tones dominate';
+
+    return description;
+  }
+
+  /**
+   * Warmth of a single color, from -1 (blue) to 1 (orange), scaled by chroma
+   */
+  private static colorWarmth([, chroma, hue]: LchColor): number {
+    if (chroma < NEUTRAL_CHROMA) return 0;
+    return Math.cos(((hue - 55) * Math.PI) / 180) * Math.min(1, chroma / 40);
+  }
+
+  private static isEarthTone([lightness, chroma, hue]: LchColor): boolean {
+    return hue >= 30 && hue <= 120 && chroma >= NEUTRAL_CHROMA && chroma <= 45 && lightness >= 20 && lightness <= 70;
+  }
+
+  private static hueFamily(hue: number): HueFamily {
+    if (hue < 20 || hue >= 345) return 'pink';
+    if (hue < 50) return 'red';
+    if (hue < 75) return 'orange';
+    if (hue < 105) return 'yellow';
+    if (hue < 165) return 'green';
+    if (hue < 215) return 'teal';
+    if (hue < 285) return 'blue';
+    return 'purple';
+  }
+
+  /**
+   * Short plain-language color name, e.g. "deep red" or "light gray"
+   */
+  private static describeColor([lightness, chroma, hue]: LchColor): string {
+    if (chroma < NEUTRAL_CHROMA) {
+      if (lightness > 95) return 'white';
+      if (lightness > 85) return 'off-white';
+      if (lightness > 65) return 'light gray';
+      if (lightness > 40) return 'gray';
+      if (lightness > 20) return 'charcoal';
+      return 'black';
+    }
+
+    if (hue >= 50 && hue <= 100 && chroma < 25) {
+      if (lightness > 60) return 'beige';
+      if (lightness > 35) return 'tan';
+    }
+    if (hue >= 30 && hue <= 80 && lightness < 50 && chroma <= 50) {
+      return 'brown';
+    }
+
+    const shade = chroma >= 50 && lightness > 60
+      ? 'bright '
+      : lightness > 80 ? 'pale ' : lightness > 60 ? 'light ' : lightness > 40 ? '' : lightness > 25 ? 'deep ' : 'dark ';
+    return `${shade}${this.hueFamily(hue)}`;
+  }
+}
@@ -0,0 +1,103 @@
+interface CutPoint {
+  index: number; // Text before this index is kept
+  stack: string[]; // Closers still needed at that point
+}
+
+export interface PartialJsonResult {
+  value: unknown;
+  complete: boolean; // The whole document has arrived
+}
+
+// Only the last few cut points are kept; the latest one almost always parses
+const MAX_CUT_POINTS = 4;
+
+/**
+ * Partial JSON Parser
+ * Parses the prefix of a JSON document that is still streaming by closing whatever is open
+ */
+export class PartialJsonParser {
+  /**
+   * Parse as much of a truncated JSON document as possible, or undefined if nothing is usable yet
+   */
+  static parse(text: string): PartialJsonResult | undefined {
+    const start = text.search(/[[{]/);
+    if (start === -1) return undefined;
+    const json = text.slice(start);
+
+    const stack: string[] = [];
+    const cutPoints: CutPoint[] = [];
+    let inString = false;
+    let escaped = false;
+
+    const addCutPoint = (index: number) => {
+      cutPoints.push({ index, stack: [...stack] });
+      if (cutPoints.length > MAX_CUT_POINTS) cutPoints.shift();
+    };
+
+    for (let i = 0; i < json.length; i++) {
+      const char = json[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          inString = true;
+          break;
+        case '{':
+          stack.push('}');
+          addCutPoint(i + 1);
+          break;
+        case '[':
+          stack.push(']');
+          addCutPoint(i + 1);
+          break;
+        case '}':
+        case ']':
+          stack.pop();
+          addCutPoint(i + 1);
+          break;
+        case ',':
+          addCutPoint(i);
+          break;
+      }
+    }
+
+    if (stack.length === 0) {
+      const value = this.tryParse(json);
+      return value === undefined ? undefined : { value, complete: true };
+    }
+
+    // First try keeping everything, closing an unfinished string so streaming text shows up
+    let head = json;
+    if (inString) {
+      head = head.replace(/\\u[0-9a-fA-F]{0,3}$/, '').replace(/\\$/, '') + '"';
+    }
+    const whole = this.tryParse(this.close(head, stack));
+    if (whole !== undefined) return { value: whole, complete: false };
+
+    // Otherwise drop the unfinished member (a dangling key, colon or literal)
+    for (let i = cutPoints.length - 1; i >= 0; i--) {
+      const { index, stack: closers } = cutPoints[i];
+      const parsed = this.tryParse(this.close(json.slice(0, index), closers));
+      if (parsed !== undefined) return { value: parsed, complete: false };
+    }
+
+    return undefined;
+  }
+
+  private static close(head: string, closers: string[]): string {
+    return head.replace(/,\s*$/, '') + [...closers].reverse().join('');
+  }
+
+  private static tryParse(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -1,6 +1,9 @@
 import { PhotoAsset, PhotoValidationResult } from '@/types/photo';
 import { Directory, File, Paths } from 'expo-file-system';
 
+import { ColorExtractionService } from './color-extraction';
+import { ImageQualityService } from './image-quality';
+
 const PHOTOS_DIRECTORY_NAME = 'photos';
 
 export class PhotoStorageService {
@@ -54,6 +57,30 @@ export class PhotoStorageService {
     };
   }
 
+  /**
+   * Validate a photo and score its quality locally, so blurry, dark or tiny photos are caught before they use up an analysis.
+   * If the photo can't be decoded here, it is left to the AI to judge.
+   */
+  static async validatePhotoQuality(photo: PhotoAsset): Promise<PhotoValidationResult> {
+    const result = this.validatePhoto(photo);
+
+    try {
+      const image = await ColorExtractionService.loadAnalysisImage(photo.uri);
+      const quality = ImageQualityService.assessImage(image, photo);
+      const errors = [...result.errors, ...quality.issues.filter(issue => issue.severity === 'error').map(issue => issue.message)];
+
+      return {
+        isValid: errors.length === 0,
+        errors,
+        warnings: [...result.warnings, ...quality.issues.filter(issue => issue.severity === 'warning').map(issue => issue.message)],
+        quality,
+      };
+    } catch (error) {
+      console.error('Failed to check photo quality:', error);
+      return result;
+    }
+  }
+
   /**
    * Copy photo to app's document directory
    */
@@ -1,4 +1,5 @@
-import { ProductRecommendation } from '@/types/ai-analysis';
+import { AIPromptContext, ProductRecommendation } from '@/types/ai-analysis';
+import { WorkspaceAnalysisResponse } from '@/types/workspace-analysis-schema';
 
 /**
  * Product Recommendation Service
@@ -9,8 +10,8 @@ export class ProductRecommendationService {
    * Generate product recommendations based on analysis and user preferences
    */
   static generateRecommendations(
-    analysisData: any,
-    promptContext: any
+    analysisData: WorkspaceAnalysisResponse,
+    promptContext: AIPromptContext
   ): ProductRecommendation[] {
     try {
       // Determine budget range for pricing
@@ -230,10 +231,10 @@ export class ProductRecommendationService {
    */
   static filterByAnalysisInsights(
     recommendations: ProductRecommendation[],
-    analysisData: any
+    analysisData: WorkspaceAnalysisResponse
   ): ProductRecommendation[] {
     // If analysis suggests lighting issues, prioritize lighting products
-    if (analysisData.improvement_priorities?.some((p: string) => 
+    if (analysisData.improvement_priorities.some(p => 
       p.toLowerCase().includes('light') || p.toLowerCase().includes('bright'))) {
       recommendations.sort((a, b) => {
         if (a.category === 'lighting' && b.category !== 'lighting') return -1;
@@ -243,7 +244,7 @@ export class ProductRecommendationService {
     }
 
     // If analysis suggests organization issues, prioritize storage products
-    if (analysisData.improvement_priorities?.some((p: string) => 
+    if (analysisData.improvement_priorities.some(p => 
       p.toLowerCase().includes('organiz') || p.toLowerCase().includes('clutter'))) {
       recommendations.sort((a, b) => {
         if (a.category === 'storage' && b.category !== 'storage') return -1;
@@ -0,0 +1,109 @@
+import { PromptTemplate, PromptVariables, RenderedPrompt } from '@/types/prompt';
+
+import { ContentHashService } from './content-hash';
+import { StorageService } from './storage';
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Prompt Registry Service
+ * Versioned prompt templates with weighted A/B variants, assigned consistently per installation
+ */
+export class PromptRegistryService {
+  private static templates = new Map<string, PromptTemplate[]>();
+  private static installationId: string | null = null;
+
+  /**
+   * Add a template, replacing any registered variant with the same name
+   */
+  static register(template: PromptTemplate): void {
+    const variants = (this.templates.get(template.name) ?? [])
+      .filter(existing => existing.variant !== template.variant);
+    this.templates.set(
+      template.name,
+      [...variants, template].sort((a, b) => a.variant.localeCompare(b.variant))
+    );
+  }
+
+  /**
+   * Every registered variant of a prompt, ordered by variant name
+   */
+  static getVariants(name: string): PromptTemplate[] {
+    return this.templates.get(name) ?? [];
+  }
+
+  /**
+   * A specific variant of a prompt, throwing if it isn't registered
+   */
+  static getTemplate(name: string, variant: string): PromptTemplate {
+    const template = this.getVariants(name).find(item => item.variant === variant);
+    if (!template) {
+      throw new Error(`Prompt ${name} has no variant ${variant}`);
+    }
+    return template;
+  }
+
+  /**
+   * The variant this installation uses. Assignment hashes the installation ID with the prompt name,
+   * so it is stable across launches and independent between prompts.
+   */
+  static async assignVariant(name: string): Promise<PromptTemplate> {
+    const variants = this.getVariants(name).filter(template => template.weight > 0);
+    if (variants.length === 0) {
+      throw new Error(`No prompt registered as ${name}`);
+    }
+    if (variants.length === 1) {
+      return variants[0];
+    }
+
+    const installationId = await this.getInstallationId();
+    const bucket = parseInt(ContentHashService.sha256(`${installationId}|${name}`).slice(0, 8), 16) / 0x100000000;
+    const totalWeight = variants.reduce((sum, template) => sum + template.weight, 0);
+
+    let cumulative = 0;
+    for (const template of variants) {
+      cumulative += template.weight / totalWeight;
+      if (bucket < cumulative) {
+        return template;
+      }
+    }
+    return variants[variants.length - 1];
+  }
+
+  /**
+   * Fill in a template's placeholders, throwing if a variable is missing
+   */
+  static render(template: PromptTemplate, variables: PromptVariables): RenderedPrompt {
+    const text = template.template.replace(PLACEHOLDER, (_, key: string) => {
+      const value = variables[key];
+      if (value === undefined) {
+        throw new Error(`Prompt ${template.name} v${template.version} needs the variable ${key}`);
+      }
+      return String(value);
+    });
+
+    return {
+      name: template.name,
+      version: template.version,
+      variant: template.variant,
+      text,
+    };
+  }
+
+  /**
+   * Render the variant assigned to this installation
+   */
+  static async resolve(name: string, variables: PromptVariables): Promise<RenderedPrompt> {
+    return this.render(await this.assignVariant(name), variables);
+  }
+
+  private static async getInstallationId(): Promise<string> {
+    if (!this.installationId) {
+      const appData = await StorageService.getAppData();
+      const data = appData.success && appData.data ? appData.data : (await StorageService.createAppData()).data;
+      // Without stored app data every variant assignment falls back to the same bucket
+      this.installationId = data?.installationId ?? 'unknown';
+    }
+    return this.installationId;
+  }
+}
@@ -0,0 +1,119 @@
+import { FromSchema, JsonSchema, SchemaValidationIssue } from '@/types/json-schema';
+
+/**
+ * Schema Validation Service
+ * Checks parsed JSON against the JSON Schema subset used for structured outputs
+ */
+export class SchemaValidationService {
+  /**
+   * Validate a value, returning every issue with the path of the offending field
+   */
+  static validate(value: unknown, schema: JsonSchema, path = '$'): SchemaValidationIssue[] {
+    switch (schema.type) {
+      case 'string': {
+        if (typeof value !== 'string') {
+          return [this.issue(path, `expected string, got ${this.describe(value)}`)];
+        }
+        if (schema.enum && !schema.enum.includes(value)) {
+          return [this.issue(path, `expected one of ${schema.enum.join(', ')}, got "${value}"`)];
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+          return [this.issue(path, `"${value}" does not match ${schema.pattern}`)];
+        }
+        return [];
+      }
+
+      case 'number':
+      case 'integer': {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return [this.issue(path, `expected ${schema.type}, got ${this.describe(value)}`)];
+        }
+        if (schema.type === 'integer' && !Number.isInteger(value)) {
+          return [this.issue(path, `expected integer, got ${value}`)];
+        }
+        if (schema.minimum !== undefined && value < schema.minimum) {
+          return [this.issue(path, `must be at least ${schema.minimum}, got ${value}`)];
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+          return [this.issue(path, `must be at most ${schema.maximum}, got ${value}`)];
+        }
+        return [];
+      }
+
+      case 'boolean':
+        return typeof value === 'boolean'
+          ? []
+          : [this.issue(path, `expected boolean, got ${this.describe(value)}`)];
+
+      case 'array': {
+        if (!Array.isArray(value)) {
+          return [this.issue(path, `expected array, got ${this.describe(value)}`)];
+        }
+        const issues: SchemaValidationIssue[] = [];
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+          issues.push(this.issue(path, `expected at least ${schema.minItems} items, got ${value.length}`));
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+          issues.push(this.issue(path, `expected at most ${schema.maxItems} items, got ${value.length}`));
+        }
+        value.forEach((item, index) => {
+          issues.push(...this.validate(item, schema.items, `${path}[${index}]`));
+        });
+        return issues;
+      }
+
+      case 'object': {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          return [this.issue(path, `expected object, got ${this.describe(value)}`)];
+        }
+        const record = value as Record<string, unknown>;
+        const issues: SchemaValidationIssue[] = [];
+
+        for (const key of schema.required) {
+          if (!(key in record)) {
+            issues.push(this.issue(`${path}.${key}`, 'is required'));
+          }
+        }
+        for (const [key, fieldValue] of Object.entries(record)) {
+          const fieldSchema = schema.properties[key];
+          if (!fieldSchema) {
+            issues.push(this.issue(`${path}.${key}`, 'is not allowed by the schema'));
+          } else {
+            issues.push(...this.validate(fieldValue, fieldSchema, `${path}.${key}`));
+          }
+        }
+        return issues;
+      }
+    }
+  }
+
+  /**
+   * Narrow a value to the schema's type, throwing with field-level details if it doesn't match
+   */
+  static assertValid<S extends JsonSchema>(value: unknown, schema: S, label: string): FromSchema<S> {
+    const issues = this.validate(value, schema);
+    if (issues.length > 0) {
+      throw new Error(`${label} failed schema validation: ${this.formatIssues(issues)}`);
+    }
+    return value as FromSchema<S>;
+  }
+
+  /**
+   * One-line summary of the first few issues
+   */
+  static formatIssues(issues: SchemaValidationIssue[], limit = 5): string {
+    const shown = issues.slice(0, limit).map(({ path, message }) => `${path} ${message}`);
+    const remaining = issues.length - shown.length;
+    return remaining > 0 ? `${shown.join('; ')} (and ${remaining} more)` : shown.join('; ');
+  }
+
+  private static issue(path: string, message: string): SchemaValidationIssue {
+    return { path, message };
+  }
+
+  private static describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+}
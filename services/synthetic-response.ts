@@ -0,0 +1,156 @@
+import { SyntheticResponseOptions } from '@/types/ai-provider';
+import { JsonSchema, StructuredOutputFormat } from '@/types/json-schema';
+
+type JsonValue = string | number | boolean | JsonValue[] | { [key: string]: JsonValue };
+
+interface EnumLeaf {
+  key: string;
+  replace: (value: string) => void;
+}
+
+interface GenerationState {
+  random: () => number;
+  enumLeaves: EnumLeaf[]; // Enum-constrained strings, for the unknown-categories edge case
+  objects: { value: Record<string, JsonValue>; required: readonly string[] }[];
+}
+
+const WORDS = [
+  'desk', 'chair', 'lamp', 'monitor', 'shelf', 'window', 'plant', 'cable',
+  'keyboard', 'wall', 'light', 'corner', 'wood', 'fabric', 'neutral', 'warm',
+];
+
+const UNKNOWN_ENUM_VALUE = 'unrecognized';
+
+/**
+ * Mulberry32 PRNG so that a given seed always produces the same response
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Synthetic Response Service
+ * Generates AI responses that satisfy a structured output schema, optionally with a deliberate defect
+ */
+export class SyntheticResponseService {
+  /**
+   * Response text for a request; plain prose when there is no schema to follow
+   */
+  static generate(
+    format: StructuredOutputFormat | undefined,
+    options: SyntheticResponseOptions,
+    requestSeed = 0
+  ): string {
+    const random = createRandom(options.seed ^ requestSeed);
+    if (!format) {
+      return this.generateSentence('response', random);
+    }
+
+    const state: GenerationState = { random, enumLeaves: [], objects: [] };
+    const value = this.generateValue(format.schema, 'root', state);
+
+    switch (options.edgeCase) {
+      case 'missing-fields': {
+        const candidates = state.objects.filter(object => object.required.length > 0);
+        const target = this.pick(candidates, random);
+        if (target) {
+          delete target.value[this.pick(target.required, random)!];
+        }
+        return JSON.stringify(value);
+      }
+      case 'unknown-categories': {
+        // Prefer fields named category, which is what most consumers switch on
+        const categories = state.enumLeaves.filter(leaf => leaf.key === 'category');
+        this.pick(categories.length > 0 ? categories : state.enumLeaves, random)?.replace(UNKNOWN_ENUM_VALUE);
+        return JSON.stringify(value);
+      }
+      case 'malformed-json': {
+        const json = JSON.stringify(value);
+        return json.slice(0, Math.max(1, Math.floor(json.length * (0.3 + random() * 0.5))));
+      }
+      case 'code-fence':
+        return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+      case 'none':
+      default:
+        return JSON.stringify(value);
+    }
+  }
+
+  private static generateValue(schema: JsonSchema, key: string, state: GenerationState): JsonValue {
+    const { random } = state;
+
+    switch (schema.type) {
+      case 'string':
+        if (schema.enum) {
+          return this.pick(schema.enum, random)!;
+        }
+        if (schema.pattern) {
+          return this.generatePatternString(schema.pattern, random);
+        }
+        return this.generateSentence(key, random);
+      case 'number':
+      case 'integer': {
+        const min = schema.minimum ?? 0;
+        const max = schema.maximum ?? min + 1;
+        const value = min + random() * (max - min);
+        return schema.type === 'integer' ? Math.round(value) : Math.round(value * 100) / 100;
+      }
+      case 'boolean':
+        return random() < 0.5;
+      case 'array': {
+        const minItems = schema.minItems ?? 1;
+        const maxItems = Math.max(minItems, Math.min(schema.maxItems ?? minItems + 3, minItems + 3));
+        const count = minItems + Math.floor(random() * (maxItems - minItems + 1));
+        const items: JsonValue[] = [];
+        for (let i = 0; i < count; i++) {
+          const item = this.generateValue(schema.items, key, state);
+          items.push(item);
+          // Enum leaves directly in an array are replaced by index
+          if (schema.items.type === 'string' && schema.items.enum) {
+            state.enumLeaves.push({ key, replace: next => { items[i] = next; } });
+          }
+        }
+        return items;
+      }
+      case 'object': {
+        const object: Record<string, JsonValue> = {};
+        for (const [property, propertySchema] of Object.entries(schema.properties)) {
+          object[property] = this.generateValue(propertySchema, property, state);
+          if (propertySchema.type === 'string' && propertySchema.enum) {
+            state.enumLeaves.push({ key: property, replace: next => { object[property] = next; } });
+          }
+        }
+        state.objects.push({ value: object, required: schema.required });
+        return object;
+      }
+    }
+  }
+
+  /**
+   * Strings for the patterns used in response schemas; only hex colors are needed so far
+   */
+  private static generatePatternString(pattern: string, random: () => number): string {
+    const hex = `#${Math.floor(random() * 0x1000000).toString(16).padStart(6, '0')}`;
+    if (new RegExp(pattern).test(hex)) {
+      return hex;
+    }
+    throw new Error(`Synthetic responses don't support the pattern ${pattern}`);
+  }
+
+  private static generateSentence(key: string, random: () => number): string {
+    const length = 4 + Math.floor(random() * 8);
+    const words = Array.from({ length }, () => this.pick(WORDS, random)!);
+    return `Synthetic ${key.replace(/_/g, ' ')}: ${words.join(' ')}.`;
+  }
+
+  private static pick<T>(items: readonly T[], random: () => number): T | undefined {
+    return items.length > 0 ? items[Math.floor(random() * items.length)] : undefined;
+  }
+}
@@ -63,6 +63,7 @@ export class UsageTrackingService {
         currentDaily: {
           date: today,
           analysisCount: 0,
+          categoryCheckCount: 0,
           resetAt: now,
         },
         totalAnalyses: 0,
@@ -168,6 +169,149 @@ export class UsageTrackingService {
     }
   }
 
+  /**
+   * Give back an analysis recorded by recordAnalysisUsage that never produced a result
+   */
+  static async refundAnalysisUsage(): Promise<StorageResult<UsageTracking>> {
+    try {
+      const usageResult = await this.getUsageTracking();
+
+      if (!usageResult.success || !usageResult.data) {
+        console.error('Could not get usage tracking for refund');
+        return {
+          success: false,
+          error: 'Failed to refund analysis usage',
+        };
+      }
+
+      const usage = usageResult.data;
+
+      // Nothing to give back if the daily count already reset
+      if (usage.currentDaily.analysisCount === 0) {
+        return { success: true, data: usage };
+      }
+
+      const updatedUsage: UsageTracking = {
+        ...usage,
+        currentDaily: {
+          ...usage.currentDaily,
+          analysisCount: usage.currentDaily.analysisCount - 1,
+        },
+        totalAnalyses: Math.max(0, usage.totalAnalyses - 1),
+        lastUsageAt: Date.now(),
+      };
+
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.USAGE_TRACKING,
+        JSON.stringify(updatedUsage)
+      );
+
+      return { success: true, data: updatedUsage };
+    } catch (error) {
+      console.error('Failed to refund analysis usage:', error);
+      return {
+        success: false,
+        error: 'Failed to refund analysis usage',
+      };
+    }
+  }
+
+  /**
+   * Record a single-area ergonomic re-check, which has its own daily limit
+   */
+  static async recordCategoryCheck(): Promise<StorageResult<UsageTracking>> {
+    try {
+      const usageResult = await this.getUsageTracking();
+
+      if (!usageResult.success || !usageResult.data) {
+        console.error('Could not get usage tracking for recording a check');
+        return {
+          success: false,
+          error: 'Failed to record check usage',
+        };
+      }
+
+      const usage = usageResult.data;
+      const checkCount = usage.currentDaily.categoryCheckCount ?? 0;
+
+      if (checkCount >= USAGE_LIMITS.DAILY_CATEGORY_CHECKS) {
+        return {
+          success: false,
+          error: `Daily limit of ${USAGE_LIMITS.DAILY_CATEGORY_CHECKS} quick checks reached. Try again tomorrow.`,
+        };
+      }
+
+      const updatedUsage: UsageTracking = {
+        ...usage,
+        currentDaily: {
+          ...usage.currentDaily,
+          categoryCheckCount: checkCount + 1,
+        },
+        lastUsageAt: Date.now(),
+      };
+
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.USAGE_TRACKING,
+        JSON.stringify(updatedUsage)
+      );
+
+      return { success: true, data: updatedUsage };
+    } catch (error) {
+      console.error('Failed to record check usage:', error);
+      return {
+        success: false,
+        error: 'Failed to record check usage',
+      };
+    }
+  }
+
+  /**
+   * Give back a check recorded by recordCategoryCheck whose AI call failed
+   */
+  static async refundCategoryCheck(): Promise<StorageResult<UsageTracking>> {
+    try {
+      const usageResult = await this.getUsageTracking();
+
+      if (!usageResult.success || !usageResult.data) {
+        console.error('Could not get usage tracking for check refund');
+        return {
+          success: false,
+          error: 'Failed to refund check usage',
+        };
+      }
+
+      const usage = usageResult.data;
+      const checkCount = usage.currentDaily.categoryCheckCount ?? 0;
+
+      // Nothing to give back if the daily count already reset
+      if (checkCount === 0) {
+        return { success: true, data: usage };
+      }
+
+      const updatedUsage: UsageTracking = {
+        ...usage,
+        currentDaily: {
+          ...usage.currentDaily,
+          categoryCheckCount: checkCount - 1,
+        },
+        lastUsageAt: Date.now(),
+      };
+
+      await AsyncStorage.setItem(
+        STORAGE_KEYS.USAGE_TRACKING,
+        JSON.stringify(updatedUsage)
+      );
+
+      return { success: true, data: updatedUsage };
+    } catch (error) {
+      console.error('Failed to refund check usage:', error);
+      return {
+        success: false,
+        error: 'Failed to refund check usage',
+      };
+    }
+  }
+
   /**
    * Record a design save usage
    */
@@ -301,6 +445,7 @@ export class UsageTrackingService {
         currentDaily: {
           date: today,
           analysisCount: 0,
+          categoryCheckCount: 0,
           resetAt: now,
         },
         lastUsageAt: now,
@@ -1,10 +1,14 @@
+import { AIUsage } from './ai-usage';
+import { ImageBounds } from './image';
 import { PhotoAsset } from './photo';
 import { QuizResponse } from './quiz';
 
 export interface WorkspaceAnalysisRequest {
   photo: PhotoAsset;
+  additionalPhotos?: PhotoAsset[]; // Other angles of the same workspace, sent along with photo in one request
   quizResponses: QuizResponse[];
   userId?: string;
+  useCachedResponse?: boolean; // Answer from the cached AI response for the same photo and answers; fails with CACHE_MISS if it's gone
 }
 
 export interface ProductRecommendation {
@@ -24,20 +28,139 @@ export interface ProductRecommendation {
   tags: string[];
 }
 
+export type PaletteMood =
+  | 'focus'
+  | 'creativity'
+  | 'calm'
+  | 'energizing'
+  | 'cozy'
+  | 'fresh'
+  | 'sophisticated'
+  | 'playful'
+  | 'grounded';
+
+export interface MoodTag {
+  mood: PaletteMood;
+  weight: number; // Share of the overall mood, tags sum to 1
+  explanation: string;
+  drivingColors: string[]; // Hex codes that contributed most to this tag
+}
+
 export interface ColorPalette {
   id: string;
   name: string;
   colors: string[]; // Hex color codes
-  mood: 'focus' | 'creativity' | 'calm' | 'energizing';
+  mood: PaletteMood; // Strongest mood tag
+  moodTags?: MoodTag[]; // Strongest first
   description: string;
 }
 
+export type PaletteHarmony = 'complementary' | 'analogous' | 'triadic' | '60-30-10';
+
+export interface SuggestedPalette extends ColorPalette {
+  harmony: PaletteHarmony;
+  rationale: string;
+  proportions?: number[]; // Share of the room for each color, summing to 1
+}
+
+export type PaletteRegion = 'walls' | 'furniture' | 'floor' | 'accents';
+
+export interface ImageRegion {
+  label: PaletteRegion;
+  bounds: ImageBounds;
+}
+
+export interface RegionPalette {
+  region: PaletteRegion;
+  colors: string[]; // Hex color codes, most common first
+  coverage: number; // Share of sampled image pixels in the region, 0-1
+  source: 'ai' | 'spatial'; // AI-provided bounding regions or a fixed spatial split
+}
+
+export interface RecolorMapping {
+  region: Extract<PaletteRegion, 'walls' | 'furniture'>;
+  source: string; // Hex of the photo's color cluster
+  target: string; // Hex from the target palette
+}
+
+export interface RecolorPreview {
+  paletteId: string;
+  uri: string; // PNG file in the cache directory
+  width: number;
+  height: number;
+  mappings: RecolorMapping[];
+  createdAt: number;
+}
+
+export type PaletteExportFormat = 'ase' | 'gpl' | 'css' | 'tailwind' | 'svg';
+
+export interface PaletteExportFile {
+  format: PaletteExportFormat;
+  fileName: string;
+  uri: string;
+  mimeType: string;
+}
+
+export interface InsightMeasurement {
+  label: string;
+  value: number;
+  unit: string;
+}
+
 export interface ErgonomicInsight {
   category: 'desk-height' | 'chair-posture' | 'lighting' | 'screen-position' | 'organization';
   status: 'good' | 'needs-improvement' | 'poor';
   title: string;
   description: string;
   recommendation?: string;
+  measurements?: InsightMeasurement[]; // Values measured locally from the photo
+  photoIndex?: number; // Which analyzed photo (0-based) the insight was observed in, for multi-photo analyses
+}
+
+export const ERGONOMIC_CATEGORY_LABELS: Record<ErgonomicInsight['category'], string> = {
+  'desk-height': 'Desk Height',
+  'chair-posture': 'Chair & Posture',
+  'lighting': 'Lighting',
+  'screen-position': 'Screen Position',
+  'organization': 'Organization',
+};
+
+export const ERGONOMIC_STATUS_LABELS: Record<ErgonomicInsight['status'], string> = {
+  'good': 'Good',
+  'needs-improvement': 'Needs Improvement',
+  'poor': 'Poor',
+};
+
+// Outcome of re-checking one ergonomic category against a new photo, without re-running the whole analysis
+export interface ErgonomicCheck {
+  id: string;
+  category: ErgonomicInsight['category'];
+  previousStatus?: ErgonomicInsight['status']; // Absent if the design had no insight for the category
+  newStatus: ErgonomicInsight['status'];
+  changeSummary: string; // What changed since the previous assessment
+  note?: string; // What the user said they changed
+  usage?: AIUsage;
+  checkedAt: number;
+}
+
+export type ColorTemperatureBand = 'warm' | 'neutral' | 'cool';
+
+export interface ExposureRegion {
+  row: number; // 0 (top) to 2 (bottom)
+  column: number; // 0 (left) to 2 (right)
+  type: 'overexposed' | 'underexposed';
+  coverage: number; // Share of the region's pixels, 0-1
+}
+
+export interface LightingAnalysis {
+  meanLuminance: number; // Relative scene luminance, 0-1
+  estimatedLux: number; // Rough estimate; camera auto-exposure compresses the real range
+  colorTemperature: number; // Correlated color temperature in Kelvin
+  temperatureBand: ColorTemperatureBand;
+  overexposedRatio: number; // Share of clipped highlights, 0-1
+  underexposedRatio: number; // Share of crushed shadows, 0-1
+  regions: ExposureRegion[];
+  status: ErgonomicInsight['status'];
 }
 
 export interface WorkspaceAnalysisResult {
@@ -45,7 +168,14 @@ export interface WorkspaceAnalysisResult {
   summary: string;
   recommendations: ProductRecommendation[];
   colorPalette?: ColorPalette;
+  suggestedPalettes?: SuggestedPalette[];
+  regionPalettes?: RegionPalette[];
   ergonomicInsights: ErgonomicInsight[];
+  lightingAnalysis?: LightingAnalysis;
+  photoUris?: string[]; // Every analyzed photo in request order, when there was more than one
+  promptVersion?: number; // Version of the analysis prompt that produced this result
+  promptVariant?: string; // A/B variant of that prompt
+  usage?: AIUsage; // Tokens and estimated cost of the AI calls, retries included; absent for cached responses
   styleMatch: {
     vibe: string;
     confidence: number; // 0-1
@@ -55,19 +185,68 @@ export interface WorkspaceAnalysisResult {
   processingTime: number; // milliseconds
 }
 
+// Sections of the AI response shown while it streams in
+export interface AnalysisPreview {
+  summary?: string;
+  style?: string;
+  ergonomicItems: Pick<ErgonomicInsight, 'category' | 'status' | 'description'>[];
+  colors: string[]; // Complete hex codes only
+  completedSections: string[]; // Top-level response fields that have finished streaming
+}
+
+export type AnalysisProgressCallback = (step: string, progress: number, preview?: AnalysisPreview) => void;
+
 export interface AIAnalysisState {
   isAnalyzing: boolean;
   progress: number; // 0-100
   currentStep: string;
   error: string | null;
   result: WorkspaceAnalysisResult | null;
+  preview?: AnalysisPreview;
 }
 
+export type AIAnalysisErrorCode =
+  | 'NETWORK_ERROR'
+  | 'API_ERROR'
+  | 'TIMEOUT_ERROR'
+  | 'INVALID_IMAGE'
+  | 'QUOTA_EXCEEDED'
+  | 'UNKNOWN_ERROR'
+  | 'RATE_LIMIT_ERROR'
+  | 'INVALID_API_KEY'
+  | 'INVALID_REQUEST' // The provider rejected the request itself, e.g. an unknown model
+  | 'SERVER_ERROR' // The provider failed or is overloaded (5xx)
+  | 'SERVICE_UNAVAILABLE' // Failing fast while the circuit breaker is open
+  | 'INVALID_RESPONSE' // The reply didn't match the response schema
+  | 'CACHE_MISS' // A reused result was asked for but is no longer cached; running live would cost an analysis
+  | 'CANCELLED';
+
 export interface AIAnalysisError {
-  code: 'NETWORK_ERROR' | 'API_ERROR' | 'TIMEOUT_ERROR' | 'INVALID_IMAGE' | 'QUOTA_EXCEEDED' | 'UNKNOWN_ERROR' | 'RATE_LIMIT_ERROR' | 'INVALID_API_KEY';
+  code: AIAnalysisErrorCode;
   message: string;
   details?: string;
   retryable: boolean;
+  status?: number; // HTTP status from the provider, if it answered
+  retryAfterMs?: number; // How long the provider or circuit breaker asked callers to wait
+}
+
+// Failures that can succeed on a later attempt
+export const RETRYABLE_ERROR_CODES: readonly AIAnalysisErrorCode[] = [
+  'NETWORK_ERROR',
+  'TIMEOUT_ERROR',
+  'RATE_LIMIT_ERROR',
+  'SERVER_ERROR',
+  'INVALID_RESPONSE',
+];
+
+export function isAIAnalysisError(value: unknown): value is AIAnalysisError {
+  return typeof value === 'object' && value !== null && 'code' in value && 'retryable' in value;
+}
+
+// Thrown by an analysis whose abort signal fired
+export interface AnalysisCancelledError extends AIAnalysisError {
+  code: 'CANCELLED';
+  responseReceived: boolean; // The AI had already answered, so the analysis counts toward usage
 }
 
 export interface AIPromptContext {
@@ -77,31 +256,49 @@ export interface AIPromptContext {
   imageDescription: string;
 }
 
+export type ColorClusteringAlgorithm = 'kmeans' | 'median-cut' | 'octree';
+
 export interface ColorExtractionOptions {
   maxColors: number;
-  quality: number;
+  quality: number; // Pixel sampling step (higher is faster, less precise)
   ignoreWhite: boolean;
   ignoreBlack: boolean;
+  algorithm: ColorClusteringAlgorithm;
+  seed: number; // Seed for k-means++ initialization
 }
 
 export interface ExtractedColor {
   hex: string;
   rgb: [number, number, number];
-  frequency: number;
+  lab: [number, number, number]; // CIELAB (D65)
+  frequency: number; // Share of sampled pixels in this cluster, 0-1
+  spread: number; // Mean ΔE2000 of cluster pixels from this color
   luminance: number;
 }
 
-// Configuration constants - Removed timeout restrictions for unlimited processing time
+// Configuration constants
 export const AI_CONFIG = {
-  MODEL: 'gpt-4o' as const,
   MAX_TOKENS: 4000, // Increased for more detailed analysis
   TEMPERATURE: 0.7,
-  TIMEOUT_MS: 0, // No timeout - allow unlimited processing time
+  TIMEOUT_MS: 120000, // Per provider call, so a hung request or stream fails with TIMEOUT_ERROR and is retried
   MAX_RETRIES: 5, // Increased retries for better reliability
-  RETRY_DELAY_MS: 2000, // Longer delay between retries
+  RETRY_BASE_DELAY_MS: 1000, // Doubled after each failed attempt, with jitter
+  RETRY_MAX_DELAY_MS: 30000,
+  MAX_RETRY_AFTER_MS: 60000, // Give up instead of waiting longer than this for a Retry-After
+  CIRCUIT_FAILURE_THRESHOLD: 3, // Consecutive upstream outages before failing fast
+  CIRCUIT_COOLDOWN_MS: 60000, // How long to fail fast before letting a trial request through
 } as const;
 
 // Analysis steps for progress tracking
+// Where each stage of an analysis ends on the progress bar; the AI response fills the span before RESPONSE_COMPLETE
+export const ANALYSIS_PROGRESS = {
+  IMAGE_READY: 10,
+  RESPONSE_COMPLETE: 75,
+  RECOMMENDATIONS_READY: 80,
+  COLORS_READY: 92,
+  DONE: 100,
+} as const;
+
 export const ANALYSIS_STEPS = {
   INITIALIZING: 'Initializing analysis...',
   PROCESSING_IMAGE: 'Analyzing workspace image...',
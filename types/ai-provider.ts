@@ -0,0 +1,142 @@
+import { AITokenUsage } from './ai-usage';
+import { StructuredOutputFormat } from './json-schema';
+
+// AI provider identifiers
+export type AIProviderId = 'openai' | 'openai-compatible' | 'anthropic';
+
+export interface AIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIGenerationOptions {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  responseFormat?: StructuredOutputFormat; // Constrain the reply to JSON matching this schema
+  signal?: AbortSignal; // Aborts the request in flight
+  onUsage?: (usage: AITokenUsage) => void; // Called with the tokens billed, when the backend reports them
+}
+
+export interface AIVisionImage {
+  base64: string;
+  mimeType: string;
+  width?: number; // Pixel size, for estimating the image's share of the prompt tokens
+  height?: number;
+}
+
+export interface AIVisionRequest extends AIGenerationOptions {
+  prompt: string;
+  images: AIVisionImage[]; // Sent in order and labelled Photo 1, Photo 2, ...
+}
+
+export interface AIChatRequest extends AIGenerationOptions {
+  messages: AIChatMessage[];
+}
+
+/**
+ * Common surface every AI backend adapter implements
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  analyzeImage(request: AIVisionRequest): Promise<string>;
+  streamImageAnalysis(request: AIVisionRequest, onText: (delta: string) => void): Promise<string>;
+  chat(request: AIChatRequest): Promise<string>;
+  listModels(): Promise<string[]>;
+}
+
+// Provider selection, stored in user preferences and read from the environment
+export interface AIProviderSettings {
+  provider: AIProviderId;
+  model: string;
+  baseUrl?: string; // Overrides the provider's default endpoint
+}
+
+export interface AIProviderInfo {
+  label: string;
+  description: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+  suggestedModels: string[];
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProviderInfo> = {
+  openai: {
+    label: 'OpenAI',
+    description: 'GPT models through the secure key proxy',
+    defaultModel: 'gpt-4o',
+    requiresApiKey: true,
+    suggestedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+  },
+  'openai-compatible': {
+    label: 'OpenAI-Compatible',
+    description: 'Any server with an OpenAI-style API, e.g. Ollama or llama.cpp',
+    defaultModel: 'llava',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    requiresApiKey: false,
+    suggestedModels: ['llava', 'llama3.2-vision', 'qwen2.5vl', 'gemma3'],
+  },
+  anthropic: {
+    label: 'Anthropic',
+    description: 'Claude models through the Messages API',
+    defaultModel: 'claude-sonnet-4-5',
+    defaultBaseUrl: 'https://api.anthropic.com',
+    requiresApiKey: true,
+    suggestedModels: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+  },
+};
+
+export const AI_PROVIDER_IDS = Object.keys(AI_PROVIDERS) as AIProviderId[];
+
+export function isAIProviderId(value: unknown): value is AIProviderId {
+  return typeof value === 'string' && value in AI_PROVIDERS;
+}
+
+// How AI calls are served: live, live while saving fixtures, from saved fixtures, or generated on the device
+export type AIReplayMode = 'live' | 'record' | 'replay' | 'synthetic';
+
+export const AI_REPLAY_MODES: readonly AIReplayMode[] = ['live', 'record', 'replay', 'synthetic'];
+
+export function isAIReplayMode(value: unknown): value is AIReplayMode {
+  return typeof value === 'string' && (AI_REPLAY_MODES as readonly string[]).includes(value);
+}
+
+// Recorded prompt/response pair, served again to any request with the same fingerprint
+export interface AIFixture {
+  fingerprint: string;
+  kind: 'vision' | 'chat';
+  provider: AIProviderId;
+  model: string;
+  prompt: string; // Prompt or last message, for reading fixtures by eye
+  response: string;
+  recordedAt: number;
+}
+
+// Deliberate defects in synthetic responses, for exercising validation and retries
+export type SyntheticEdgeCase =
+  | 'none'
+  | 'missing-fields' // A required field is left out
+  | 'malformed-json' // The JSON is cut off part way through
+  | 'unknown-categories' // An enum value the schema doesn't allow
+  | 'code-fence'; // Valid JSON wrapped in a markdown code fence
+
+export const SYNTHETIC_EDGE_CASES: readonly SyntheticEdgeCase[] = [
+  'none',
+  'missing-fields',
+  'malformed-json',
+  'unknown-categories',
+  'code-fence',
+];
+
+export interface SyntheticResponseOptions {
+  edgeCase: SyntheticEdgeCase;
+  seed: number; // The same seed and request always produce the same response
+  chunkSize: number; // Characters per streamed delta
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticResponseOptions = {
+  edgeCase: 'none',
+  seed: 1,
+  chunkSize: 24,
+};
@@ -0,0 +1,50 @@
+import { AIProviderId } from './ai-provider';
+
+// Tokens a provider reported for one call
+export interface AITokenUsage {
+  promptTokens: number; // Includes the tokens spent on images
+  completionTokens: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Published list prices; models are matched by the longest key their name starts with, e.g. dated snapshots
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+};
+
+// Tokens and estimated cost of one or more AI calls made for the same result
+export interface AIUsage extends AITokenUsage {
+  provider: AIProviderId;
+  model: string;
+  imageTokens: number; // Estimated share of promptTokens spent on photos
+  estimatedCost: number; // USD; 0 for models without a known price, e.g. local ones
+  calls: number;
+}
+
+// Running totals for one day in the spend ledger
+export interface DailyAISpend extends AITokenUsage {
+  date: string; // YYYY-MM-DD format
+  imageTokens: number;
+  estimatedCost: number;
+  calls: number;
+}
+
+export interface AISpendSummary {
+  today: DailyAISpend;
+  month: Omit<DailyAISpend, 'date'> & { month: string }; // YYYY-MM format
+}
+
+export const AI_USAGE_LIMITS = {
+  LEDGER_DAYS: 400, // About 13 months of daily totals
+} as const;
@@ -0,0 +1,48 @@
+import { ANALYSIS_CHAT_LIMITS } from './analysis-chat';
+import { FromSchema, JsonSchema, StructuredOutputFormat } from './json-schema';
+import { PRODUCT_CATEGORIES } from './workspace-analysis-schema';
+
+/**
+ * Contract for a reply in a follow-up conversation about an analysis
+ */
+export const ANALYSIS_CHAT_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['reply', 'recommendations'],
+  properties: {
+    reply: {
+      type: 'string',
+      description: 'Answer to the user in plain conversational text',
+    },
+    recommendations: {
+      type: 'array',
+      maxItems: ANALYSIS_CHAT_LIMITS.MAX_SUGGESTIONS,
+      description: 'New or replacement products, only when the user asks for different options; otherwise empty',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'description', 'category', 'min_price', 'max_price', 'tags', 'replaces'],
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string', description: 'What it is and why it suits this workspace' },
+          category: { type: 'string', enum: PRODUCT_CATEGORIES },
+          min_price: { type: 'number', minimum: 0, description: 'Low end of the price range in USD' },
+          max_price: { type: 'number', minimum: 0, description: 'High end of the price range in USD' },
+          tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+          replaces: {
+            type: 'string',
+            description: 'ID of the current recommendation this replaces, or an empty string for an addition',
+          },
+        },
+      },
+    },
+  },
+} as const satisfies JsonSchema;
+
+export const ANALYSIS_CHAT_FORMAT: StructuredOutputFormat = {
+  name: 'analysis_chat_reply',
+  description: 'Reply to a follow-up question about a workspace analysis',
+  schema: ANALYSIS_CHAT_SCHEMA,
+};
+
+export type AnalysisChatResponse = FromSchema<typeof ANALYSIS_CHAT_SCHEMA>;
@@ -0,0 +1,36 @@
+import { ProductRecommendation } from './ai-analysis';
+import { AIUsage } from './ai-usage';
+
+// Recommendation proposed in a chat reply, optionally in place of one already in the result
+export interface SuggestedRecommendation {
+  recommendation: ProductRecommendation;
+  replacesId?: string; // ID of the result recommendation it replaces
+}
+
+export interface AnalysisChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  suggestions?: SuggestedRecommendation[]; // Assistant replies only
+  appliedAt?: number; // When the suggestions were merged into the result
+  usage?: AIUsage; // Assistant replies only
+  createdAt: number;
+}
+
+// Follow-up questions and answers about one analysis
+export interface AnalysisConversation {
+  analysisId: string;
+  messages: AnalysisChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const ANALYSIS_CHAT_LIMITS = {
+  MAX_MESSAGE_LENGTH: 1000,
+  MAX_HISTORY_MESSAGES: 20, // Earlier messages are left out of the request, not deleted
+  MAX_SUGGESTIONS: 4,
+} as const;
+
+export function createChatMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
@@ -0,0 +1,8 @@
+/**
+ * Source of network reachability, swappable so offline handling can run against a stub
+ */
+export interface ConnectivityMonitor {
+  isConnected(): Promise<boolean>;
+  // Listeners hear the current state once it is known, then every change; returns an unsubscribe function
+  subscribe(listener: (isConnected: boolean) => void): () => void;
+}
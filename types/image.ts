@@ -0,0 +1,21 @@
+export type ImageFormat = 'jpeg' | 'png';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  format: ImageFormat;
+  data: Uint8Array; // RGBA, 4 bytes per pixel, row-major
+}
+
+export interface ImageBounds {
+  x: number; // Fractions of the image size (0-1), measured from the top-left corner
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PixelSamplingOptions {
+  step: number; // Sample every Nth pixel
+  minAlpha: number; // Skip pixels more transparent than this (0-255)
+  bounds?: ImageBounds; // Only sample inside this area when set
+}
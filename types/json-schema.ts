@@ -0,0 +1,62 @@
+// Subset of JSON Schema accepted by structured-output APIs (OpenAI strict mode, tool input schemas)
+export type JsonSchema =
+  | {
+      type: 'string';
+      enum?: readonly string[];
+      pattern?: string;
+      description?: string;
+    }
+  | {
+      type: 'number' | 'integer';
+      minimum?: number;
+      maximum?: number;
+      description?: string;
+    }
+  | {
+      type: 'boolean';
+      description?: string;
+    }
+  | {
+      type: 'array';
+      items: JsonSchema;
+      minItems?: number;
+      maxItems?: number;
+      description?: string;
+    }
+  | {
+      type: 'object';
+      properties: { readonly [key: string]: JsonSchema };
+      required: readonly string[];
+      additionalProperties: false;
+      description?: string;
+    };
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * TypeScript type described by a schema declared `as const`
+ */
+export type FromSchema<S> =
+  S extends { enum: readonly (infer E)[] } ? E
+  : S extends { type: 'string' } ? string
+  : S extends { type: 'number' | 'integer' } ? number
+  : S extends { type: 'boolean' } ? boolean
+  : S extends { type: 'array'; items: infer I } ? FromSchema<I>[]
+  : S extends { type: 'object'; properties: infer P; required: readonly (infer R)[] }
+    ? Simplify<
+        { -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } &
+        { -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]> }
+      >
+  : unknown;
+
+export interface SchemaValidationIssue {
+  path: string; // e.g. $.ergonomic_evaluation[2].status
+  message: string;
+}
+
+// Named schema sent to providers that support structured output
+export interface StructuredOutputFormat {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
@@ -0,0 +1,120 @@
+export type PaintBrand = 'Sherwin-Williams' | 'Benjamin Moore' | 'Behr' | 'Farrow & Ball';
+
+export type PaintFinish = 'flat' | 'matte' | 'eggshell' | 'satin' | 'semi-gloss' | 'gloss';
+
+export interface PaintColor {
+  id: string;
+  name: string;
+  brand: PaintBrand;
+  code: string;
+  lrv: number; // Light reflectance value, 0 (black) to 100 (white)
+  hex: string;
+  finishes: PaintFinish[];
+}
+
+export interface PaintMatch {
+  paint: PaintColor;
+  deltaE: number; // CIEDE2000 distance from the swatch
+}
+
+export interface SwatchPaintMatches {
+  swatch: string;
+  matches: PaintMatch[]; // Closest first
+}
+
+export interface PaintMatchOptions {
+  limit: number; // Matches returned per swatch
+  brands?: PaintBrand[]; // Only these brands when set
+  finishes?: PaintFinish[]; // Only paints sold in at least one of these finishes when set
+}
+
+export const PAINT_BRANDS: PaintBrand[] = [
+  'Sherwin-Williams',
+  'Benjamin Moore',
+  'Behr',
+  'Farrow & Ball',
+];
+
+export const PAINT_FINISHES: PaintFinish[] = ['flat', 'matte', 'eggshell', 'satin', 'semi-gloss', 'gloss'];
+
+// Finishes each brand's interior lines are sold in
+const BRAND_FINISHES: Record<PaintBrand, PaintFinish[]> = {
+  'Sherwin-Williams': ['flat', 'matte', 'eggshell', 'satin', 'semi-gloss', 'gloss'],
+  'Benjamin Moore': ['flat', 'matte', 'eggshell', 'satin', 'semi-gloss', 'gloss'],
+  Behr: ['flat', 'matte', 'eggshell', 'satin', 'semi-gloss'],
+  'Farrow & Ball': ['matte', 'eggshell', 'gloss'],
+};
+
+const paint = (
+  brand: PaintBrand,
+  code: string,
+  name: string,
+  hex: string,
+  lrv: number
+): PaintColor => ({
+  id: `${brand}-${code}`.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+  name,
+  brand,
+  code,
+  lrv,
+  hex,
+  finishes: BRAND_FINISHES[brand],
+});
+
+// Paint Catalog Data
+// Hex values approximate each manufacturer's on-screen swatch; physical samples will vary
+export const PAINT_CATALOG: PaintColor[] = [
+  // Sherwin-Williams
+  paint('Sherwin-Williams', 'SW 7005', 'Pure White', '#EDECE6', 84),
+  paint('Sherwin-Williams', 'SW 7008', 'Alabaster', '#EDEAE0', 82),
+  paint('Sherwin-Williams', 'SW 7029', 'Agreeable Gray', '#D1CBC1', 60),
+  paint('Sherwin-Williams', 'SW 7036', 'Accessible Beige', '#D1C7B8', 58),
+  paint('Sherwin-Williams', 'SW 7015', 'Repose Gray', '#C2BFB8', 58),
+  paint('Sherwin-Williams', 'SW 7016', 'Mindful Gray', '#BCB7AD', 48),
+  paint('Sherwin-Williams', 'SW 6204', 'Sea Salt', '#CDD2CA', 63),
+  paint('Sherwin-Williams', 'SW 6211', 'Rainwashed', '#C2CDC5', 59),
+  paint('Sherwin-Williams', 'SW 9130', 'Evergreen Fog', '#95978A', 31),
+  paint('Sherwin-Williams', 'SW 9081', 'Redend Point', '#AE8E7E', 28),
+  paint('Sherwin-Williams', 'SW 6244', 'Naval', '#2F3D4C', 4),
+  paint('Sherwin-Williams', 'SW 7048', 'Urbane Bronze', '#54504A', 8),
+  paint('Sherwin-Williams', 'SW 7069', 'Iron Ore', '#434341', 6),
+  paint('Sherwin-Williams', 'SW 6258', 'Tricorn Black', '#2F2F30', 3),
+  paint('Sherwin-Williams', 'SW 6385', 'Dover White', '#F0EADC', 83),
+  paint('Sherwin-Williams', 'SW 6871', 'Positive Red', '#AD2C34', 9),
+
+  // Benjamin Moore
+  paint('Benjamin Moore', 'OC-65', 'Chantilly Lace', '#F5F6F1', 92),
+  paint('Benjamin Moore', 'OC-17', 'White Dove', '#F0EFE5', 83),
+  paint('Benjamin Moore', 'OC-117', 'Simply White', '#F5F3E5', 90),
+  paint('Benjamin Moore', 'OC-20', 'Pale Oak', '#DDD6CB', 69),
+  paint('Benjamin Moore', 'HC-173', 'Edgecomb Gray', '#D8D2C5', 63),
+  paint('Benjamin Moore', 'HC-172', 'Revere Pewter', '#CCC7B9', 55),
+  paint('Benjamin Moore', '1495', 'October Mist', '#B8BBA4', 47),
+  paint('Benjamin Moore', 'HC-114', 'Saybrook Sage', '#B2B48E', 45),
+  paint('Benjamin Moore', '2136-40', 'Aegean Teal', '#5C7B7A', 19),
+  paint('Benjamin Moore', 'HC-166', 'Kendall Charcoal', '#686661', 19),
+  paint('Benjamin Moore', 'HC-156', 'Van Deusen Blue', '#4B5363', 9),
+  paint('Benjamin Moore', 'HC-154', 'Hale Navy', '#434C56', 9),
+  paint('Benjamin Moore', 'AF-290', 'Caliente', '#AB3433', 8),
+  paint('Benjamin Moore', '2008-30', 'Raspberry Blush', '#D05A4B', 20),
+  paint('Benjamin Moore', '2152-50', 'Golden Straw', '#E9CD84', 62),
+
+  // Behr
+  paint('Behr', 'DC-003', 'Blank Canvas', '#F2EEE2', 86),
+  paint('Behr', '790C-2', 'Silver Drop', '#DAD6CC', 70),
+  paint('Behr', '12', 'Swiss Coffee', '#EEE7D9', 82),
+  paint('Behr', '75', 'Polar Bear', '#F3F0E6', 88),
+  paint('Behr', 'S340-4', 'Back to Nature', '#BDC195', 50),
+  paint('Behr', 'PPU18-01', 'Cracked Pepper', '#4F5152', 8),
+  paint('Behr', 'MQ3-21', 'Breezeway', '#C3DCCC', 66),
+
+  // Farrow & Ball
+  paint('Farrow & Ball', 'No. 2003', 'Pointing', '#EBE5D6', 84),
+  paint('Farrow & Ball', 'No. 241', 'Skimming Stone', '#DDD4C8', 67),
+  paint('Farrow & Ball', 'No. 295', 'Sulking Room Pink', '#A48A83', 27),
+  paint('Farrow & Ball', 'No. 47', 'Green Smoke', '#6F7864', 18),
+  paint('Farrow & Ball', 'No. 81', 'Breakfast Room Green', '#7F9B74', 31),
+  paint('Farrow & Ball', 'No. 30', 'Hague Blue', '#3A4A55', 6),
+  paint('Farrow & Ball', 'No. 31', 'Railings', '#3F4245', 5),
+  paint('Farrow & Ball', 'No. 233', 'Dayroom Yellow', '#EBCB73', 64),
+];
@@ -12,6 +12,24 @@ export interface PhotoValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  quality?: ImageQualityReport; // Absent if the photo couldn't be decoded for the local check
+}
+
+export type ImageQualityIssueType = 'blurry' | 'too-dark' | 'too-bright' | 'blown-highlights' | 'low-resolution' | 'tilted';
+
+export interface ImageQualityIssue {
+  type: ImageQualityIssueType;
+  severity: 'error' | 'warning'; // Errors block the analysis
+  message: string; // What is wrong and how to fix it
+}
+
+// Scores measured locally on the downscaled photo
+export interface ImageQualityReport {
+  sharpness: number; // Variance of the Laplacian of the luma channel; higher is sharper
+  brightness: number; // Mean luma, 0-1
+  highlightClipping: number; // Share of pixels with a clipped channel, 0-1
+  tiltDegrees?: number; // Roll away from level, if strong straight edges were found
+  issues: ImageQualityIssue[];
 }
 
 export interface PhotoUploadState {
@@ -22,6 +40,18 @@ export interface PhotoUploadState {
   validationResult: PhotoValidationResult | null;
 }
 
+export interface SelectedPhoto {
+  photo: PhotoAsset;
+  validationResult: PhotoValidationResult;
+}
+
+// Upload state when several angles of the workspace can be picked
+export interface MultiPhotoUploadState {
+  selectedPhotos: SelectedPhoto[];
+  isUploading: boolean;
+  error: string | null;
+}
+
 export interface PhotoUploadTip {
   id: string;
   title: string;
@@ -62,8 +92,8 @@ export const PHOTO_UPLOAD_TIPS: PhotoUploadTip[] = [
   },
   {
     id: 'multiple-angles',
-    title: 'Consider taking multiple photos',
-    description: 'Different angles can provide more comprehensive workspace insights',
+    title: 'Add photos from other angles',
+    description: 'Up to 4 photos are analyzed together for more comprehensive workspace insights',
     icon: 'camera.rotate',
     type: 'optional',
   },
@@ -76,6 +106,7 @@ export const PHOTO_VALIDATION = {
   MIN_HEIGHT: 1, // Accept any height
   MAX_WIDTH: Number.MAX_SAFE_INTEGER, // No maximum width
   MAX_HEIGHT: Number.MAX_SAFE_INTEGER, // No maximum height
+  MAX_PHOTOS_PER_ANALYSIS: 4, // Angles of one workspace sent together in a single request
   SUPPORTED_FORMATS: ['image/jpeg', 'image/jpg', 'image/png', 'image/heic', 'image/webp', 'image/bmp', 'image/gif', 'image/tiff'], // Support all common formats
   RECOMMENDED_ASPECT_RATIOS: [
     { ratio: 4/3, label: '4:3 (Standard)' },
@@ -84,3 +115,16 @@ export const PHOTO_VALIDATION = {
     { ratio: 1/1, label: '1:1 (Square)' },
   ],
 } as const;
+
+// Local quality check thresholds; errors stop a photo from using up an analysis, warnings only advise
+export const IMAGE_QUALITY_THRESHOLDS = {
+  BLUR_ERROR: 12, // Laplacian variance on the 200px-wide analysis image
+  BLUR_WARNING: 35,
+  DARK_ERROR: 0.06, // Mean luma
+  DARK_WARNING: 0.18,
+  BRIGHT_ERROR: 0.94,
+  HIGHLIGHT_WARNING: 0.25, // Share of clipped pixels
+  MIN_SHORT_SIDE_ERROR: 320, // Pixels on the original photo's shorter side
+  MIN_SHORT_SIDE_WARNING: 720,
+  TILT_WARNING_DEGREES: 5,
+} as const;
@@ -0,0 +1,20 @@
+// Named, versioned prompt text; {{variable}} placeholders are filled in when it is rendered
+export interface PromptTemplate {
+  name: string; // Shared by every variant of the same prompt, e.g. workspace-analysis
+  version: number; // Bump whenever the text changes so results and caches can tell revisions apart
+  variant: string; // A/B arm, e.g. control
+  weight: number; // Relative share of installations assigned this variant; 0 disables it
+  template: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+// A template filled in for one request, with the identity to record alongside its result
+export interface RenderedPrompt {
+  name: string;
+  version: number;
+  variant: string;
+  text: string;
+}
+
+export const DEFAULT_PROMPT_VARIANT = 'control';
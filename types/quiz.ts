@@ -6,6 +6,8 @@ export interface QuizOption {
   colorSwatch?: string[];
 }
 
+export type ColorPreferenceId = 'neutral-tones' | 'bold-accents' | 'natural-greens';
+
 export interface QuizQuestion {
   id: string;
   title: string;
@@ -1,4 +1,7 @@
-import { WorkspaceAnalysisResult } from './ai-analysis';
+import { ErgonomicCheck, WorkspaceAnalysisResult } from './ai-analysis';
+import { AIProviderSettings } from './ai-provider';
+import { ModelPrice } from './ai-usage';
+import { AnalysisConversation } from './analysis-chat';
 import { PhotoAsset } from './photo';
 import { QuizResponse } from './quiz';
 
@@ -12,6 +15,9 @@ export const STORAGE_KEYS = {
   USAGE_TRACKING: '@home_harmony_usage_tracking',
   APP_DATA: '@home_harmony_app_data',
   QUIZ_DATA: '@home_harmony_quiz_data', // Already used in QuizStorageService
+  ANALYSIS_JOBS: '@home_harmony_analysis_jobs',
+  ANALYSIS_CACHE: '@home_harmony_analysis_cache',
+  AI_USAGE: '@home_harmony_ai_usage',
 } as const;
 
 // User preferences and settings
@@ -21,6 +27,8 @@ export interface UserPreferences {
   favoriteDesignIds: string[];
   notificationsEnabled: boolean;
   themePreference: 'light' | 'dark' | 'system';
+  aiProvider?: AIProviderSettings; // Overrides the environment's provider and model
+  modelPrices?: Record<string, ModelPrice>; // Overrides DEFAULT_MODEL_PRICES, keyed by model name
   createdAt: number;
   updatedAt: number;
   version: number;
@@ -36,6 +44,8 @@ export interface SavedDesign {
   isFavorite: boolean;
   tags: string[];
   notes?: string;
+  conversation?: AnalysisConversation; // Follow-up chat about the analysis
+  ergonomicChecks?: ErgonomicCheck[]; // Single-category re-checks, newest first
   createdAt: number;
   updatedAt: number;
 }
@@ -44,6 +54,7 @@ export interface SavedDesign {
 export interface DailyUsage {
   date: string; // YYYY-MM-DD format
   analysisCount: number;
+  categoryCheckCount?: number; // Single-area ergonomic re-checks, limited apart from full analyses
   lastAnalysisAt?: number;
   resetAt: number; // Timestamp when the day resets
 }
@@ -58,6 +69,33 @@ export interface UsageTracking {
   version: number;
 }
 
+// Analysis job lifecycle: queued -> running -> completed, or failed; offline jobs wait for the network
+export type AnalysisJobStatus = 'queued' | 'offline' | 'running' | 'completed' | 'failed';
+
+// Persisted analysis request, resumed on launch if the app closed before it finished
+export interface AnalysisJob {
+  id: string;
+  photo: PhotoAsset;
+  additionalPhotos?: PhotoAsset[]; // Other angles analyzed in the same request
+  quizResponses: QuizResponse[];
+  status: AnalysisJobStatus;
+  attempts: number; // Runs started, including ones cut short by the app closing
+  usageRecorded: boolean; // Counted toward the daily limit when it was queued
+  useCachedResponse?: boolean; // The user chose to reuse a cached response for this photo
+  result?: WorkspaceAnalysisResult; // Kept after completing until the user opens it
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Raw AI response stored under a hash of the analysis image and everything that shaped the prompt
+export interface AnalysisCacheEntry {
+  key: string;
+  response: string;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
 // App-wide data and settings
 export interface AppData {
   hasCompletedOnboarding: boolean;
@@ -110,8 +148,16 @@ export interface DesignFilter {
 // Constants for usage limits
 export const USAGE_LIMITS = {
   DAILY_ANALYSES: 5,
+  DAILY_CATEGORY_CHECKS: 10, // A re-check is one smaller vision call, so it gets its own, larger allowance
   MAX_SAVED_DESIGNS: 50,
   MAX_BACKUP_AGE_DAYS: 30,
+  MAX_JOB_ATTEMPTS: 3, // Runs of one analysis job before it stops resuming on its own
+} as const;
+
+export const ANALYSIS_CACHE_LIMITS = {
+  TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+  MAX_ENTRIES: 20,
+  MAX_TOTAL_CHARS: 500_000, // Responses are a few KB each; keeps the AsyncStorage value small
 } as const;
 
 // Default values
@@ -142,6 +188,11 @@ export function createDesignId(): string {
   return `design_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Helper function to create analysis job ID
+export function createAnalysisJobId(): string {
+  return `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 // Helper function to create user preferences ID
 export function createUserPreferencesId(): string {
   return `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
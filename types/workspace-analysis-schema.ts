@@ -0,0 +1,206 @@
+import { ErgonomicInsight, PaletteMood, PaletteRegion, ProductRecommendation } from './ai-analysis';
+import { FromSchema, JsonSchema, StructuredOutputFormat } from './json-schema';
+
+const ERGONOMIC_CATEGORIES = [
+  'desk-height',
+  'chair-posture',
+  'lighting',
+  'screen-position',
+  'organization',
+] as const satisfies readonly ErgonomicInsight['category'][];
+
+const ERGONOMIC_STATUSES = [
+  'good',
+  'needs-improvement',
+  'poor',
+] as const satisfies readonly ErgonomicInsight['status'][];
+
+const PALETTE_MOODS = [
+  'focus',
+  'creativity',
+  'calm',
+  'energizing',
+  'cozy',
+  'fresh',
+  'sophisticated',
+  'playful',
+  'grounded',
+] as const satisfies readonly PaletteMood[];
+
+const PALETTE_REGIONS = [
+  'walls',
+  'furniture',
+  'floor',
+  'accents',
+] as const satisfies readonly PaletteRegion[];
+
+export const PRODUCT_CATEGORIES = [
+  'desk',
+  'chair',
+  'lighting',
+  'storage',
+  'decor',
+  'tech',
+] as const satisfies readonly ProductRecommendation['category'][];
+
+const FRACTION = { type: 'number', minimum: 0, maximum: 1 } as const;
+
+/**
+ * Contract for the workspace analysis response.
+ * Sent to the provider as a structured output format and used to validate what comes back.
+ */
+export const WORKSPACE_ANALYSIS_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: [
+    'workspace_description',
+    'style_assessment',
+    'ergonomic_evaluation',
+    'improvement_priorities',
+    'color_analysis',
+    'product_needs',
+  ],
+  properties: {
+    workspace_description: {
+      type: 'string',
+      description: 'Detailed description of the current workspace: furniture, layout, lighting and organization',
+    },
+    style_assessment: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['current_style', 'alignment_score', 'alignment_explanation'],
+      properties: {
+        current_style: { type: 'string', description: 'Short name for the current style' },
+        alignment_score: { ...FRACTION, description: 'How well the space matches the user preferences, 0-1' },
+        alignment_explanation: { type: 'string', description: 'Why the space does or does not match' },
+      },
+    },
+    ergonomic_evaluation: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['category', 'status', 'observation', 'recommendation', 'photo'],
+        properties: {
+          category: { type: 'string', enum: ERGONOMIC_CATEGORIES },
+          status: { type: 'string', enum: ERGONOMIC_STATUSES },
+          observation: { type: 'string', description: 'What you observe' },
+          recommendation: { type: 'string', description: 'Specific improvement suggestion' },
+          photo: { type: 'integer', minimum: 1, description: 'Number of the photo this is observed in, starting at 1' },
+        },
+      },
+    },
+    improvement_priorities: {
+      type: 'array',
+      items: { type: 'string' },
+      maxItems: 5,
+      description: 'Improvements ordered from most to least important',
+    },
+    color_analysis: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['dominant_colors', 'mood', 'color_harmony', 'regions'],
+      properties: {
+        dominant_colors: {
+          type: 'array',
+          items: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+          minItems: 1,
+          maxItems: 8,
+          description: 'Hex colors, most prominent first',
+        },
+        mood: { type: 'string', enum: PALETTE_MOODS },
+        color_harmony: { type: 'string', description: 'Assessment of the current color scheme' },
+        regions: {
+          type: 'array',
+          description: 'Areas you can see; omit any that are not visible',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['label', 'box'],
+            properties: {
+              label: { type: 'string', enum: PALETTE_REGIONS },
+              box: {
+                type: 'array',
+                items: FRACTION,
+                minItems: 4,
+                maxItems: 4,
+                description: '[x, y, width, height] as fractions of photo 1 from the top-left corner',
+              },
+            },
+          },
+        },
+      },
+    },
+    product_needs: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['required_categories', 'priority_items'],
+      properties: {
+        required_categories: {
+          type: 'array',
+          items: { type: 'string', enum: PRODUCT_CATEGORIES },
+        },
+        priority_items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['category', 'reason', 'urgency'],
+            properties: {
+              category: { type: 'string', enum: PRODUCT_CATEGORIES },
+              reason: { type: 'string', description: 'Why this category is needed' },
+              urgency: { type: 'string', enum: ['high', 'medium', 'low'] },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const satisfies JsonSchema;
+
+export const WORKSPACE_ANALYSIS_FORMAT: StructuredOutputFormat = {
+  name: 'workspace_analysis',
+  description: 'Structured analysis of one or more photos of a home office workspace',
+  schema: WORKSPACE_ANALYSIS_SCHEMA,
+};
+
+export type WorkspaceAnalysisResponse = FromSchema<typeof WORKSPACE_ANALYSIS_SCHEMA>;
+export type ErgonomicEvaluationItem = WorkspaceAnalysisResponse['ergonomic_evaluation'][number];
+export type ColorAnalysisResponse = WorkspaceAnalysisResponse['color_analysis'];
+export type ProductNeedsResponse = WorkspaceAnalysisResponse['product_needs'];
+
+/**
+ * Contract for re-checking a single ergonomic category against a new photo
+ */
+export const ERGONOMIC_CHECK_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['status', 'observation', 'recommendation', 'change_summary'],
+  properties: {
+    status: { type: 'string', enum: ERGONOMIC_STATUSES },
+    observation: { type: 'string', description: 'What you observe for this category only' },
+    recommendation: { type: 'string', description: 'Specific improvement suggestion, if any is still needed' },
+    change_summary: {
+      type: 'string',
+      description: 'One sentence on what changed compared with the previous assessment',
+    },
+  },
+} as const satisfies JsonSchema;
+
+export const ERGONOMIC_CHECK_FORMAT: StructuredOutputFormat = {
+  name: 'ergonomic_check',
+  description: 'Focused re-assessment of one ergonomic category of a home office workspace',
+  schema: ERGONOMIC_CHECK_SCHEMA,
+};
+
+export type ErgonomicCheckResponse = FromSchema<typeof ERGONOMIC_CHECK_SCHEMA>;
+
+// Progress step shown while each top-level section streams in
+export const ANALYSIS_SECTION_STEPS: Record<keyof WorkspaceAnalysisResponse, string> = {
+  workspace_description: 'Describing your workspace...',
+  style_assessment: 'Assessing your style...',
+  ergonomic_evaluation: 'Evaluating ergonomic factors...',
+  improvement_priorities: 'Prioritizing improvements...',
+  color_analysis: 'Analyzing colors...',
+  product_needs: 'Identifying product needs...',
+};